@@ -1,91 +1,253 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { fetchDictionaryDefinition, generateWordImage, generateSpeech, extractTextFromImage, generateDailyStory } from './services/geminiService';
-import { DictionaryState, WordHistoryItem, DictionaryResult, ViewMode, UserProfile } from './types';
+import React, { useState, useCallback, useRef, useEffect, useLayoutEffect, useMemo, useSyncExternalStore } from 'react';
+import { ImagePreferences, analyzeSentence, fetchDictionaryDefinition, fetchJapaneseCandidates, generateWordImage, extractTextFromImage, generateDailyStory, getSpeechVoices, loadWordImages } from './services/geminiService';
+import { deleteWordImage, imageKey, loadPinnedThumbnails, pinWordImage } from './services/imageStore';
+import { getPlaybackState, playText, setPlaybackRate, setPlaybackVoice, subscribePlayback } from './services/audioEngine';
+import { cancelChannel, isAbortError, setUsageLimits } from './services/requestService';
+import { NotAWordError, describeAiError } from './services/aiErrors';
+import { MessageKey, setLocale, translate, useTranslation } from './i18n';
+import { AppSettings, DictionaryState, WordHistoryItem, DictionaryResult, ViewMode, ReviewGrade, OcrSpan, WordbookFilter, PracticeAttempt, SavedStory, SearchMode, SentenceToken, StoryGenre, StoryLength, StoryOptions, WordImage } from './types';
 import { ResultCard } from './components/ResultCard';
-import { decodeBase64, decodeAudioData, playBuffer } from './utils/audioUtils';
+import { CandidateList } from './components/CandidateList';
+import { KanjiBreakdown } from './components/KanjiBreakdown';
+import { WordGraph } from './components/WordGraph';
+import { SentenceAnalyzer } from './components/SentenceAnalyzer';
+import { ReviewSession } from './components/ReviewSession';
+import { QuizSession } from './components/QuizSession';
+import { CacheControl } from './components/CacheControl';
+import { AnkiExportDialog } from './components/AnkiExportDialog';
+import { ImportDialog } from './components/ImportDialog';
+import { RubyText } from './components/RubyText';
+import { FuriganaToggle } from './components/FuriganaToggle';
+import { OcrPicker } from './components/OcrPicker';
+import { CameraScanner } from './components/CameraScanner';
+import { WordbookToolbar } from './components/WordbookToolbar';
+import { TagEditor } from './components/TagEditor';
+import { LoginDialog } from './components/LoginDialog';
+import { BackupControl } from './components/BackupControl';
+import { RecoveryNotice } from './components/RecoveryNotice';
+import { AudioPlayerBar } from './components/AudioPlayerBar';
+import { PracticeTarget, PronunciationPractice } from './components/PronunciationPractice';
+import { StoryComposer } from './components/StoryComposer';
+import { StoryView } from './components/StoryView';
+import { StoryArchive } from './components/StoryArchive';
+import { SettingsDialog } from './components/SettingsDialog';
 import { exportHistoryToCSV } from './utils/csvUtils';
+import { exportHistoryToJSON } from './utils/jsonUtils';
+import { createHistoryItem, isSenseSaved } from './utils/dictionaryUtils';
+import { collectKnownKanji } from './utils/furiganaUtils';
+import { DEFAULT_WORDBOOK_FILTER, collectFolders, collectTags, filterHistory, isFilterActive } from './utils/wordbookUtils';
+import { countDueToday, getDueItems, scheduleReview } from './utils/srsUtils';
+import { EMPTY_SYNC_META, markUpdated } from './utils/syncUtils';
+import { recordQuizAnswer } from './utils/quizUtils';
+import { PracticeHistory, addPracticeAttempt } from './utils/pronunciationUtils';
+import { createSavedStory, storiesForWord } from './utils/storyUtils';
+import { withSourceSentence } from './utils/sentenceUtils';
+import { Route, parseRoute, routeToPath } from './utils/routeUtils';
+import { DEFAULT_SYNC_SERVER_URL, SyncAuthError, SyncSession, loadSession, loadSyncMeta, logout, saveSession, saveSyncMeta, syncWordbook } from './services/syncService';
+import { loadHistory, loadPracticeHistory, loadSettings, loadStories, saveHistory, savePracticeHistory, saveSettings, saveStories } from './services/storageService';
+import { BackupFile, createBackupFile, downloadBackup } from './utils/backupUtils';
+
+// Longer word lists make stories rambling and slow to generate
+const STORY_WORD_LIMIT = 20;
+
+const DEFAULT_STORY_OPTIONS: StoryOptions = {
+  level: '',
+  length: StoryLength.SHORT,
+  genre: StoryGenre.COMEDY,
+};
+
+const SEARCH_MODES: { mode: SearchMode; label: MessageKey; placeholder: MessageKey }[] = [
+  { mode: SearchMode.JP_TO_CN, label: 'search.modeJpToCn', placeholder: 'search.placeholder' },
+  { mode: SearchMode.CN_TO_JP, label: 'search.modeCnToJp', placeholder: 'search.placeholderCnToJp' },
+  { mode: SearchMode.ANALYZE, label: 'search.modeAnalyze', placeholder: 'search.placeholderAnalyze' },
+];
+
+// Sync shortly after edits settle, and poll for changes made on other devices
+const SYNC_DEBOUNCE_MS = 3000;
+const SYNC_INTERVAL_MS = 60 * 1000;
 
 const App: React.FC = () => {
   // --- State ---
-  const [query, setQuery] = useState('');
-  const [view, setView] = useState<ViewMode>(ViewMode.SEARCH);
-  const [user, setUser] = useState<UserProfile | null>(null);
+  // The address bar at load; after that the URL follows the state (see Routing below)
+  const [initialRoute] = useState<Route>(() => parseRoute(window.location.pathname, window.location.search));
+  const [query, setQuery] = useState(initialRoute.query);
+  const [searchMode, setSearchMode] = useState<SearchMode>(SearchMode.JP_TO_CN);
+  const [addingToken, setAddingToken] = useState<string | null>(null);
+  const [view, setView] = useState<ViewMode>(initialRoute.view);
+  const [session, setSession] = useState<SyncSession | null>(() => loadSession());
+  const [isLoginOpen, setIsLoginOpen] = useState(false);
+  // Pre-fills the login screen after restoring a backup on a new device
+  const [loginHint, setLoginHint] = useState<BackupFile['profile']>(null);
+  const [syncStatus, setSyncStatus] = useState<'idle' | 'syncing' | 'error'>('idle');
+  const [lastSyncedAt, setLastSyncedAt] = useState<number | null>(() => loadSyncMeta().lastSyncedAt);
+  const [isAnkiExportOpen, setIsAnkiExportOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [ocrResult, setOcrResult] = useState<{ imageUrl: string; spans: OcrSpan[] } | null>(null);
+  const [isAddingOcrWords, setIsAddingOcrWords] = useState(false);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [wordbookFilter, setWordbookFilter] = useState<WordbookFilter>(DEFAULT_WORDBOOK_FILTER);
+  const [wordbookLayout, setWordbookLayout] = useState<'list' | 'graph'>('list');
+  const [editingTagsId, setEditingTagsId] = useState<string | null>(null);
+  const [settings, setSettings] = useState<AppSettings>(() => loadSettings());
+  const { furiganaMode } = settings;
+  const imagePreferences = useMemo<ImagePreferences>(
+    () => ({ style: settings.imageStyle, promptSuffix: settings.imagePromptSuffix }),
+    [settings.imageStyle, settings.imagePromptSuffix]
+  );
+  // Favorite pictures by imageKey, for Wordbook rows
+  const [pinnedThumbnails, setPinnedThumbnails] = useState<Record<string, string>>({});
+  const t = useTranslation();
+  const playback = useSyncExternalStore(subscribePlayback, getPlaybackState);
+  const speechVoices = useMemo(() => getSpeechVoices(), []);
+  const [practiceTarget, setPracticeTarget] = useState<PracticeTarget | null>(null);
+  const [practiceHistory, setPracticeHistory] = useState<PracticeHistory>(() => loadPracticeHistory());
+  const [stories, setStories] = useState<SavedStory[]>(() => loadStories());
+  const [storyOptions, setStoryOptions] = useState<StoryOptions>(DEFAULT_STORY_OPTIONS);
+  const [isStoryComposerOpen, setIsStoryComposerOpen] = useState(false);
+  // The archive is opened either in full (word null) or narrowed to one word
+  const [storyArchive, setStoryArchive] = useState<{ word: string | null } | null>(null);
   
-  const [state, setState] = useState<DictionaryState>({
+  // Lazy so the stored history is only read and migrated once, not on every render
+  const [state, setState] = useState<DictionaryState>(() => ({
     data: null,
-    imageUrl: null,
-    isLoadingText: false,
+    images: null,
+    candidates: null,
+    analysis: null,
+    // A /word/ link starts loading straight away, so the URL isn't reset to / before the lookup begins
+    isLoadingText: !!initialRoute.query,
     isLoadingImage: false,
-    isLoadingAudioWord: false,
-    isLoadingAudioSentence: false,
     isAnalyzingImage: false,
     isGeneratingStory: false,
     error: null,
-    history: [],
+    history: loadHistory(),
     dailyStory: null
-  });
+  }));
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const syncMetaRef = useRef(loadSyncMeta());
+  const isSyncingRef = useRef(false);
+  // Latest history for async sync code, which must not overwrite edits made while it was waiting
+  const historyRef = useRef<WordHistoryItem[]>([]);
+  historyRef.current = state.history;
+  // Bumped by every lookup, so a slow earlier one (e.g. not cached) can't replace a newer, cached result
+  const searchIdRef = useRef(0);
+  const user = session?.user ?? null;
 
   // --- Effects ---
 
-  // Load history from local storage on mount (Simulation of cloud sync)
+  // Save history whenever it changes; it is loaded once in the initial state
   useEffect(() => {
-    const savedHistory = localStorage.getItem('lyb_history');
-    const savedUser = localStorage.getItem('lyb_user');
-    if (savedHistory) {
-      try {
-        const parsed = JSON.parse(savedHistory);
-        setState(prev => ({ ...prev, history: parsed }));
-      } catch (e) { console.error("Failed to load history"); }
-    }
-    if (savedUser) {
-      try {
-        setUser(JSON.parse(savedUser));
-      } catch (e) { console.error("Failed to load user"); }
-    }
+    saveHistory(state.history);
+  }, [state.history]);
+
+  useEffect(() => {
+    saveStories(stories);
+  }, [stories]);
+
+  useEffect(() => {
+    saveSettings(settings);
+  }, [settings]);
+
+  // Before paint, so the first render after a switch (or on load) isn't shown in the old language
+  useLayoutEffect(() => {
+    setLocale(settings.locale);
+  }, [settings.locale]);
+
+  useEffect(() => {
+    setPlaybackVoice(settings.voice);
+    setPlaybackRate(settings.playbackRate);
+  }, [settings.voice, settings.playbackRate]);
+
+  useEffect(() => {
+    setUsageLimits(settings.usageLimits);
+  }, [settings.usageLimits]);
+
+  useEffect(() => {
+    loadPinnedThumbnails().then(setPinnedThumbnails);
   }, []);
 
-  // Save history whenever it changes
+  // --- Sync ---
+
+  const runSync = useCallback(async () => {
+    if (!session || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    setSyncStatus('syncing');
+
+    const snapshot = historyRef.current;
+    try {
+      const outcome = await syncWordbook(session, snapshot, syncMetaRef.current);
+      // Edited while syncing: drop this result, the debounced sync will run again with the new state
+      if (historyRef.current !== snapshot) {
+        setSyncStatus('idle');
+        return;
+      }
+      syncMetaRef.current = outcome.meta;
+      saveSyncMeta(outcome.meta);
+      setLastSyncedAt(outcome.meta.lastSyncedAt);
+      if (outcome.history.length !== snapshot.length || outcome.history.some((item, i) => item !== snapshot[i])) {
+        setState(prev => ({ ...prev, history: outcome.history }));
+      }
+      setSyncStatus('idle');
+    } catch (error) {
+      console.error("Sync failed", error);
+      setSyncStatus('error');
+      if (error instanceof SyncAuthError) {
+        saveSession(null);
+        setSession(null);
+        alert(error.message);
+      }
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [session]);
+
   useEffect(() => {
-    localStorage.setItem('lyb_history', JSON.stringify(state.history));
-  }, [state.history]);
+    if (!session) return;
+    const timer = setTimeout(runSync, SYNC_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [session, state.history, runSync]);
+
+  useEffect(() => {
+    if (!session) return;
+    const timer = setInterval(runSync, SYNC_INTERVAL_MS);
+    window.addEventListener('focus', runSync);
+    window.addEventListener('online', runSync);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('focus', runSync);
+      window.removeEventListener('online', runSync);
+    };
+  }, [session, runSync]);
 
   // --- Handlers ---
 
-  const handleLogin = () => {
-    // Mock Google Login
-    const mockUser: UserProfile = {
-      name: "Explorer",
-      email: "explorer@example.com",
-      photoURL: "https://ui-avatars.com/api/?name=Explorer&background=f59e0b&color=fff"
-    };
-    setUser(mockUser);
-    localStorage.setItem('lyb_user', JSON.stringify(mockUser));
-    alert("Logged in successfully! Your vocabulary will be saved locally.");
+  const handleLogin = (newSession: SyncSession) => {
+    saveSession(newSession);
+    setSession(newSession);
+    setIsLoginOpen(false);
+    setLoginHint(null);
   };
 
   const handleLogout = () => {
-    setUser(null);
-    localStorage.removeItem('lyb_user');
+    if (session) logout(session);
+    saveSession(null);
+    // The local Wordbook stays; it is merged into whichever account logs in next
+    saveSyncMeta(null);
+    syncMetaRef.current = EMPTY_SYNC_META;
+    setSession(null);
+    setLastSyncedAt(null);
+    setSyncStatus('idle');
     setView(ViewMode.SEARCH);
   };
 
-  const addToHistory = useCallback((result: DictionaryResult) => {
+  const addToHistory = useCallback((result: DictionaryResult, senseIndex: number = 0) => {
     setState(prev => {
-      // Avoid duplicates
-      if (prev.history.some(item => item.word === result.word)) return prev;
+      // A search saves the primary sense once; other senses are saved explicitly
+      if (senseIndex === 0 && prev.history.some(item => item.word === result.word)) return prev;
+      if (isSenseSaved(prev.history, result, senseIndex)) return prev;
       
-      const newItem: WordHistoryItem = {
-        id: Date.now().toString(),
-        word: result.word,
-        reading: result.reading,
-        definition: result.definition_cn,
-        definition_jp: result.definition_jp,
-        example_jp: result.example_jp,
-        example_cn: result.example_cn,
-        timestamp: Date.now()
-      };
+      const newItem = createHistoryItem(result, senseIndex);
       return {
         ...prev,
         history: [newItem, ...prev.history]
@@ -93,26 +255,93 @@ const App: React.FC = () => {
     });
   }, []);
 
-  const handleSearch = async (e?: React.FormEvent, overrideQuery?: string) => {
+  const handleImportHistory = useCallback((history: WordHistoryItem[]) => {
+    setState(prev => ({ ...prev, history }));
+  }, []);
+
+  const handleBackup = () => {
+    downloadBackup(createBackupFile(
+      state.history,
+      settings,
+      session ? { user: session.user, serverUrl: session.serverUrl } : null,
+      stories
+    ));
+  };
+
+  const handleRestoreBackup = (backup: BackupFile) => {
+    setState(prev => ({ ...prev, history: backup.history }));
+    setSettings(backup.settings);
+    setStories(backup.stories);
+    // Forget what was synced so the restored Wordbook is merged with the server instead of deleting from it
+    saveSyncMeta(null);
+    syncMetaRef.current = EMPTY_SYNC_META;
+    if (!session && backup.profile) {
+      setLoginHint(backup.profile);
+      setIsLoginOpen(true);
+    }
+  };
+
+  const handleUpdateTags = useCallback((id: string, tags: string[], folder: string | undefined) => {
+    setState(prev => ({
+      ...prev,
+      history: prev.history.map(item => item.id === id ? markUpdated({ ...item, tags, folder }) : item)
+    }));
+    setEditingTagsId(null);
+  }, []);
+
+  const handleDeleteItem = useCallback((item: WordHistoryItem) => {
+    if (!confirm(translate('wordbook.confirmRemove', { word: item.word }))) return;
+    setState(prev => ({ ...prev, history: prev.history.filter(h => h.id !== item.id) }));
+  }, []);
+
+  const handleGradeReview = useCallback((item: WordHistoryItem, grade: ReviewGrade): WordHistoryItem => {
+    const updated = markUpdated(scheduleReview(item, grade));
+    setState(prev => ({
+      ...prev,
+      history: prev.history.map(h => h.id === updated.id ? updated : h)
+    }));
+    return updated;
+  }, []);
+
+  const handleQuizAnswer = useCallback((item: WordHistoryItem, isCorrect: boolean) => {
+    setState(prev => ({
+      ...prev,
+      history: prev.history.map(h => h.id === item.id ? markUpdated(recordQuizAnswer(h, isCorrect)) : h)
+    }));
+  }, []);
+
+  // Cancels lookups in flight and returns an id to check before showing a result
+  const beginSearch = () => {
+    cancelChannel('search');
+    cancelChannel('image');
+    return ++searchIdRef.current;
+  };
+
+  // `keepContext` opens a word picked from the candidate list or the sentence analysis: those and the query in the box stay
+  const handleSearch = async (e?: React.FormEvent, overrideQuery?: string, keepContext: boolean = false) => {
     if (e) e.preventDefault();
     const searchTerm = overrideQuery || query;
     if (!searchTerm.trim()) return;
 
     setView(ViewMode.SEARCH); // Ensure we are on search page
+    const searchId = beginSearch();
     setState(prev => ({
       ...prev,
       isLoadingText: true,
       isLoadingImage: true,
       error: null,
       data: null,
-      imageUrl: null
+      images: null,
+      candidates: keepContext ? prev.candidates : null,
+      analysis: keepContext ? prev.analysis : null
     }));
 
     try {
-      // 1. Fetch text definition
-      const definition = await fetchDictionaryDefinition(searchTerm);
-      
-      setQuery(definition.word);
+      // 1. Fetch text definition; a newer search cancels this one
+      const definition = await fetchDictionaryDefinition(searchTerm, settings.traditionalChinese, { channel: 'search' });
+      if (searchId !== searchIdRef.current) return;
+
+      if (!keepContext) setQuery(definition.word);
       setState(prev => ({ ...prev, data: definition, isLoadingText: false }));
       
       addToHistory(definition);
@@ -121,21 +350,123 @@ const App: React.FC = () => {
       generateImage(definition.word, definition.definition_cn);
 
     } catch (error) {
+      if (isAbortError(error) || searchId !== searchIdRef.current) return;
       console.error(error);
       setState(prev => ({
         ...prev,
-        error: "Failed to find the word. Please try again.",
+        error: describeAiError(error, translate('search.failed')),
         isLoadingText: false,
         isLoadingImage: false
       }));
     }
   };
 
-  const generateImage = async (word: string, def: string) => {
+  const handleFindCandidates = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!query.trim()) return;
+
+    setView(ViewMode.SEARCH);
+    const searchId = beginSearch();
+    setState(prev => ({
+      ...prev,
+      isLoadingText: true,
+      isLoadingImage: false,
+      error: null,
+      data: null,
+      images: null,
+      candidates: null,
+      analysis: null
+    }));
+
+    try {
+      // Shares the search channel, so it and word lookups cancel each other
+      const candidates = await fetchJapaneseCandidates(query, settings.traditionalChinese, { channel: 'search' });
+      if (searchId !== searchIdRef.current) return;
+      setState(prev => ({ ...prev, candidates, isLoadingText: false }));
+    } catch (error) {
+      if (isAbortError(error) || searchId !== searchIdRef.current) return;
+      console.error(error);
+      setState(prev => ({
+        ...prev,
+        error: describeAiError(error, translate('search.candidatesFailed')),
+        isLoadingText: false
+      }));
+    }
+  };
+
+  const handleAnalyze = async (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    if (!query.trim()) return;
+
+    setView(ViewMode.SEARCH);
+    const searchId = beginSearch();
+    setState(prev => ({
+      ...prev,
+      isLoadingText: true,
+      isLoadingImage: false,
+      error: null,
+      data: null,
+      images: null,
+      candidates: null,
+      analysis: null
+    }));
+
+    try {
+      const analysis = await analyzeSentence(query, settings.traditionalChinese, { channel: 'search' });
+      if (searchId !== searchIdRef.current) return;
+      setState(prev => ({ ...prev, analysis, isLoadingText: false }));
+    } catch (error) {
+      if (isAbortError(error) || searchId !== searchIdRef.current) return;
+      console.error(error);
+      setState(prev => ({
+        ...prev,
+        error: describeAiError(error, translate('search.analyzeFailed')),
+        isLoadingText: false
+      }));
+    }
+  };
+
+  const handleSubmitSearch = (e: React.FormEvent) => {
+    if (searchMode === SearchMode.CN_TO_JP) handleFindCandidates(e);
+    else if (searchMode === SearchMode.ANALYZE) handleAnalyze(e);
+    else handleSearch(e);
+  };
+
+  // Saves a word from the analyzed sentence, with that sentence as its example instead of the dictionary's
+  const handleAddToken = async (token: SentenceToken) => {
+    const analysis = state.analysis;
+    if (!analysis || addingToken) return;
+    setAddingToken(token.base_form);
+    try {
+      const definition = await fetchDictionaryDefinition(token.base_form, settings.traditionalChinese);
+      // The dictionary form can differ from the token (e.g. kana for a kanji word), so check the sense it resolved to
+      if (isSenseSaved(historyRef.current, definition, 0)) {
+        alert(translate('analyze.alreadySaved', { word: definition.word }));
+        return;
+      }
+      const item = withSourceSentence(createHistoryItem(definition), analysis);
+      setState(prev => (
+        isSenseSaved(prev.history, definition, 0) ? prev : { ...prev, history: [item, ...prev.history] }
+      ));
+    } catch (error) {
+      console.error(`Failed to add ${token.base_form}`, error);
+      alert(describeAiError(error, translate('search.failed')));
+    } finally {
+      setAddingToken(null);
+    }
+  };
+
+  // Shows the pictures kept for the word, drawing one if there are none yet; `drawAnother` always draws
+  const generateImage = async (word: string, def: string, drawAnother: boolean = false) => {
     try {
-      const imageUrl = await generateWordImage(word, def);
-      setState(prev => ({ ...prev, imageUrl, isLoadingImage: false }));
+      const kept = drawAnother ? null : await loadWordImages(word);
+      const images = kept && kept.images.length > 0
+        ? kept
+        : await generateWordImage(word, def, imagePreferences, { channel: 'image' });
+      // A slow gallery read mustn't land on the next word's card
+      setState(prev => (prev.data?.word === word ? { ...prev, images, isLoadingImage: false } : prev));
     } catch (imgError) {
+      if (isAbortError(imgError)) return;
       console.error("Image generation failed", imgError);
       setState(prev => ({ ...prev, isLoadingImage: false }));
     }
@@ -143,29 +474,64 @@ const App: React.FC = () => {
 
   const handleRegenerateImage = () => {
     if (!state.data) return;
-    setState(prev => ({ ...prev, isLoadingImage: true, imageUrl: null }));
-    generateImage(state.data.word, state.data.definition_cn);
+    setState(prev => ({ ...prev, isLoadingImage: true }));
+    generateImage(state.data.word, state.data.definition_cn, true);
   };
 
-  const handlePlayAudio = useCallback(async (text: string, type: 'word' | 'sentence') => {
-    const loadingKey = type === 'word' ? 'isLoadingAudioWord' : 'isLoadingAudioSentence';
-    
-    if (state[loadingKey]) return;
-    setState(prev => ({ ...prev, [loadingKey]: true }));
+  const handlePinImage = async (image: WordImage | null) => {
+    const gallery = state.images;
+    if (!gallery) return;
+    try {
+      await pinWordImage(gallery.word, image?.id ?? null);
+    } catch (e) {
+      console.error("Failed to pin picture", e);
+      return;
+    }
+    setState(prev => (prev.images === gallery ? { ...prev, images: { ...gallery, pinnedId: image?.id ?? null } } : prev));
+    setPinnedThumbnails(prev => {
+      const { [imageKey(gallery.word)]: _, ...rest } = prev;
+      return image ? { ...rest, [imageKey(gallery.word)]: image.thumbnail } : rest;
+    });
+  };
 
+  const handleDeleteImage = async (image: WordImage) => {
+    const gallery = state.images;
+    if (!gallery || !confirm(translate('result.confirmDeleteImage'))) return;
     try {
-      const base64Audio = await generateSpeech(text);
-      const audioBytes = decodeBase64(base64Audio);
-      const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
-      const audioCtx = new AudioContextClass({ sampleRate: 24000 });
-      const audioBuffer = await decodeAudioData(audioBytes, audioCtx, 24000);
-      playBuffer(audioBuffer, audioCtx);
-    } catch (error) {
-      console.error("Audio playback failed", error);
-    } finally {
-      setState(prev => ({ ...prev, [loadingKey]: false }));
+      await deleteWordImage(image);
+    } catch (e) {
+      console.error("Failed to delete picture", e);
+      return;
     }
-  }, [state]);
+    const wasPinned = gallery.pinnedId === image.id;
+    setState(prev => (prev.images === gallery ? {
+      ...prev,
+      images: { ...gallery, images: gallery.images.filter(i => i.id !== image.id), pinnedId: wasPinned ? null : gallery.pinnedId }
+    } : prev));
+    if (wasPinned) {
+      setPinnedThumbnails(prev => {
+        const { [imageKey(gallery.word)]: _, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  const updateSettings = useCallback((patch: Partial<AppSettings>) => {
+    setSettings(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  // The clip id tells the result card which of its buttons is loading
+  const handlePlayAudio = useCallback((text: string, type: 'word' | 'sentence') => {
+    playText(text, type);
+  }, []);
+
+  const handlePracticeAttempt = (word: string, attempt: PracticeAttempt) => {
+    setPracticeHistory(prev => {
+      const updated = addPracticeAttempt(prev, word, attempt);
+      savePracticeHistory(updated);
+      return updated;
+    });
+  };
 
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -174,14 +540,14 @@ const App: React.FC = () => {
     try {
       const reader = new FileReader();
       reader.onload = async () => {
-        const base64String = (reader.result as string).split(',')[1];
+        const imageUrl = reader.result as string;
+        const base64String = imageUrl.split(',')[1];
         try {
-          const extractedText = await extractTextFromImage(base64String);
-          if (extractedText) {
-            setQuery(extractedText);
-            handleSearch(undefined, extractedText);
+          const spans = await extractTextFromImage(base64String);
+          if (spans.length > 0) {
+            setOcrResult({ imageUrl, spans });
           } else { throw new Error("No text found"); }
-        } catch (err) { setState(prev => ({ ...prev, error: "Could not read text from image." })); } 
+        } catch (err) { setState(prev => ({ ...prev, error: describeAiError(err, translate('search.ocrFailed')) })); } 
         finally { setState(prev => ({ ...prev, isAnalyzingImage: false })); }
       };
       reader.readAsDataURL(file);
@@ -189,16 +555,127 @@ const App: React.FC = () => {
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const handleGenerateStory = async () => {
-    if (state.history.length === 0 || state.isGeneratingStory) return;
+  const handleOcrLookUp = (text: string) => {
+    setOcrResult(null);
+    setQuery(text);
+    handleSearch(undefined, text);
+  };
+
+  const handleScannerOpen = (text: string) => {
+    setIsScannerOpen(false);
+    setQuery(text);
+    handleSearch(undefined, text);
+  };
+
+  const handleAddOcrWords = async (texts: string[]) => {
+    if (isAddingOcrWords) return;
+    setIsAddingOcrWords(true);
+    let failed = 0;
+    let lastError: unknown = null;
+    // Sequential to stay gentle on rate limits
+    for (const text of texts) {
+      try {
+        addToHistory(await fetchDictionaryDefinition(text, settings.traditionalChinese));
+      } catch (err) {
+        console.error(`Failed to add ${text}`, err);
+        failed++;
+        // "Not a word" is expected for some OCR spans; any other failure is worth explaining
+        if (!(err instanceof NotAWordError)) lastError = err;
+      }
+    }
+    setIsAddingOcrWords(false);
+    alert(failed > 0
+      ? `${translate('wordbook.addedSome', { added: texts.length - failed, total: texts.length })} ${describeAiError(lastError, translate('wordbook.someFailed'))}`
+      : translate('wordbook.addedAll', { count: texts.length }));
+  };
+
+  const handleGenerateStory = async (words: WordHistoryItem[], options: StoryOptions) => {
+    if (words.length === 0 || state.isGeneratingStory) return;
+    setIsStoryComposerOpen(false);
+    setStoryOptions(options);
     setState(prev => ({ ...prev, isGeneratingStory: true, dailyStory: null }));
     try {
-      const story = await generateDailyStory(state.history.slice(0, 10)); // Limit to last 10 words
+      const story = createSavedStory(
+        await generateDailyStory(words, options, settings.traditionalChinese),
+        words.map(w => w.word),
+        options
+      );
+      setStories(prev => [story, ...prev]);
       setState(prev => ({ ...prev, dailyStory: story, isGeneratingStory: false }));
     } catch (error) {
-      setState(prev => ({ ...prev, error: "Failed to generate story.", isGeneratingStory: false }));
+      setState(prev => ({ ...prev, error: describeAiError(error, translate('wordbook.storyFailed')), isGeneratingStory: false }));
+    }
+  };
+
+  const handleOpenStory = (story: SavedStory) => {
+    setStoryArchive(null);
+    setState(prev => ({ ...prev, dailyStory: story }));
+  };
+
+  const handleDeleteStory = (story: SavedStory) => {
+    if (!confirm(translate('wordbook.confirmDeleteStory', { title: story.title }))) return;
+    setStories(prev => prev.filter(s => s.id !== story.id));
+    setState(prev => (prev.dailyStory?.id === story.id ? { ...prev, dailyStory: null } : prev));
+  };
+
+  const handleLookUpWord = (word: string) => {
+    setQuery(word);
+    setView(ViewMode.SEARCH);
+    handleSearch(undefined, word);
+  };
+
+  const dueCount = countDueToday(state.history);
+  const knownKanji = useMemo(() => collectKnownKanji(state.history), [state.history]);
+  const filteredHistory = useMemo(() => filterHistory(state.history, wordbookFilter), [state.history, wordbookFilter]);
+  const wordbookTags = useMemo(() => collectTags(state.history), [state.history]);
+  const wordbookFolders = useMemo(() => collectFolders(state.history), [state.history]);
+
+  // --- Routing ---
+
+  // Set when a lookup comes from the URL itself: its result replaces that history entry instead of adding one
+  const replaceRouteRef = useRef(false);
+
+  const applyRoute = (route: Route) => {
+    setView(route.view);
+    if (route.view !== ViewMode.SEARCH) return;
+    if (!route.query) {
+      // Back to the bare search page; a candidate list or sentence analysis stays open
+      beginSearch();
+      setState(prev => ({ ...prev, data: null, images: null, isLoadingText: false, isLoadingImage: false }));
+    } else if (route.query !== state.data?.word) {
+      replaceRouteRef.current = true;
+      handleSearch(undefined, route.query, true);
     }
   };
+  const applyRouteRef = useRef(applyRoute);
+  applyRouteRef.current = applyRoute;
+
+  useEffect(() => {
+    // Shared text arrives on /share?text=...; show it as the lookup it becomes
+    window.history.replaceState(null, '', routeToPath(initialRoute));
+    if (initialRoute.query) {
+      replaceRouteRef.current = true;
+      handleSearch(undefined, initialRoute.query);
+    }
+
+    const handlePopState = () => applyRouteRef.current(parseRoute(window.location.pathname, window.location.search));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+
+  // Null while a lookup is loading, so a search adds one history entry rather than one for / and one for the word
+  const currentPath = view === ViewMode.SEARCH && state.isLoadingText
+    ? null
+    : routeToPath({ view, query: view === ViewMode.SEARCH ? state.data?.word ?? '' : '' });
+
+  useEffect(() => {
+    if (currentPath === null) return;
+    const replace = replaceRouteRef.current;
+    replaceRouteRef.current = false;
+    if (currentPath === window.location.pathname) return;
+    if (replace) window.history.replaceState(null, '', currentPath);
+    else window.history.pushState(null, '', currentPath);
+  }, [currentPath]);
 
   // --- Render Helpers ---
   
@@ -215,12 +692,20 @@ const App: React.FC = () => {
             <h1 className="text-3xl font-black text-amber-950 tracking-tight font-serif leading-none">
               小黄书
             </h1>
-            <p className="text-amber-800/60 text-[10px] font-bold tracking-widest uppercase">Little Yellow Book</p>
+            <p className="text-amber-800/60 text-[10px] font-bold tracking-widest uppercase">{t('app.tagline')}</p>
           </div>
         </div>
 
         {/* Nav Actions */}
         <div className="flex items-center gap-3">
+          <FuriganaToggle mode={furiganaMode} onChange={(mode) => updateSettings({ furiganaMode: mode })} />
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="p-2 rounded-full bg-white/30 text-amber-900 hover:bg-white/50 transition-all"
+            title={t('header.settings')}
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+          </button>
           <button 
             onClick={() => setView(ViewMode.WORDBOOK)}
             className={`px-4 py-2 rounded-full font-bold text-sm flex items-center gap-2 transition-all ${
@@ -230,25 +715,38 @@ const App: React.FC = () => {
             }`}
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253" /></svg>
-            Wordbook
-            <span className="bg-amber-500 text-white text-[10px] px-1.5 rounded-full">
-              {state.history.length}
+            {t('header.wordbook')}
+            <span
+              className="bg-amber-500 text-white text-[10px] px-1.5 rounded-full"
+              title={t('header.dueToday', { count: dueCount })}
+            >
+              {dueCount}
             </span>
           </button>
 
           {!user ? (
             <button 
-              onClick={handleLogin}
+              onClick={() => setIsLoginOpen(true)}
               className="flex items-center gap-2 bg-white text-slate-600 px-4 py-2 rounded-full font-bold text-sm shadow-sm hover:bg-slate-50 transition-all"
             >
                <svg className="w-4 h-4" viewBox="0 0 24 24" fill="currentColor"><path d="M12.545,10.239v3.821h5.445c-0.712,2.315-2.647,3.972-5.445,3.972c-3.332,0-6.033-2.701-6.033-6.032s2.701-6.032,6.033-6.032c1.498,0,2.866,0.549,3.921,1.453l2.814-2.814C17.503,2.988,15.139,2,12.545,2C7.021,2,2.543,6.477,2.543,12s4.478,10,10.002,10c8.396,0,10.249-7.85,9.426-11.748L12.545,10.239z"/></svg>
-               Login
+               {t('header.login')}
             </button>
           ) : (
              <div className="flex items-center gap-2 bg-amber-400/30 pr-1 pl-1 py-1 rounded-full">
-               <img src={user.photoURL} alt={user.name} className="w-8 h-8 rounded-full border border-white" />
+               <img src={user.photoURL} alt={user.name} title={user.email} className="w-8 h-8 rounded-full border border-white" />
+               <button
+                 onClick={runSync}
+                 disabled={syncStatus === 'syncing'}
+                 title={syncStatus === 'error'
+                   ? t('header.syncFailed')
+                   : lastSyncedAt ? t('header.lastSynced', { time: new Date(lastSyncedAt).toLocaleString() }) : t('header.syncNow')}
+                 className={`p-1 rounded-full hover:bg-white/40 ${syncStatus === 'error' ? 'text-red-600' : 'text-amber-900'}`}
+               >
+                 <svg className={`w-4 h-4 ${syncStatus === 'syncing' ? 'animate-spin' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
+               </button>
                <button onClick={handleLogout} className="text-xs font-bold text-amber-900 pr-3 hover:text-red-600">
-                 Exit
+                 {t('header.exit')}
                </button>
              </div>
           )}
@@ -261,14 +759,30 @@ const App: React.FC = () => {
     <div className="animate-fade-in">
       {/* Search Box */}
       <div className="max-w-2xl mx-auto px-4 mb-12 relative z-20">
-        <form onSubmit={(e) => handleSearch(e)} className="relative group">
+        <div className="flex justify-center mb-3">
+          <div className="flex items-center bg-white/60 rounded-full p-1 shadow-sm">
+            {SEARCH_MODES.map(({ mode, label }) => (
+              <button
+                key={mode}
+                type="button"
+                onClick={() => setSearchMode(mode)}
+                className={`px-4 py-1.5 rounded-full text-sm font-bold transition-all ${
+                  searchMode === mode ? 'bg-amber-400 text-amber-950 shadow-sm' : 'text-amber-900/60 hover:bg-white'
+                }`}
+              >
+                {t(label)}
+              </button>
+            ))}
+          </div>
+        </div>
+        <form onSubmit={handleSubmitSearch} className="relative group">
           <div className="absolute -inset-1 bg-amber-400 rounded-2xl blur opacity-40 group-hover:opacity-70 transition duration-200"></div>
           <div className="relative flex bg-white rounded-2xl shadow-xl ring-1 ring-black/5 overflow-hidden p-2">
             <input
               type="text"
               value={query}
               onChange={(e) => setQuery(e.target.value)}
-              placeholder="Type Japanese or Chinese..."
+              placeholder={t(SEARCH_MODES.find(option => option.mode === searchMode)!.placeholder)}
               className="flex-grow px-4 py-3 text-lg text-slate-800 placeholder:text-slate-400 focus:outline-none bg-transparent"
             />
             <div className="flex items-center gap-2 border-l border-slate-100 pl-2">
@@ -277,6 +791,7 @@ const App: React.FC = () => {
                 onClick={() => fileInputRef.current?.click()}
                 disabled={state.isAnalyzingImage}
                 className="p-3 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-colors"
+                title={t('search.uploadImage')}
               >
                 {state.isAnalyzingImage ? (
                   <div className="w-6 h-6 border-2 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
@@ -284,12 +799,22 @@ const App: React.FC = () => {
                   <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 9a2 2 0 012-2h.93a2 2 0 001.664-.89l.812-1.22A2 2 0 0110.07 4h3.86a2 2 0 011.664.89l.812 1.22A2 2 0 0018.07 7H19a2 2 0 012 2v9a2 2 0 01-2 2H5a2 2 0 01-2-2V9z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 13a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                 )}
               </button>
+              {!!navigator.mediaDevices?.getUserMedia && (
+                <button
+                  type="button"
+                  onClick={() => setIsScannerOpen(true)}
+                  className="p-3 text-slate-400 hover:text-amber-600 hover:bg-amber-50 rounded-xl transition-colors"
+                  title={t('search.liveScan')}
+                >
+                  <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+                </button>
+              )}
               <button
                 type="submit"
                 disabled={state.isLoadingText || state.isAnalyzingImage}
                 className="px-6 py-3 bg-amber-400 hover:bg-amber-500 text-amber-950 font-bold rounded-xl transition-colors flex items-center gap-2"
               >
-                {state.isLoadingText ? <div className="w-5 h-5 border-2 border-amber-900/30 border-t-amber-900 rounded-full animate-spin"></div> : <span>Search</span>}
+                {state.isLoadingText ? <div className="w-5 h-5 border-2 border-amber-900/30 border-t-amber-900 rounded-full animate-spin"></div> : <span>{t('search.submit')}</span>}
               </button>
             </div>
             <input type="file" ref={fileInputRef} className="hidden" accept="image/*" capture="environment" onChange={handleImageUpload}/>
@@ -297,36 +822,95 @@ const App: React.FC = () => {
         </form>
       </div>
 
+      {isScannerOpen && (
+        <CameraScanner
+          onOpen={handleScannerOpen}
+          traditionalChinese={settings.traditionalChinese}
+          onSave={(result) => addToHistory(result)}
+          isSaved={(word) => state.history.some(item => item.word === word)}
+          onClose={() => setIsScannerOpen(false)}
+        />
+      )}
+
+      {ocrResult && (
+        <OcrPicker
+          imageUrl={ocrResult.imageUrl}
+          spans={ocrResult.spans}
+          onLookUp={handleOcrLookUp}
+          onAddToWordbook={handleAddOcrWords}
+          onClose={() => setOcrResult(null)}
+          isAdding={isAddingOcrWords}
+        />
+      )}
+
       {/* Results */}
       <main className="container mx-auto px-4 max-w-4xl">
         {state.error && <div className="bg-red-50 text-red-600 px-6 py-4 rounded-xl border border-red-100 text-center mb-8">{state.error}</div>}
+
+        {state.analysis && (
+          <SentenceAnalyzer
+            analysis={state.analysis}
+            furiganaMode={furiganaMode}
+            knownKanji={knownKanji}
+            activeWord={state.data?.word ?? null}
+            isSaved={(word) => state.history.some(item => item.word === word)}
+            addingWord={addingToken}
+            onOpen={(word) => handleSearch(undefined, word, true)}
+            onAdd={handleAddToken}
+          />
+        )}
+
+        {state.candidates && (
+          <CandidateList
+            result={state.candidates}
+            activeWord={state.data?.word ?? null}
+            onPick={(word) => handleSearch(undefined, word, true)}
+          />
+        )}
         
         {state.isLoadingText && !state.data && (
            <div className="flex flex-col items-center justify-center py-20 opacity-60">
              <div className="w-16 h-16 border-4 border-amber-200 border-t-amber-500 rounded-full animate-spin mb-6"></div>
-             <p className="text-slate-500 animate-pulse font-medium">Consulting the Little Yellow Book...</p>
+             <p className="text-slate-500 animate-pulse font-medium">{t('search.loading')}</p>
           </div>
         )}
 
         {state.data && (
           <ResultCard
             data={state.data}
-            imageUrl={state.imageUrl}
+            images={state.images}
             onPlayAudioWord={() => state.data && handlePlayAudio(state.data.word, 'word')}
-            onPlayAudioSentence={() => state.data && handlePlayAudio(state.data.example_jp, 'sentence')}
+            onPlayAudioSentence={(text) => handlePlayAudio(text, 'sentence')}
+            onPractice={(text, reading) => state.data && setPracticeTarget({ word: state.data.word, text, reading })}
             onRefreshImage={handleRegenerateImage}
-            isLoadingAudioWord={state.isLoadingAudioWord}
-            isLoadingAudioSentence={state.isLoadingAudioSentence}
+            onPinImage={handlePinImage}
+            onDeleteImage={handleDeleteImage}
+            onLookUpRelated={handleLookUpWord}
+            onSaveSense={(senseIndex) => state.data && addToHistory(state.data, senseIndex)}
+            isSenseSaved={(senseIndex) => !!state.data && isSenseSaved(state.history, state.data, senseIndex)}
+            furiganaMode={furiganaMode}
+            knownKanji={knownKanji}
+            isLoadingAudioWord={playback.status === 'loading' && playback.clip?.id === 'word'}
+            isLoadingAudioSentence={playback.status === 'loading' && playback.clip?.id === 'sentence'}
             isImageLoading={state.isLoadingImage}
           />
         )}
 
-        {!state.data && !state.isLoadingText && !state.error && (
+        {state.data && (
+          <KanjiBreakdown
+            word={state.data.word}
+            history={state.history}
+            traditionalChinese={settings.traditionalChinese}
+            onLookUp={handleLookUpWord}
+          />
+        )}
+
+        {!state.data && !state.candidates && !state.analysis && !state.isLoadingText && !state.error && (
            <div className="text-center py-12">
              <div className="inline-block p-6 rounded-full bg-white shadow-sm border border-amber-50 mb-4 transform rotate-3">
                 <span className="text-5xl opacity-50 grayscale">🐣</span>
              </div>
-             <p className="text-amber-900/40 text-lg font-medium">Start your journey by searching or uploading.</p>
+             <p className="text-amber-900/40 text-lg font-medium">{t('search.empty')}</p>
           </div>
         )}
       </main>
@@ -335,26 +919,77 @@ const App: React.FC = () => {
 
   const renderWordbookView = () => (
     <div className="container mx-auto px-4 max-w-4xl animate-fade-in">
-      <div className="flex items-center justify-between mb-8">
-        <div>
-          <h2 className="text-3xl font-bold text-slate-800">My Wordbook</h2>
-          <p className="text-slate-500">Memorized {state.history.length} words</p>
+      <RecoveryNotice />
+
+      <div className="flex items-center justify-between gap-4 mb-8">
+        <div className="shrink-0">
+          <h2 className="text-3xl font-bold text-slate-800">{t('wordbook.title')}</h2>
+          <p className="text-slate-500">
+            {isFilterActive(wordbookFilter)
+              ? t('wordbook.showing', { shown: filteredHistory.length, total: state.history.length })
+              : t('wordbook.memorized', { count: state.history.length })}
+          </p>
         </div>
-        <div className="flex gap-2">
+        <div className="flex flex-wrap justify-end gap-2">
            <button
-             onClick={() => exportHistoryToCSV(state.history)}
-             disabled={state.history.length === 0}
+             onClick={() => setView(ViewMode.REVIEW)}
+             disabled={dueCount === 0}
+             className="bg-amber-950 hover:bg-amber-900 text-amber-100 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
+           >
+             {t('wordbook.review')}
+             <span className="bg-amber-500 text-white text-[10px] px-1.5 rounded-full">{dueCount}</span>
+           </button>
+           <button
+             onClick={() => setView(ViewMode.QUIZ)}
+             disabled={filteredHistory.length === 0}
+             className="bg-amber-950 hover:bg-amber-900 text-amber-100 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
+           >
+             {t('wordbook.quiz')}
+           </button>
+           <button
+             onClick={() => exportHistoryToCSV(filteredHistory)}
+             disabled={filteredHistory.length === 0}
              className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
            >
              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-             Export CSV
+             {t('wordbook.exportCsv')}
+           </button>
+           <button
+             onClick={() => exportHistoryToJSON(state.history)}
+             disabled={state.history.length === 0}
+             className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
+           >
+             JSON
+           </button>
+           <button
+             onClick={() => setIsImportOpen(true)}
+             className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2"
+           >
+             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+             {t('wordbook.import')}
+           </button>
+           <button
+             onClick={() => setIsAnkiExportOpen(true)}
+             disabled={filteredHistory.length === 0}
+             className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
+           >
+             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2m0 0V5a2 2 0 012-2h6a2 2 0 012 2v2M7 7h10" /></svg>
+             {t('wordbook.anki')}
+           </button>
+           <button
+             onClick={() => setStoryArchive({ word: null })}
+             disabled={stories.length === 0}
+             className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all flex items-center gap-2 disabled:opacity-50"
+           >
+             {t('wordbook.stories')}
            </button>
            <button 
-             onClick={handleGenerateStory}
-             disabled={state.isGeneratingStory || state.history.length < 1}
+             onClick={() => setIsStoryComposerOpen(true)}
+             disabled={state.isGeneratingStory || filteredHistory.length < 1}
+             title={t('wordbook.createStoryHint', { count: STORY_WORD_LIMIT })}
              className="bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-md shadow-amber-500/30 flex items-center gap-2 disabled:opacity-50"
            >
-              {state.isGeneratingStory ? 'Thinking...' : '✨ Create Story'}
+              {state.isGeneratingStory ? t('wordbook.thinking') : t('wordbook.createStory')}
            </button>
         </div>
       </div>
@@ -363,70 +998,177 @@ const App: React.FC = () => {
       {(state.dailyStory || state.isGeneratingStory) && (
          <div className="bg-white rounded-3xl p-8 border border-amber-200 shadow-lg relative overflow-hidden mb-10">
            <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-amber-300 via-orange-300 to-amber-300"></div>
-           <h4 className="font-bold text-slate-400 uppercase text-xs tracking-wider mb-4">AI Generated Scenario</h4>
+           <div className="flex items-center justify-between mb-4">
+             <h4 className="font-bold text-slate-400 uppercase text-xs tracking-wider">{t('wordbook.storyHeading')}</h4>
+             {state.dailyStory && (
+               <button onClick={() => setState(prev => ({ ...prev, dailyStory: null }))} className="text-slate-400 hover:text-slate-600 text-xl leading-none" title={t('wordbook.closeStory')}>×</button>
+             )}
+           </div>
            
            {state.isGeneratingStory ? (
              <div className="py-8 text-center animate-pulse">
-               <div className="text-amber-500 text-xl">✨ Wringing out some creativity...</div>
-             </div>
-           ) : (
-             <div className="animate-fade-in">
-               <div className="prose prose-slate max-w-none whitespace-pre-wrap font-medium text-slate-700 leading-loose">
-                 {state.dailyStory}
-               </div>
-               <div className="mt-6 flex justify-end">
-                 <button 
-                  onClick={() => handlePlayAudio(state.dailyStory || "", 'sentence')}
-                  className="text-amber-600 hover:text-amber-800 text-sm flex items-center gap-2 font-bold"
-                 >
-                   <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
-                   Listen to Story
-                 </button>
-               </div>
+               <div className="text-amber-500 text-xl">{t('wordbook.generatingStory')}</div>
              </div>
+           ) : state.dailyStory && (
+             <StoryView
+               story={state.dailyStory}
+               furiganaMode={furiganaMode}
+               knownKanji={knownKanji}
+               onWordClick={handleLookUpWord}
+             />
            )}
         </div>
       )}
 
+      {state.history.length > 0 && (
+        <>
+          <WordbookToolbar filter={wordbookFilter} onChange={setWordbookFilter} tags={wordbookTags} folders={wordbookFolders} />
+          <div className="flex justify-end mb-4">
+            <div className="flex items-center bg-white border border-slate-200 rounded-lg p-0.5">
+              {(['list', 'graph'] as const).map(layout => (
+                <button
+                  key={layout}
+                  onClick={() => setWordbookLayout(layout)}
+                  className={`px-3 py-1 rounded-md text-xs font-bold transition-colors ${
+                    wordbookLayout === layout ? 'bg-amber-400 text-amber-950' : 'text-slate-500 hover:bg-slate-50'
+                  }`}
+                >
+                  {t(layout === 'list' ? 'wordbook.list' : 'wordbook.graph')}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+
       {/* List */}
       <div className="grid grid-cols-1 gap-4">
-        {state.history.length === 0 ? (
+        {filteredHistory.length === 0 ? (
           <div className="text-center py-20 text-slate-400 border-2 border-dashed border-slate-200 rounded-3xl">
-            <p>No words saved yet.</p>
+            <p>{state.history.length === 0 ? t('wordbook.empty') : t('wordbook.noMatches')}</p>
           </div>
+        ) : wordbookLayout === 'graph' ? (
+          <WordGraph items={filteredHistory} onLookUp={handleLookUpWord} />
         ) : (
-          state.history.map((item, idx) => (
+          filteredHistory.map((item) => (
             <div key={item.id} className="bg-white p-5 rounded-2xl shadow-sm border border-slate-100 hover:border-amber-200 transition-all group flex flex-col md:flex-row md:items-center justify-between gap-4">
-               <div className="flex-grow">
-                 <div className="flex items-baseline gap-3 mb-1">
-                    <h3 className="text-2xl font-bold text-slate-800">{item.word}</h3>
-                    <span className="text-amber-600 font-medium">{item.reading}</span>
-                 </div>
-                 <p className="text-slate-600 text-sm mb-2">{item.definition}</p>
-                 <div className="bg-slate-50 p-2 rounded-lg text-xs text-slate-500 italic">
-                   {item.example_jp}
+               <div className="flex-grow flex gap-4 min-w-0">
+                 {pinnedThumbnails[imageKey(item.word)] && (
+                   <img
+                     src={pinnedThumbnails[imageKey(item.word)]}
+                     alt={t('result.imageAlt', { word: item.word })}
+                     className="w-20 h-20 rounded-xl object-cover shrink-0 bg-slate-100"
+                   />
+                 )}
+                 <div className="flex-grow min-w-0">
+                   <div className="flex items-baseline gap-3 mb-1">
+                      <h3 className="text-2xl font-bold text-slate-800">{item.word}</h3>
+                      <span className="text-amber-600 font-medium">{item.reading}</span>
+                      {item.part_of_speech && <span className="text-[10px] font-bold text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">{item.part_of_speech}</span>}
+                      {item.jlpt_level && <span className="text-[10px] font-black text-white bg-amber-500 px-1.5 py-0.5 rounded">{item.jlpt_level}</span>}
+                      {storiesForWord(stories, item.word).length > 0 && (
+                        <button
+                          onClick={() => setStoryArchive({ word: item.word })}
+                          className="text-[10px] font-bold text-amber-700 bg-amber-50 hover:bg-amber-100 px-1.5 py-0.5 rounded"
+                          title={t('wordbook.storiesForWord')}
+                        >
+                          📖 {storiesForWord(stories, item.word).length}
+                        </button>
+                      )}
+                   </div>
+                   <p className="text-slate-600 text-sm mb-2">{item.definition}</p>
+                   <div className="bg-slate-50 p-2 rounded-lg text-xs text-slate-500 italic leading-6">
+                     <RubyText segments={item.example_segments} text={item.example_jp} mode={furiganaMode} knownKanji={knownKanji} />
+                   </div>
+                   {(item.folder || (item.tags && item.tags.length > 0)) && editingTagsId !== item.id && (
+                     <div className="flex flex-wrap gap-1.5 mt-2">
+                       {item.folder && (
+                         <button onClick={() => setWordbookFilter(prev => ({ ...prev, folder: item.folder ?? null }))} className="text-[10px] font-bold text-slate-500 bg-slate-100 hover:bg-slate-200 px-2 py-0.5 rounded-full">
+                           📁 {item.folder}
+                         </button>
+                       )}
+                       {item.tags?.map(tag => (
+                         <button key={tag} onClick={() => setWordbookFilter(prev => ({ ...prev, tag }))} className="text-[10px] font-bold text-amber-700 bg-amber-50 hover:bg-amber-100 px-2 py-0.5 rounded-full">
+                           #{tag}
+                         </button>
+                       ))}
+                     </div>
+                   )}
+                   {editingTagsId === item.id && (
+                     <TagEditor
+                       item={item}
+                       folders={wordbookFolders}
+                       onSave={(tags, folder) => handleUpdateTags(item.id, tags, folder)}
+                       onCancel={() => setEditingTagsId(null)}
+                     />
+                   )}
                  </div>
                </div>
                <div className="flex items-center gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setEditingTagsId(editingTagsId === item.id ? null : item.id)}
+                    className="p-2 text-slate-400 hover:text-amber-500 hover:bg-amber-50 rounded-lg"
+                    title={t('wordbook.tags')}
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" /></svg>
+                  </button>
                   <button 
-                    onClick={() => { setQuery(item.word); setView(ViewMode.SEARCH); handleSearch(undefined, item.word); }}
+                    onClick={() => handleLookUpWord(item.word)}
                     className="p-2 text-slate-400 hover:text-amber-500 hover:bg-amber-50 rounded-lg"
-                    title="View Details"
+                    title={t('wordbook.details')}
                   >
                     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M2.458 12C3.732 7.943 7.523 5 12 5c4.478 0 8.268 2.943 9.542 7-1.274 4.057-5.064 7-9.542 7-4.477 0-8.268-2.943-9.542-7z" /></svg>
                   </button>
                   <button 
                     onClick={() => handlePlayAudio(item.word, 'word')}
                     className="p-2 text-slate-400 hover:text-amber-500 hover:bg-amber-50 rounded-lg"
-                    title="Play Audio"
+                    title={t('wordbook.playAudio')}
                   >
                      <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
                   </button>
+                  <button
+                    onClick={() => handleDeleteItem(item)}
+                    className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                    title={t('wordbook.remove')}
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                  </button>
                </div>
             </div>
           ))
         )}
       </div>
+
+      <CacheControl />
+      <BackupControl onBackup={handleBackup} onRestore={handleRestoreBackup} />
+
+      {isStoryComposerOpen && (
+        <StoryComposer
+          words={filteredHistory}
+          maxWords={STORY_WORD_LIMIT}
+          initialOptions={storyOptions}
+          onGenerate={handleGenerateStory}
+          onClose={() => setIsStoryComposerOpen(false)}
+        />
+      )}
+
+      {storyArchive && (
+        <StoryArchive
+          stories={stories}
+          initialWord={storyArchive.word}
+          onOpen={handleOpenStory}
+          onDelete={handleDeleteStory}
+          onClose={() => setStoryArchive(null)}
+        />
+      )}
+
+      {isAnkiExportOpen && (
+        <AnkiExportDialog history={filteredHistory} voice={settings.voice} imagePreferences={imagePreferences} onClose={() => setIsAnkiExportOpen(false)} />
+      )}
+
+      {isImportOpen && (
+        <ImportDialog history={state.history} onImport={handleImportHistory} onClose={() => setIsImportOpen(false)} />
+      )}
     </div>
   );
 
@@ -434,13 +1176,58 @@ const App: React.FC = () => {
     <div className="min-h-screen bg-amber-50 pb-20 font-sans">
       {renderHeader()}
       
-      {view === ViewMode.SEARCH 
-        ? renderSearchView() 
-        : renderWordbookView()
-      }
+      {view === ViewMode.SEARCH && renderSearchView()}
+      {view === ViewMode.WORDBOOK && renderWordbookView()}
+      {view === ViewMode.REVIEW && (
+        <ReviewSession
+          items={getDueItems(state.history)}
+          onGrade={handleGradeReview}
+          onPlayAudio={(text) => handlePlayAudio(text, 'word')}
+          onExit={() => setView(ViewMode.WORDBOOK)}
+        />
+      )}
+      {view === ViewMode.QUIZ && (
+        <QuizSession
+          items={filteredHistory}
+          pool={state.history}
+          onAnswer={handleQuizAnswer}
+          onPlayAudio={(text) => handlePlayAudio(text, 'word')}
+          onExit={() => setView(ViewMode.WORDBOOK)}
+        />
+      )}
+
+      <AudioPlayerBar
+        playback={playback}
+        voices={speechVoices.voices}
+        defaultVoice={speechVoices.defaultVoice}
+        onVoiceChange={(voice) => updateSettings({ voice })}
+        onRateChange={(playbackRate) => updateSettings({ playbackRate })}
+      />
+
+      {isSettingsOpen && (
+        <SettingsDialog settings={settings} onChange={updateSettings} onClose={() => setIsSettingsOpen(false)} />
+      )}
+
+      {practiceTarget && (
+        <PronunciationPractice
+          target={practiceTarget}
+          attempts={practiceHistory[practiceTarget.word] ?? []}
+          onAttempt={(attempt) => handlePracticeAttempt(practiceTarget.word, attempt)}
+          onClose={() => setPracticeTarget(null)}
+        />
+      )}
+
+      {isLoginOpen && (
+        <LoginDialog
+          initialServerUrl={loginHint?.serverUrl ?? DEFAULT_SYNC_SERVER_URL}
+          initialEmail={loginHint?.user.email ?? ''}
+          onLogin={handleLogin}
+          onClose={() => { setIsLoginOpen(false); setLoginHint(null); }}
+        />
+      )}
 
       <footer className="text-center py-8 text-amber-900/30 text-xs mt-auto">
-        <p>Powered by Google Gemini & Imagen</p>
+        <p>{t('app.footer')}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,137 @@
+import React, { useMemo, useState } from 'react';
+import { WordHistoryItem } from '../types';
+import { exportHistoryToAnki, filterByDateRange } from '../utils/ankiExport';
+import { ImagePreferences } from '../services/geminiService';
+import { useTranslation } from '../i18n';
+
+interface AnkiExportDialogProps {
+  history: WordHistoryItem[];
+  voice: string;
+  imagePreferences: ImagePreferences;
+  onClose: () => void;
+}
+
+export const AnkiExportDialog: React.FC<AnkiExportDialogProps> = ({ history, voice, imagePreferences, onClose }) => {
+  const t = useTranslation();
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [deselected, setDeselected] = useState<Set<string>>(new Set());
+  const [deckName, setDeckName] = useState('小黄书');
+  const [includeAudio, setIncludeAudio] = useState(true);
+  const [includeImages, setIncludeImages] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const inRange = useMemo(() => {
+    const from = fromDate ? new Date(`${fromDate}T00:00:00`).getTime() : undefined;
+    const to = toDate ? new Date(`${toDate}T23:59:59.999`).getTime() : undefined;
+    return filterByDateRange(history, from, to);
+  }, [history, fromDate, toDate]);
+
+  const selected = inRange.filter(item => !deselected.has(item.id));
+  const isExporting = progress !== null;
+
+  const toggleItem = (id: string) => {
+    setDeselected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleAll = () => {
+    setDeselected(selected.length === inRange.length ? new Set(inRange.map(item => item.id)) : new Set());
+  };
+
+  const handleExport = async () => {
+    if (selected.length === 0 || isExporting) return;
+    setError(null);
+    setProgress({ done: 0, total: selected.length });
+    try {
+      await exportHistoryToAnki(selected, {
+        deckName: deckName.trim() || '小黄书',
+        includeAudio,
+        includeImages,
+        voice,
+        imagePreferences,
+        onProgress: (done, total) => setProgress({ done, total }),
+      });
+      onClose();
+    } catch (e) {
+      console.error("Anki export failed", e);
+      setError(t('anki.failed'));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('anki.title')}</h3>
+            <p className="text-slate-500 text-sm">{t('anki.selected', { selected: selected.length, total: history.length })}</p>
+          </div>
+          <button onClick={onClose} disabled={isExporting} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 space-y-4 border-b border-slate-100">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+              {t('anki.deckName')}
+              <input value={deckName} onChange={e => setDeckName(e.target.value)} className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 normal-case font-normal tracking-normal" />
+            </label>
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+              {t('anki.from')}
+              <input type="date" value={fromDate} max={toDate || undefined} onChange={e => setFromDate(e.target.value)} className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700" />
+            </label>
+            <label className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+              {t('anki.until')}
+              <input type="date" value={toDate} min={fromDate || undefined} onChange={e => setToDate(e.target.value)} className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700" />
+            </label>
+          </div>
+          <div className="flex flex-wrap gap-4 text-sm text-slate-600">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeAudio} onChange={e => setIncludeAudio(e.target.checked)} />
+              {t('anki.includeAudio')}
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)} />
+              {t('anki.includeImages')}
+            </label>
+          </div>
+          <p className="text-xs text-slate-400">{t('anki.mediaNote')}</p>
+        </div>
+
+        <div className="flex-grow overflow-y-auto p-2">
+          {inRange.length > 0 && (
+            <button onClick={toggleAll} className="text-xs font-bold text-amber-600 hover:text-amber-800 px-4 py-2">
+              {selected.length === inRange.length ? t('anki.deselectAll') : t('anki.selectAll')}
+            </button>
+          )}
+          {inRange.map(item => (
+            <label key={item.id} className="flex items-center gap-3 px-4 py-2 rounded-xl hover:bg-amber-50 cursor-pointer">
+              <input type="checkbox" checked={!deselected.has(item.id)} onChange={() => toggleItem(item.id)} />
+              <span className="font-bold text-slate-800">{item.word}</span>
+              <span className="text-amber-600 text-sm">{item.reading}</span>
+              <span className="text-slate-400 text-xs ml-auto">{new Date(item.timestamp).toLocaleDateString()}</span>
+            </label>
+          ))}
+          {inRange.length === 0 && <p className="text-center text-slate-400 py-8">{t('anki.emptyRange')}</p>}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-between gap-4">
+          <span className="text-sm text-red-500">{error}</span>
+          <button
+            onClick={handleExport}
+            disabled={selected.length === 0 || isExporting}
+            className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all shadow-md shadow-amber-500/30 disabled:opacity-50"
+          >
+            {progress ? t('anki.building', { done: progress.done, total: progress.total }) : t('anki.export', { count: selected.length })}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,156 @@
+import React, { useEffect, useState } from 'react';
+import {
+  PlaybackState,
+  clearPlaybackLoop,
+  downloadCurrentClip,
+  getPlaybackPosition,
+  pausePlayback,
+  replayPlayback,
+  resumePlayback,
+  seekPlayback,
+  setPlaybackLoop,
+  stopPlayback,
+} from '../services/audioEngine';
+import { useTranslation } from '../i18n';
+
+interface AudioPlayerBarProps {
+  playback: PlaybackState;
+  voices: string[];
+  defaultVoice: string;
+  onVoiceChange: (voice: string) => void;
+  onRateChange: (rate: number) => void;
+}
+
+const RATES = [0.5, 0.75, 1, 1.25, 1.5];
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+/**
+ * Floating controls for the shared audio engine: pause, replay, A-B loop, speed, voice and download.
+ * Shown while a clip is loaded; closing it stops playback.
+ */
+export const AudioPlayerBar: React.FC<AudioPlayerBarProps> = ({ playback, voices, defaultVoice, onVoiceChange, onRateChange }) => {
+  const t = useTranslation();
+  const [position, setPosition] = useState(0);
+  // First point of an A-B loop, waiting for the second
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+
+  // The position moves continuously, so it is polled instead of kept in the engine state
+  useEffect(() => {
+    if (playback.status !== 'playing') {
+      setPosition(getPlaybackPosition());
+      return;
+    }
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(getPlaybackPosition());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playback.status, playback.clip]);
+
+  useEffect(() => {
+    setLoopStart(null);
+  }, [playback.clip]);
+
+  if (!playback.clip) return null;
+
+  const { status, duration, loop } = playback;
+  const isReady = status !== 'loading' && duration > 0;
+
+  const handleLoop = () => {
+    if (loop) {
+      clearPlaybackLoop();
+    } else if (loopStart === null) {
+      setLoopStart(getPlaybackPosition());
+    } else {
+      setPlaybackLoop(Math.min(loopStart, position), Math.max(loopStart, position));
+      setLoopStart(null);
+    }
+  };
+
+  const handleSeek = (e: React.MouseEvent<HTMLDivElement>) => {
+    if (!isReady) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekPlayback(((e.clientX - rect.left) / rect.width) * duration);
+  };
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-40 w-[calc(100%-2rem)] max-w-2xl bg-amber-950 text-amber-100 rounded-2xl shadow-2xl px-4 py-3 animate-fade-in">
+      <div className="flex items-center gap-3">
+        <button
+          onClick={status === 'playing' ? pausePlayback : status === 'paused' ? resumePlayback : replayPlayback}
+          disabled={status === 'loading'}
+          className="w-9 h-9 shrink-0 flex items-center justify-center rounded-full bg-amber-400 text-amber-950 hover:bg-amber-300 disabled:opacity-60"
+          title={t(status === 'playing' ? 'player.pause' : 'player.play')}
+        >
+          {status === 'loading' ? (
+            <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+          ) : status === 'playing' ? (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z"/></svg>
+          ) : (
+            <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+          )}
+        </button>
+
+        <div className="min-w-0 flex-grow">
+          <div className="flex items-center justify-between gap-2 text-xs">
+            <span className="truncate font-medium">{playback.clip.text}</span>
+            <span className="shrink-0 text-amber-100/60 tabular-nums">
+              {playback.queue.length > 0 && `+${playback.queue.length} · `}
+              {formatTime(position)} / {formatTime(duration)}
+            </span>
+          </div>
+          <div onClick={handleSeek} className="relative h-1.5 mt-1.5 bg-amber-100/20 rounded-full cursor-pointer">
+            {loop && (
+              <div
+                className="absolute inset-y-0 bg-amber-400/40 rounded-full"
+                style={{ left: `${(loop.start / duration) * 100}%`, width: `${((loop.end - loop.start) / duration) * 100}%` }}
+              ></div>
+            )}
+            <div className="absolute inset-y-0 left-0 bg-amber-400 rounded-full" style={{ width: `${duration ? (position / duration) * 100 : 0}%` }}></div>
+          </div>
+        </div>
+
+        <button onClick={stopPlayback} className="text-amber-100/60 hover:text-white text-xl leading-none shrink-0" title={t('player.stop')}>×</button>
+      </div>
+
+      <div className="flex items-center gap-3 mt-2 text-xs font-bold flex-wrap">
+        <button onClick={replayPlayback} disabled={!isReady} className="text-amber-100/70 hover:text-white disabled:opacity-40" title={t('player.replay')}>
+          ↺ {t('player.replay')}
+        </button>
+        <button
+          onClick={handleLoop}
+          disabled={!isReady}
+          className={`px-2 py-0.5 rounded disabled:opacity-40 ${loop ? 'bg-amber-400 text-amber-950' : loopStart !== null ? 'bg-amber-100/20 text-white' : 'text-amber-100/70 hover:text-white'}`}
+          title={t(loop ? 'player.loopClear' : loopStart !== null ? 'player.loopEnd' : 'player.loopStart')}
+        >
+          {loop ? 'A-B ×' : loopStart !== null ? `A ${formatTime(loopStart)} → B` : 'A-B'}
+        </button>
+        <div className="flex items-center gap-1">
+          {RATES.map(rate => (
+            <button
+              key={rate}
+              onClick={() => onRateChange(rate)}
+              className={`px-1.5 py-0.5 rounded ${playback.rate === rate ? 'bg-amber-400 text-amber-950' : 'text-amber-100/70 hover:text-white'}`}
+            >
+              {rate}×
+            </button>
+          ))}
+        </div>
+        {voices.length > 1 && (
+          <select
+            value={playback.voice || defaultVoice}
+            onChange={e => onVoiceChange(e.target.value === defaultVoice ? '' : e.target.value)}
+            className="bg-amber-100/10 rounded px-1.5 py-0.5 focus:outline-none"
+            title={t('player.voice')}
+          >
+            {voices.map(voice => <option key={voice} value={voice} className="text-slate-800">{voice}</option>)}
+          </select>
+        )}
+        <button onClick={downloadCurrentClip} disabled={!isReady} className="ml-auto text-amber-100/70 hover:text-white disabled:opacity-40" title={t('player.download')}>
+          ⬇ .wav
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,43 @@
+import React, { useRef } from 'react';
+import { BackupFile, parseBackupFile } from '../utils/backupUtils';
+import { useTranslation } from '../i18n';
+
+interface BackupControlProps {
+  onBackup: () => void;
+  onRestore: (backup: BackupFile) => void;
+}
+
+/**
+ * One-click full backup and restore of profile, settings and Wordbook.
+ */
+export const BackupControl: React.FC<BackupControlProps> = ({ onBackup, onRestore }) => {
+  const t = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file) return;
+
+    try {
+      const backup = parseBackupFile(await file.text());
+      const date = new Date(backup.exportedAt).toLocaleString();
+      if (!confirm(t('backup.confirmRestore', { date, count: backup.history.length }))) return;
+      onRestore(backup);
+    } catch (err) {
+      console.error("Failed to restore backup", err);
+      alert((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between text-xs text-slate-400 mt-4">
+      <span>{t('backup.label')}</span>
+      <div className="flex gap-4">
+        <button onClick={onBackup} className="font-bold hover:text-amber-600 transition-colors">{t('backup.backUp')}</button>
+        <button onClick={() => fileInputRef.current?.click()} className="font-bold hover:text-amber-600 transition-colors">{t('backup.restore')}</button>
+      </div>
+      <input type="file" ref={fileInputRef} className="hidden" accept=".json,application/json" onChange={handleFile} />
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { CacheStats, clearCache, getCacheStats } from '../services/cacheService';
+import { useTranslation } from '../i18n';
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+/**
+ * Shows how much offline data is stored and lets the user wipe it.
+ */
+export const CacheControl: React.FC = () => {
+  const t = useTranslation();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    getCacheStats().then(setStats);
+  }, []);
+
+  const handleClear = async () => {
+    if (!confirm(t('cache.confirmClear'))) return;
+    setIsClearing(true);
+    try {
+      await clearCache();
+    } catch (e) {
+      console.error("Failed to clear cache", e);
+    } finally {
+      setStats(await getCacheStats());
+      setIsClearing(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-between text-xs text-slate-400 mt-10 border-t border-slate-100 pt-4">
+      <span>
+        {stats
+          ? t('cache.stats', { entries: stats.entries, bytes: formatBytes(stats.bytes), max: formatBytes(stats.maxBytes) })
+          : t('cache.statsLoading')}
+      </span>
+      <button
+        onClick={handleClear}
+        disabled={isClearing || !stats || stats.entries === 0}
+        className="font-bold hover:text-red-500 transition-colors disabled:opacity-50"
+      >
+        {isClearing ? t('cache.clearing') : t('cache.clear')}
+      </button>
+    </div>
+  );
+};
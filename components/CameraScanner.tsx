@@ -0,0 +1,226 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { DictionaryResult } from '../types';
+import { extractTextFromImage, fetchDictionaryDefinition } from '../services/geminiService';
+import { isAbortError } from '../services/requestService';
+import { describeAiError } from '../services/aiErrors';
+import { SIGNATURE_HEIGHT, SIGNATURE_WIDTH, frameDifference, frameSignature, scanKey } from '../utils/frameUtils';
+import { useTranslation } from '../i18n';
+
+interface CameraScannerProps {
+  onOpen: (text: string) => void;
+  traditionalChinese: boolean;
+  onSave: (result: DictionaryResult) => void;
+  isSaved: (word: string) => boolean;
+  onClose: () => void;
+}
+
+const SAMPLE_INTERVAL_MS = 400;
+// Consecutive still samples before a frame is read (~1.2s of holding steady)
+const STABLE_SAMPLES = 3;
+// Below this the camera counts as still; above NEW_SCENE the view changed enough to read again
+const MOTION_THRESHOLD = 0.03;
+const NEW_SCENE_THRESHOLD = 0.1;
+const MAX_CHIPS = 8;
+// Larger captures don't read noticeably better but upload much slower
+const CAPTURE_MAX_SIZE = 1280;
+
+/**
+ * Live viewfinder that reads text whenever the camera is held still and offers each new piece of text as a chip.
+ * Tapping a chip shows a short definition on top of the camera.
+ */
+export const CameraScanner: React.FC<CameraScannerProps> = ({ onOpen, traditionalChinese, onSave, isSaved, onClose }) => {
+  const t = useTranslation();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const prevSignatureRef = useRef<Uint8Array | null>(null);
+  const scannedSignatureRef = useRef<Uint8Array | null>(null);
+  const stableCountRef = useRef(0);
+  const isReadingRef = useRef(false);
+  const isPausedRef = useRef(false);
+  const seenKeysRef = useRef<Set<string>>(new Set());
+
+  const [error, setError] = useState<string | null>(null);
+  const [isReading, setIsReading] = useState(false);
+  const [chips, setChips] = useState<string[]>([]);
+  const [preview, setPreview] = useState<{ text: string; result: DictionaryResult | null; error: string | null } | null>(null);
+
+  isPausedRef.current = preview !== null;
+
+  // Camera stream
+  useEffect(() => {
+    let stream: MediaStream | null = null;
+    let isCancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' }, audio: false })
+      .then(s => {
+        if (isCancelled) {
+          s.getTracks().forEach(track => track.stop());
+          return;
+        }
+        stream = s;
+        if (videoRef.current) videoRef.current.srcObject = s;
+      })
+      .catch(err => {
+        console.error("Camera unavailable", err);
+        setError(t('scanner.cameraUnavailable'));
+      });
+    return () => {
+      isCancelled = true;
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const readFrame = async (video: HTMLVideoElement, signature: Uint8Array) => {
+    isReadingRef.current = true;
+    setIsReading(true);
+    scannedSignatureRef.current = signature;
+
+    const scale = Math.min(1, CAPTURE_MAX_SIZE / Math.max(video.videoWidth, video.videoHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(video.videoWidth * scale);
+    canvas.height = Math.round(video.videoHeight * scale);
+    canvas.getContext('2d')!.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+    try {
+      const spans = await extractTextFromImage(canvas.toDataURL('image/jpeg', 0.8).split(',')[1]);
+      const fresh = spans.map(span => span.text).filter(text => {
+        const key = scanKey(text);
+        if (!key || seenKeysRef.current.has(key)) return false;
+        seenKeysRef.current.add(key);
+        return true;
+      });
+      if (fresh.length > 0) setChips(prev => [...fresh, ...prev].slice(0, MAX_CHIPS));
+    } catch (err) {
+      console.error("Live OCR failed", err);
+    } finally {
+      isReadingRef.current = false;
+      setIsReading(false);
+    }
+  };
+
+  // Frame sampling: wait for the view to hold still, then read it once per new scene
+  useEffect(() => {
+    const timer = window.setInterval(() => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || isReadingRef.current || isPausedRef.current || document.hidden) return;
+
+      if (!signatureCanvasRef.current) {
+        signatureCanvasRef.current = document.createElement('canvas');
+        signatureCanvasRef.current.width = SIGNATURE_WIDTH;
+        signatureCanvasRef.current.height = SIGNATURE_HEIGHT;
+      }
+      const ctx = signatureCanvasRef.current.getContext('2d', { willReadFrequently: true })!;
+      ctx.drawImage(video, 0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT);
+      const signature = frameSignature(ctx.getImageData(0, 0, SIGNATURE_WIDTH, SIGNATURE_HEIGHT).data);
+
+      const prev = prevSignatureRef.current;
+      prevSignatureRef.current = signature;
+      stableCountRef.current = prev && frameDifference(prev, signature) < MOTION_THRESHOLD ? stableCountRef.current + 1 : 0;
+      if (stableCountRef.current < STABLE_SAMPLES) return;
+
+      const scanned = scannedSignatureRef.current;
+      if (scanned && frameDifference(scanned, signature) < NEW_SCENE_THRESHOLD) return;
+      readFrame(video, signature);
+    }, SAMPLE_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const handleChip = async (text: string) => {
+    setPreview({ text, result: null, error: null });
+    try {
+      // Tapping another chip cancels this lookup
+      const result = await fetchDictionaryDefinition(text, traditionalChinese, { channel: 'scan-preview' });
+      setPreview(prev => (prev?.text === text ? { text, result, error: null } : prev));
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error(`Failed to look up ${text}`, err);
+      const error = describeAiError(err, t('scanner.lookupFailed'));
+      setPreview(prev => (prev?.text === text ? { text, result: null, error } : prev));
+    }
+  };
+
+  const handleClearChips = () => {
+    setChips([]);
+    seenKeysRef.current = new Set();
+    // Let the current view be read again
+    scannedSignatureRef.current = null;
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black flex flex-col animate-fade-in">
+      <video ref={videoRef} autoPlay playsInline muted className="absolute inset-0 w-full h-full object-cover" />
+
+      <div className="relative z-10 p-4 flex items-center justify-between bg-gradient-to-b from-black/60 to-transparent">
+        <div className="flex items-center gap-2 text-white text-sm font-bold">
+          {isReading ? (
+            <>
+              <div className="w-4 h-4 border-2 border-amber-400 border-t-transparent rounded-full animate-spin"></div>
+              {t('scanner.reading')}
+            </>
+          ) : (
+            <span className="opacity-80">{t('scanner.holdSteady')}</span>
+          )}
+        </div>
+        <button onClick={onClose} className="text-white/80 hover:text-white text-3xl leading-none" title={t('scanner.close')}>×</button>
+      </div>
+
+      {error && (
+        <div className="relative z-10 m-4 p-4 bg-white rounded-2xl text-sm text-red-500">{error}</div>
+      )}
+
+      <div className="relative z-10 mt-auto p-4 bg-gradient-to-t from-black/70 to-transparent space-y-3">
+        {preview && (
+          <div className="bg-white rounded-2xl shadow-2xl p-4 animate-fade-in">
+            <div className="flex items-start justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-2xl font-bold text-slate-800 truncate">{preview.result?.word ?? preview.text}</p>
+                {preview.result && <p className="text-amber-600">{preview.result.reading}</p>}
+              </div>
+              <button onClick={() => setPreview(null)} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+            </div>
+            {preview.result ? (
+              <>
+                <p className="serif-cn text-slate-700 mt-2 line-clamp-3">{preview.result.definition_cn}</p>
+                <div className="flex justify-end gap-2 mt-3">
+                  <button
+                    onClick={() => onSave(preview.result!)}
+                    disabled={isSaved(preview.result.word)}
+                    className="text-sm font-bold text-amber-600 hover:text-amber-800 px-3 py-2 disabled:text-slate-400"
+                  >
+                    {isSaved(preview.result.word) ? t('result.saved') : t('scanner.save')}
+                  </button>
+                  <button
+                    onClick={() => onOpen(preview.text)}
+                    className="bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-xl font-bold text-sm shadow-md shadow-amber-500/30"
+                  >
+                    {t('scanner.fullEntry')}
+                  </button>
+                </div>
+              </>
+            ) : preview.error ? (
+              <p className="text-sm text-red-500 mt-2">{preview.error}</p>
+            ) : (
+              <p className="text-sm text-slate-400 mt-2 animate-pulse">{t('scanner.lookingUp')}</p>
+            )}
+          </div>
+        )}
+
+        {chips.length > 0 && (
+          <div className="flex flex-wrap gap-2 items-center">
+            {chips.map(text => (
+              <button
+                key={text}
+                onClick={() => handleChip(text)}
+                className={`px-4 py-2 rounded-full text-base font-bold shadow-lg transition-all animate-fade-in ${
+                  preview?.text === text ? 'bg-amber-500 text-white' : 'bg-white/90 text-slate-800 hover:bg-amber-300'
+                }`}
+              >
+                {text}
+              </button>
+            ))}
+            <button onClick={handleClearChips} className="text-xs font-bold text-white/70 hover:text-white px-2">{t('scanner.clear')}</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,103 @@
+import React from 'react';
+import { CandidateResult, CandidateTag } from '../types';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface CandidateListProps {
+  result: CandidateResult;
+  activeWord: string | null; // The candidate whose entry is open below the list
+  onPick: (word: string) => void;
+}
+
+const TAG_LABELS: Record<CandidateTag, MessageKey> = {
+  common: 'candidates.tag.common',
+  formal: 'candidates.tag.formal',
+  casual: 'candidates.tag.casual',
+  written: 'candidates.tag.written',
+  spoken: 'candidates.tag.spoken',
+  literary: 'candidates.tag.literary',
+  false_friend: 'candidates.tag.false_friend',
+};
+
+export const CandidateList: React.FC<CandidateListProps> = ({ result, activeWord, onPick }) => {
+  const t = useTranslation();
+
+  return (
+    <div className="w-full max-w-4xl mx-auto mb-8 animate-fade-in space-y-4">
+      {/* False friends first: they are the mistake this mode exists to prevent */}
+      {result.false_friends.length > 0 && (
+        <div className="bg-rose-50 border-2 border-rose-200 rounded-3xl p-6">
+          <h3 className="text-rose-700 font-bold text-lg mb-1">{t('candidates.falseFriendsTitle')}</h3>
+          <p className="text-rose-600/80 text-sm mb-4">{t('candidates.falseFriendsHint', { query: result.query })}</p>
+          <ul className="space-y-3">
+            {result.false_friends.map(friend => (
+              <li key={friend.word}>
+                <button
+                  onClick={() => onPick(friend.word)}
+                  className="w-full text-left bg-white rounded-2xl border border-rose-100 hover:border-rose-300 px-4 py-3 transition-colors"
+                >
+                  <div className="flex items-baseline gap-3 flex-wrap">
+                    <span className="text-2xl font-bold text-slate-800">{friend.word}</span>
+                    <span className="text-sm text-rose-500">{friend.reading}</span>
+                    <span className="text-sm text-slate-600">= {friend.meaning_cn}</span>
+                  </div>
+                  {friend.warning && <p className="text-sm text-rose-700 mt-1">{friend.warning}</p>}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="bg-white rounded-3xl shadow-xl border border-amber-100 p-6">
+        <h3 className="text-xl font-bold text-slate-800 mb-1">{t('candidates.title', { query: result.query })}</h3>
+        <p className="text-sm text-slate-400 mb-4">{t('candidates.hint')}</p>
+        <ol className="space-y-2">
+          {result.candidates.map((candidate, index) => {
+            const isFalseFriend = candidate.tags.includes('false_friend');
+            const isActive = candidate.word === activeWord;
+            return (
+              <li key={candidate.word}>
+                <button
+                  onClick={() => onPick(candidate.word)}
+                  className={`w-full text-left flex gap-4 items-start rounded-2xl border px-4 py-3 transition-colors ${
+                    isActive
+                      ? 'border-amber-400 bg-amber-50'
+                      : isFalseFriend
+                        ? 'border-rose-200 hover:border-rose-300'
+                        : 'border-slate-100 hover:border-amber-300 hover:bg-amber-50/50'
+                  }`}
+                >
+                  <span className="w-7 h-7 flex-shrink-0 rounded-full bg-amber-100 text-amber-700 text-sm font-bold flex items-center justify-center">
+                    {index + 1}
+                  </span>
+                  <div className="flex-grow min-w-0">
+                    <div className="flex items-baseline gap-3 flex-wrap">
+                      <span className="text-2xl font-bold text-slate-800">{candidate.word}</span>
+                      {candidate.reading !== candidate.word && <span className="text-sm text-amber-600">{candidate.reading}</span>}
+                      <span className="text-sm text-slate-600">{candidate.meaning_cn}</span>
+                    </div>
+                    {candidate.nuance && <p className="text-sm text-slate-500 mt-1">{candidate.nuance}</p>}
+                    {candidate.tags.length > 0 && (
+                      <div className="flex gap-1.5 flex-wrap mt-2">
+                        {candidate.tags.map(tag => (
+                          <span
+                            key={tag}
+                            className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                              tag === 'false_friend' ? 'bg-rose-100 text-rose-700 font-bold' : 'bg-slate-100 text-slate-500'
+                            }`}
+                          >
+                            {t(TAG_LABELS[tag])}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,34 @@
+import React from 'react';
+import { FuriganaMode } from '../types';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface FuriganaToggleProps {
+  mode: FuriganaMode;
+  onChange: (mode: FuriganaMode) => void;
+}
+
+const OPTIONS: { mode: FuriganaMode; label: string; title: MessageKey }[] = [
+  { mode: FuriganaMode.SHOW, label: 'あ', title: 'furigana.show' },
+  { mode: FuriganaMode.UNKNOWN_ONLY, label: 'あ?', title: 'furigana.unknownOnly' },
+  { mode: FuriganaMode.HIDE, label: '漢', title: 'furigana.hide' },
+];
+
+export const FuriganaToggle: React.FC<FuriganaToggleProps> = ({ mode, onChange }) => {
+  const t = useTranslation();
+  return (
+    <div className="flex items-center bg-white/30 rounded-full p-1" title={t('furigana.label')}>
+      {OPTIONS.map(option => (
+        <button
+          key={option.mode}
+          onClick={() => onChange(option.mode)}
+          title={t(option.title)}
+          className={`px-2.5 py-1 rounded-full text-xs font-bold transition-all ${
+            mode === option.mode ? 'bg-amber-950 text-amber-100 shadow-sm' : 'text-amber-900 hover:bg-white/50'
+          }`}
+        >
+          {option.label}
+        </button>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,132 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { WordImage, WordImageGallery } from '../types';
+import { preferredImage } from '../utils/imageUtils';
+import { MAX_IMAGES_PER_WORD } from '../services/imageStore';
+import { useTranslation } from '../i18n';
+
+interface ImageGalleryProps {
+  word: string;
+  gallery: WordImageGallery | null;
+  isLoading: boolean;
+  onDrawAnother: () => void;
+  onPin: (image: WordImage | null) => void; // Null unpins
+  onDelete: (image: WordImage) => void;
+}
+
+/**
+ * The word's pictures: the favorite (or newest) large, the others as thumbnails to switch between.
+ * A newly drawn picture is shown straight away; opening another word shows its favorite.
+ */
+export const ImageGallery: React.FC<ImageGalleryProps> = ({ word, gallery, isLoading, onDrawAnother, onPin, onDelete }) => {
+  const t = useTranslation();
+  const [shownId, setShownId] = useState<string | null>(null);
+  const lastWordRef = useRef<string | null>(null);
+  const newestId = gallery?.images[0]?.id ?? null;
+
+  useEffect(() => {
+    const isSameWord = lastWordRef.current === gallery?.word;
+    lastWordRef.current = gallery?.word ?? null;
+    setShownId(isSameWord ? newestId : preferredImage(gallery)?.id ?? null);
+  }, [gallery?.word, newestId]);
+
+  const images = gallery?.images ?? [];
+  const shown = images.find(image => image.id === shownId) ?? preferredImage(gallery);
+  const isPinned = !!shown && shown.id === gallery?.pinnedId;
+
+  return (
+    <div className="bg-white rounded-3xl shadow-xl border border-slate-100 overflow-hidden h-full min-h-[300px] flex flex-col">
+      <div className="relative group flex-grow min-h-[240px]">
+        <div className="absolute top-4 left-4 z-10 bg-white/90 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-bold text-slate-500 uppercase tracking-wider shadow-sm">
+          {t('result.visualization')}
+        </div>
+
+        {!isLoading && (
+          <div className="absolute top-4 right-4 z-10 flex gap-2">
+            {shown && (
+              <>
+                <button
+                  onClick={() => onPin(isPinned ? null : shown)}
+                  className={`p-2 rounded-full shadow-sm transition-all active:scale-95 ${
+                    isPinned ? 'bg-amber-400 text-white hover:bg-amber-500' : 'bg-white/90 text-slate-500 hover:bg-amber-100 hover:text-amber-700'
+                  }`}
+                  title={t(isPinned ? 'result.unpinImage' : 'result.pinImage')}
+                >
+                  <svg className="w-5 h-5" fill={isPinned ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z" />
+                  </svg>
+                </button>
+                <button
+                  onClick={() => onDelete(shown)}
+                  className="bg-white/90 hover:bg-red-50 text-slate-500 hover:text-red-500 p-2 rounded-full shadow-sm transition-all active:scale-95"
+                  title={t('result.deleteImage')}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                  </svg>
+                </button>
+              </>
+            )}
+            <button
+              onClick={onDrawAnother}
+              className="bg-white/90 hover:bg-amber-100 text-slate-500 hover:text-amber-700 p-2 rounded-full shadow-sm transition-all active:scale-95"
+              title={t('result.regenerateImage')}
+            >
+              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
+              </svg>
+            </button>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-50">
+            <div className="text-center">
+              <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500 mb-3"></div>
+              <p className="text-amber-600/70 text-sm animate-pulse font-medium">{t('result.drawing')}</p>
+            </div>
+          </div>
+        ) : shown ? (
+          <div className="absolute inset-0 bg-slate-100 overflow-hidden">
+            <img
+              src={shown.dataUrl}
+              alt={t('result.imageAlt', { word })}
+              className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
+            />
+            <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+              <p className="text-white text-sm font-medium opacity-90">{t('result.imageCredit')}</p>
+            </div>
+          </div>
+        ) : (
+          <div className="absolute inset-0 flex items-center justify-center bg-slate-50 text-slate-400">
+            <span className="text-sm">{t('result.imageUnavailable')}</span>
+          </div>
+        )}
+      </div>
+
+      {images.length > 0 && (
+        <div className="p-3 border-t border-slate-100">
+          {images.length > 1 && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar mb-2">
+              {images.map((image, index) => (
+                <button
+                  key={image.id}
+                  onClick={() => setShownId(image.id)}
+                  className={`relative shrink-0 w-14 h-14 rounded-xl overflow-hidden border-2 transition-all ${
+                    image.id === shown?.id ? 'border-amber-400' : 'border-transparent opacity-70 hover:opacity-100'
+                  }`}
+                  title={t('result.showImage', { index: index + 1 })}
+                >
+                  <img src={image.thumbnail} alt="" className="w-full h-full object-cover" />
+                  {image.id === gallery?.pinnedId && (
+                    <span className="absolute top-0.5 right-0.5 text-[10px] leading-none bg-amber-400 text-white rounded-full px-1">★</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          )}
+          <p className="text-[10px] text-slate-400">{t('result.galleryHint', { count: MAX_IMAGES_PER_WORD })}</p>
+        </div>
+      )}
+    </div>
+  );
+};
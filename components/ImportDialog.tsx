@@ -0,0 +1,195 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { WordHistoryItem } from '../types';
+import {
+  ColumnMapping,
+  DuplicateStrategy,
+  IMPORT_FIELDS,
+  ImportField,
+  ParsedImport,
+  applyImport,
+  buildImportItems,
+  findDuplicate,
+  parseImportFile,
+  rowToItem,
+  suggestMapping,
+} from '../utils/importUtils';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface ImportDialogProps {
+  history: WordHistoryItem[];
+  onImport: (history: WordHistoryItem[]) => void;
+  onClose: () => void;
+}
+
+const PREVIEW_LIMIT = 50;
+
+const FORMAT_LABELS: Record<ParsedImport['format'], MessageKey> = {
+  csv: 'import.format.csv',
+  anki: 'import.format.anki',
+  json: 'import.format.json',
+};
+
+const STRATEGIES: { value: DuplicateStrategy; label: MessageKey; hint: MessageKey }[] = [
+  { value: 'skip', label: 'import.strategy.skip', hint: 'import.strategy.skipHint' },
+  { value: 'overwrite', label: 'import.strategy.overwrite', hint: 'import.strategy.overwriteHint' },
+  { value: 'merge', label: 'import.strategy.merge', hint: 'import.strategy.mergeHint' },
+];
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ history, onImport, onClose }) => {
+  const t = useTranslation();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [parsed, setParsed] = useState<ParsedImport | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [strategy, setStrategy] = useState<DuplicateStrategy>('skip');
+  const [error, setError] = useState<string | null>(null);
+
+  const items = useMemo(() => (parsed ? buildImportItems(parsed, mapping) : []), [parsed, mapping]);
+  const duplicateCount = useMemo(() => items.filter(item => findDuplicate(history, item)).length, [items, history]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setError(null);
+    try {
+      const result = parseImportFile(file.name, await file.text());
+      setFileName(file.name);
+      setParsed(result);
+      setMapping(suggestMapping(result));
+    } catch (err) {
+      console.error("Failed to parse import file", err);
+      setParsed(null);
+      setError(t('import.unreadable'));
+    }
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const updateMapping = (column: number, field: ImportField | null) => {
+    setMapping(prev => prev.map((current, i) => {
+      if (i === column) return field;
+      // Each field can only come from one column
+      return field && current === field ? null : current;
+    }));
+  };
+
+  const handleImport = () => {
+    const result = applyImport(history, items, strategy);
+    onImport(result.history);
+    alert(t('import.done', { added: result.added, updated: result.updated, skipped: result.skipped }));
+    onClose();
+  };
+
+  const isWordMapped = !!parsed?.items || mapping.includes('word');
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('import.title')}</h3>
+            <p className="text-slate-500 text-sm">
+              {parsed && fileName
+                ? t('import.summary', { file: fileName, format: t(FORMAT_LABELS[parsed.format]), count: items.length, duplicates: duplicateCount })
+                : t('import.hint')}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="flex-grow overflow-auto p-6">
+          {!parsed ? (
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="w-full py-16 border-2 border-dashed border-slate-200 rounded-3xl text-slate-400 hover:border-amber-300 hover:text-amber-600 transition-colors font-bold"
+            >
+              {t('import.chooseFile')}
+            </button>
+          ) : (
+            <table className="w-full text-sm">
+              {!parsed.items && (
+                <thead>
+                  <tr>
+                    <th></th>
+                    {mapping.map((field, column) => (
+                      <th key={column} className="p-1 text-left font-normal">
+                        {parsed.headers && <div className="text-xs text-slate-400 mb-1 truncate">{parsed.headers[column]}</div>}
+                        <select
+                          value={field ?? ''}
+                          onChange={e => updateMapping(column, (e.target.value || null) as ImportField | null)}
+                          className="w-full border border-slate-200 rounded-lg px-2 py-1 text-xs bg-white"
+                        >
+                          <option value="">{t('import.ignore')}</option>
+                          {IMPORT_FIELDS.map(({ field: value, label }) => (
+                            <option key={value} value={value}>{t(label)}</option>
+                          ))}
+                        </select>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+              )}
+              <tbody>
+                {parsed.items
+                  ? parsed.items.slice(0, PREVIEW_LIMIT).map((item, i) => (
+                      <tr key={i} className="border-t border-slate-100">
+                        <td className="p-2 w-24">{findDuplicate(history, item) && <span className="text-[10px] font-bold bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{t('import.duplicate')}</span>}</td>
+                        <td className="p-2 font-bold text-slate-800">{item.word}</td>
+                        <td className="p-2 text-amber-600">{item.reading}</td>
+                        <td className="p-2 text-slate-600">{item.definition}</td>
+                      </tr>
+                    ))
+                  : parsed.rows.slice(0, PREVIEW_LIMIT).map((row, i) => {
+                      const rowItem = rowToItem(row, mapping);
+                      const isDuplicate = !!rowItem.word && !!findDuplicate(history, rowItem);
+                      return (
+                        <tr key={i} className="border-t border-slate-100">
+                          <td className="p-2 w-24">{isDuplicate && <span className="text-[10px] font-bold bg-amber-100 text-amber-700 px-2 py-0.5 rounded-full">{t('import.duplicate')}</span>}</td>
+                          {mapping.map((field, column) => (
+                            <td key={column} className={`p-2 max-w-[12rem] truncate ${field ? 'text-slate-700' : 'text-slate-300'}`}>{row[column]}</td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+              </tbody>
+            </table>
+          )}
+          {parsed && (parsed.items?.length ?? parsed.rows.length) > PREVIEW_LIMIT && (
+            <p className="text-xs text-slate-400 mt-2">{t('import.previewLimit', { count: PREVIEW_LIMIT })}</p>
+          )}
+          {error && <p className="text-sm text-red-500 mt-4">{error}</p>}
+          <input type="file" ref={fileInputRef} className="hidden" accept=".csv,.tsv,.txt,.json" onChange={handleFile} />
+        </div>
+
+        {parsed && (
+          <div className="p-6 border-t border-slate-100 flex flex-col md:flex-row md:items-center justify-between gap-4">
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-slate-500 font-bold">{t('import.duplicates')}</span>
+              {STRATEGIES.map(({ value, label, hint }) => (
+                <button
+                  key={value}
+                  onClick={() => setStrategy(value)}
+                  title={t(hint)}
+                  className={`px-3 py-1 rounded-full font-bold transition-all ${strategy === value ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+                >
+                  {t(label)}
+                </button>
+              ))}
+            </div>
+            <div className="flex items-center gap-2">
+              <button onClick={() => fileInputRef.current?.click()} className="text-sm font-bold text-slate-500 hover:text-amber-600 px-4 py-2">
+                {t('import.chooseAnother')}
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={items.length === 0 || !isWordMapped}
+                className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all shadow-md shadow-amber-500/30 disabled:opacity-50"
+              >
+                {t('import.submit', { count: items.length })}
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
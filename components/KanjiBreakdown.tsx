@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { KanjiInfo, WordHistoryItem } from '../types';
+import { fetchKanjiDetails } from '../services/geminiService';
+import { isAbortError } from '../services/requestService';
+import { describeAiError } from '../services/aiErrors';
+import { loadKanjiStrokes } from '../data/kanjiStrokes';
+import { extractKanji } from '../utils/furiganaUtils';
+import { wordsSharingKanji } from '../utils/kanjiUtils';
+import { StrokeOrderDiagram } from './StrokeOrderDiagram';
+import { useTranslation } from '../i18n';
+
+interface KanjiBreakdownProps {
+  word: string;
+  history: WordHistoryItem[];
+  traditionalChinese: boolean;
+  onLookUp: (word: string) => void;
+}
+
+/**
+ * One tab per kanji in the word. Stroke order and related Wordbook words are local;
+ * readings, meaning and radical come from the AI and load behind them.
+ */
+export const KanjiBreakdown: React.FC<KanjiBreakdownProps> = ({ word, history, traditionalChinese, onLookUp }) => {
+  const t = useTranslation();
+  const characters = useMemo(() => extractKanji(word), [word]);
+  const [selected, setSelected] = useState(0);
+  const [details, setDetails] = useState<KanjiInfo[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Null until the stroke file has loaded; empty if it couldn't be
+  const [strokeData, setStrokeData] = useState<Record<string, string[]> | null>(null);
+
+  useEffect(() => {
+    let isCurrent = true;
+    loadKanjiStrokes()
+      .then(data => { if (isCurrent) setStrokeData(data); })
+      .catch(err => {
+        console.warn("Failed to load stroke order data", err);
+        if (isCurrent) setStrokeData({});
+      });
+    return () => { isCurrent = false; };
+  }, []);
+
+  useEffect(() => {
+    setSelected(0);
+    setDetails([]);
+    setError(null);
+    if (characters.length === 0) return;
+
+    setIsLoading(true);
+    // A newer word cancels this one
+    fetchKanjiDetails(characters, traditionalChinese, { channel: 'kanji' })
+      .then(result => {
+        setDetails(result);
+        setIsLoading(false);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error(`Failed to look up the kanji in ${word}`, err);
+        setError(describeAiError(err, t('kanji.failed')));
+        setIsLoading(false);
+      });
+  }, [characters, traditionalChinese]);
+
+  if (characters.length === 0) return null;
+
+  const character = characters[selected] ?? characters[0];
+  const info = details.find(entry => entry.character === character);
+  const strokes = strokeData?.[character];
+  // KanjiVG counts are exact; the AI's is only a fallback for kanji outside the bundled set
+  const strokeCount = strokes ? strokes.length : info?.stroke_count ?? 0;
+  const related = wordsSharingKanji(history, character, word);
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white rounded-3xl shadow-xl border border-amber-100 p-6 mb-12 animate-fade-in">
+      <div className="flex items-center justify-between mb-4 gap-4 flex-wrap">
+        <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider">{t('kanji.title')}</h3>
+        <div className="flex gap-2">
+          {characters.map((ch, i) => (
+            <button
+              key={ch}
+              onClick={() => setSelected(i)}
+              className={`w-12 h-12 rounded-xl text-2xl font-bold transition-colors ${
+                i === selected ? 'bg-amber-400 text-amber-950 shadow-sm' : 'bg-slate-50 text-slate-600 hover:bg-amber-50'
+              }`}
+            >
+              {ch}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-6">
+        <div className="flex-shrink-0 flex justify-center">
+          {strokes ? (
+            <div className="flex flex-col items-center">
+              <StrokeOrderDiagram key={character} strokes={strokes} />
+              <a href="https://kanjivg.tagaini.net" target="_blank" rel="noreferrer" className="text-[10px] text-slate-400 hover:text-amber-600 mt-1">
+                {t('kanji.strokeCredit')}
+              </a>
+            </div>
+          ) : (
+            <div className="w-40 h-40 rounded-2xl border border-amber-100 bg-amber-50/50 flex flex-col items-center justify-center text-center p-3">
+              <span className="text-7xl text-slate-800">{character}</span>
+              {strokeData && <span className="text-[10px] text-slate-400 mt-1">{t('kanji.noStrokeData')}</span>}
+            </div>
+          )}
+        </div>
+
+        <div className="flex-grow min-w-0 space-y-3 text-sm">
+          {info ? (
+            <>
+              <p className="text-lg text-slate-800 font-medium">{info.meaning_cn}</p>
+              <dl className="grid grid-cols-[auto,1fr] gap-x-4 gap-y-2">
+                <dt className="text-slate-400">{t('kanji.onyomi')}</dt>
+                <dd className="text-slate-700">{info.onyomi.join('、') || '—'}</dd>
+                <dt className="text-slate-400">{t('kanji.kunyomi')}</dt>
+                <dd className="text-slate-700">{info.kunyomi.join('、') || '—'}</dd>
+                <dt className="text-slate-400">{t('kanji.radical')}</dt>
+                <dd className="text-slate-700">{info.radical || '—'}</dd>
+                <dt className="text-slate-400">{t('kanji.components')}</dt>
+                <dd className="text-slate-700">{info.components.join(' + ') || '—'}</dd>
+                <dt className="text-slate-400">{t('kanji.strokes')}</dt>
+                <dd className="text-slate-700">{strokeCount || '—'}</dd>
+              </dl>
+            </>
+          ) : isLoading ? (
+            <p className="text-slate-400 animate-pulse">{t('kanji.loading')}</p>
+          ) : error ? (
+            <p className="text-red-500">{error}</p>
+          ) : null}
+
+          <div className="pt-3 border-t border-slate-100">
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('kanji.wordbookWords')}</h4>
+            {related.length > 0 ? (
+              <div className="flex gap-2 flex-wrap">
+                {related.map(item => (
+                  <button
+                    key={item.id}
+                    onClick={() => onLookUp(item.word)}
+                    title={item.definition}
+                    className="px-3 py-1 rounded-full bg-amber-50 border border-amber-100 text-amber-800 hover:bg-amber-100 transition-colors"
+                  >
+                    {item.word}
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <p className="text-slate-400">{t('kanji.noWordbookWords')}</p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { SyncSession, requestLoginCode, verifyLoginCode } from '../services/syncService';
+import { useTranslation } from '../i18n';
+
+interface LoginDialogProps {
+  initialServerUrl: string;
+  initialEmail: string;
+  onLogin: (session: SyncSession) => void;
+  onClose: () => void;
+}
+
+/**
+ * Passwordless sign-in against a Wordbook sync server: email first, then the one-time code.
+ */
+export const LoginDialog: React.FC<LoginDialogProps> = ({ initialServerUrl, initialEmail, onLogin, onClose }) => {
+  const t = useTranslation();
+  const [serverUrl, setServerUrl] = useState(initialServerUrl);
+  const [email, setEmail] = useState(initialEmail);
+  const [code, setCode] = useState('');
+  const [isCodeSent, setIsCodeSent] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    setError(null);
+    try {
+      if (!isCodeSent) {
+        await requestLoginCode(serverUrl, email.trim());
+        setIsCodeSent(true);
+      } else {
+        onLogin(await verifyLoginCode(serverUrl, email.trim(), code.trim()));
+      }
+    } catch (err) {
+      console.error("Login failed", err);
+      setError(err instanceof TypeError ? t('login.unreachable', { server: serverUrl }) : (err as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <form onSubmit={handleSubmit} className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('login.title')}</h3>
+            <p className="text-slate-500 text-sm">{t('login.subtitle')}</p>
+          </div>
+          <button type="button" onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('login.server')}</span>
+            <input
+              value={serverUrl}
+              onChange={e => setServerUrl(e.target.value)}
+              disabled={isCodeSent}
+              className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-amber-400 disabled:bg-slate-50"
+            />
+          </label>
+          <label className="block">
+            <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('login.email')}</span>
+            <input
+              type="email"
+              required
+              autoFocus
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              disabled={isCodeSent}
+              className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-amber-400 disabled:bg-slate-50"
+            />
+          </label>
+          {isCodeSent && (
+            <label className="block animate-fade-in">
+              <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">{t('login.code')}</span>
+              <input
+                required
+                autoFocus
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={e => setCode(e.target.value)}
+                className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-lg tracking-[0.5em] font-bold focus:outline-none focus:border-amber-400"
+              />
+              <span className="text-xs text-slate-400">{t('login.codeHint')}</span>
+            </label>
+          )}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex items-center justify-end gap-2">
+          {isCodeSent && (
+            <button type="button" onClick={() => { setIsCodeSent(false); setCode(''); }} className="text-sm font-bold text-slate-500 hover:text-amber-600 px-4 py-2">
+              {t('login.otherEmail')}
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isBusy}
+            className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all shadow-md shadow-amber-500/30 disabled:opacity-50"
+          >
+            {isBusy ? t('login.wait') : isCodeSent ? t('login.submit') : t('login.sendCode')}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
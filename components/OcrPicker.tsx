@@ -0,0 +1,175 @@
+import React, { useRef, useState } from 'react';
+import { BoundingBox, OcrSpan } from '../types';
+import { intersects } from '../utils/ocrUtils';
+import { useTranslation } from '../i18n';
+
+interface OcrPickerProps {
+  imageUrl: string;
+  spans: OcrSpan[];
+  onLookUp: (text: string) => void;
+  onAddToWordbook: (texts: string[]) => void;
+  onClose: () => void;
+  isAdding: boolean;
+}
+
+// Drags shorter than this (as a fraction of the image) count as taps
+const MIN_DRAG = 0.02;
+
+/**
+ * Shows the uploaded photo with a tappable overlay per detected text span.
+ * Users can tap spans or drag a rectangle to select several at once.
+ */
+export const OcrPicker: React.FC<OcrPickerProps> = ({ imageUrl, spans, onLookUp, onAddToWordbook, onClose, isAdding }) => {
+  const t = useTranslation();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [dragRect, setDragRect] = useState<BoundingBox | null>(null);
+
+  const selectedTexts = spans.filter((_, i) => selected.has(i)).map(span => span.text);
+  const unlocated = spans.map((span, i) => ({ span, i })).filter(({ span }) => !span.box);
+
+  const toggle = (index: number) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index); else next.add(index);
+      return next;
+    });
+  };
+
+  const pointFromEvent = (e: React.PointerEvent) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!containerRef.current) return;
+    containerRef.current.setPointerCapture(e.pointerId);
+    setDragStart(pointFromEvent(e));
+    setDragRect(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = pointFromEvent(e);
+    setDragRect({
+      x: Math.min(dragStart.x, point.x),
+      y: Math.min(dragStart.y, point.y),
+      width: Math.abs(point.x - dragStart.x),
+      height: Math.abs(point.y - dragStart.y),
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    if (!dragStart) return;
+    const point = pointFromEvent(e);
+    const rect = dragRect;
+    setDragStart(null);
+    setDragRect(null);
+
+    if (rect && (rect.width > MIN_DRAG || rect.height > MIN_DRAG)) {
+      const hits = spans.flatMap((span, i) => (span.box && intersects(span.box, rect) ? [i] : []));
+      setSelected(prev => new Set([...prev, ...hits]));
+      return;
+    }
+
+    // A tap: toggle the smallest span under the pointer
+    const tapped = spans
+      .map((span, i) => ({ span, i }))
+      .filter(({ span }) => span.box && intersects(span.box, { x: point.x, y: point.y, width: 0.001, height: 0.001 }))
+      .sort((a, b) => a.span.box!.width * a.span.box!.height - b.span.box!.width * b.span.box!.height)[0];
+    if (tapped) toggle(tapped.i);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto px-4 mb-12 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-xl border border-amber-100 overflow-hidden">
+        <div className="p-4 flex items-center justify-between border-b border-slate-100">
+          <p className="text-sm text-slate-500">
+            {t('ocr.found', { count: spans.length })}
+          </p>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div
+          ref={containerRef}
+          className="relative select-none touch-none cursor-crosshair"
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+        >
+          <img src={imageUrl} alt={t('ocr.imageAlt')} className="w-full block pointer-events-none" draggable={false} />
+          {spans.map((span, i) => span.box && (
+            <div
+              key={i}
+              className={`absolute border-2 rounded-md transition-colors ${
+                selected.has(i) ? 'border-amber-500 bg-amber-400/40' : 'border-white/80 bg-amber-200/10 hover:bg-amber-200/30'
+              }`}
+              style={{
+                left: `${span.box.x * 100}%`,
+                top: `${span.box.y * 100}%`,
+                width: `${span.box.width * 100}%`,
+                height: `${span.box.height * 100}%`,
+              }}
+              title={span.text}
+            />
+          ))}
+          {dragRect && (
+            <div
+              className="absolute border-2 border-dashed border-amber-600 bg-amber-300/20 pointer-events-none"
+              style={{
+                left: `${dragRect.x * 100}%`,
+                top: `${dragRect.y * 100}%`,
+                width: `${dragRect.width * 100}%`,
+                height: `${dragRect.height * 100}%`,
+              }}
+            />
+          )}
+        </div>
+
+        <div className="p-4 space-y-3">
+          <div className="flex flex-wrap gap-2">
+            {spans.map((span, i) => (
+              <button
+                key={i}
+                onClick={() => toggle(i)}
+                className={`px-3 py-1 rounded-full text-sm font-bold transition-all ${
+                  selected.has(i) ? 'bg-amber-500 text-white' : 'bg-slate-100 text-slate-600 hover:bg-amber-100'
+                }`}
+              >
+                {span.text}
+              </button>
+            ))}
+          </div>
+          {unlocated.length > 0 && (
+            <p className="text-xs text-slate-400">{t('ocr.unlocated', { count: unlocated.length })}</p>
+          )}
+          <div className="flex items-center justify-end gap-2 pt-2 border-t border-slate-100">
+            {selected.size > 0 && (
+              <button onClick={() => setSelected(new Set())} className="text-sm font-bold text-slate-400 hover:text-slate-600 px-3 py-2">
+                {t('ocr.clear')}
+              </button>
+            )}
+            <button
+              onClick={() => onAddToWordbook(selectedTexts)}
+              disabled={selectedTexts.length === 0 || isAdding}
+              className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all disabled:opacity-50"
+            >
+              {isAdding ? t('ocr.adding') : selectedTexts.length ? t('ocr.addCount', { count: selectedTexts.length }) : t('ocr.add')}
+            </button>
+            <button
+              onClick={() => onLookUp(selectedTexts.join(''))}
+              disabled={selectedTexts.length === 0}
+              className="bg-amber-400 hover:bg-amber-500 text-amber-950 px-4 py-2 rounded-lg font-bold text-sm transition-colors disabled:opacity-50"
+            >
+              {t('ocr.lookUp')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
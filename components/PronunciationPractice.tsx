@@ -0,0 +1,242 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { PracticeAttempt, PronunciationAssessment } from '../types';
+import { assessPronunciation, generateSpeech } from '../services/geminiService';
+import { getPlaybackState } from '../services/audioEngine';
+import { describeAiError } from '../services/aiErrors';
+import { decodeBase64, pcmToWav, recordingToWav } from '../utils/audioUtils';
+import { useTranslation } from '../i18n';
+
+export interface PracticeTarget {
+  word: string; // History key: attempts on the example sentence count towards its word
+  text: string;
+  reading: string;
+}
+
+interface PronunciationPracticeProps {
+  target: PracticeTarget;
+  attempts: PracticeAttempt[];
+  onAttempt: (attempt: PracticeAttempt) => void;
+  onClose: () => void;
+}
+
+// Long enough for an example sentence; stops a forgotten recording from running on
+const MAX_RECORDING_MS = 10000;
+
+const scoreColor = (score: number) =>
+  score >= 85 ? 'text-emerald-600' : score >= 60 ? 'text-amber-600' : 'text-red-500';
+
+/**
+ * Records the learner saying a word or sentence and shows mora-level feedback next to the reference audio.
+ */
+export const PronunciationPractice: React.FC<PronunciationPracticeProps> = ({ target, attempts, onAttempt, onClose }) => {
+  const t = useTranslation();
+  const [referenceUrl, setReferenceUrl] = useState<string | null>(null);
+  const [recordingUrl, setRecordingUrl] = useState<string | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isAssessing, setIsAssessing] = useState(false);
+  const [assessment, setAssessment] = useState<PronunciationAssessment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const stopTimerRef = useRef<number | null>(null);
+
+  // Reference audio as a WAV so it gets the same player controls as the learner's clip
+  useEffect(() => {
+    let url: string | null = null;
+    let isCancelled = false;
+    generateSpeech(target.text, getPlaybackState().voice)
+      .then(base64Audio => {
+        if (isCancelled) return;
+        url = URL.createObjectURL(new Blob([pcmToWav(decodeBase64(base64Audio))], { type: 'audio/wav' }));
+        setReferenceUrl(url);
+      })
+      .catch(err => console.error("Reference audio failed", err));
+    return () => {
+      isCancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [target.text]);
+
+  useEffect(() => () => {
+    if (recordingUrl) URL.revokeObjectURL(recordingUrl);
+  }, [recordingUrl]);
+
+  // Release the microphone if the dialog closes mid-recording
+  useEffect(() => () => {
+    if (stopTimerRef.current) window.clearTimeout(stopTimerRef.current);
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+      recorder.stream.getTracks().forEach(track => track.stop());
+    }
+  }, []);
+
+  const assess = async (recording: Blob) => {
+    setIsAssessing(true);
+    try {
+      const wav = await recordingToWav(recording);
+      const result = await assessPronunciation(wav, target.text, target.reading);
+      setAssessment(result);
+      onAttempt({ text: target.text, timestamp: Date.now(), score: result.score, transcript: result.transcript });
+    } catch (err) {
+      console.error("Pronunciation assessment failed", err);
+      setError(describeAiError(err, t('practice.assessFailed')));
+    } finally {
+      setIsAssessing(false);
+    }
+  };
+
+  const startRecording = async () => {
+    setError(null);
+    setAssessment(null);
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      console.error("Microphone unavailable", err);
+      setError(t('practice.micUnavailable'));
+      return;
+    }
+
+    const chunks: Blob[] = [];
+    const recorder = new MediaRecorder(stream);
+    recorder.ondataavailable = e => chunks.push(e.data);
+    recorder.onstop = () => {
+      if (stopTimerRef.current) window.clearTimeout(stopTimerRef.current);
+      stream.getTracks().forEach(track => track.stop());
+      setIsRecording(false);
+      const recording = new Blob(chunks, { type: recorder.mimeType });
+      setRecordingUrl(URL.createObjectURL(recording));
+      assess(recording);
+    };
+    recorderRef.current = recorder;
+    recorder.start();
+    setIsRecording(true);
+    stopTimerRef.current = window.setTimeout(() => recorder.stop(), MAX_RECORDING_MS);
+  };
+
+  const stopRecording = () => recorderRef.current?.stop();
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex items-start justify-between gap-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('result.sayIt')}</h3>
+            <p className="text-2xl text-slate-700 font-medium mt-1">{target.text}</p>
+            {target.reading !== target.text && <p className="text-sm text-amber-600">{target.reading}</p>}
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('practice.reference')}</h4>
+              {referenceUrl ? (
+                <audio src={referenceUrl} controls className="w-full h-10" />
+              ) : (
+                <p className="text-sm text-slate-400 animate-pulse h-10 flex items-center">{t('result.loadingAudio')}</p>
+              )}
+            </div>
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('practice.you')}</h4>
+              {recordingUrl ? (
+                <audio src={recordingUrl} controls className="w-full h-10" />
+              ) : (
+                <p className="text-sm text-slate-400 h-10 flex items-center">{t('practice.noRecording')}</p>
+              )}
+            </div>
+          </div>
+
+          <div className="flex justify-center">
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              disabled={isAssessing}
+              className={`px-6 py-3 rounded-xl font-bold text-sm transition-all shadow-md flex items-center gap-2 disabled:opacity-50 ${
+                isRecording
+                  ? 'bg-red-500 hover:bg-red-600 text-white shadow-red-500/30'
+                  : 'bg-amber-500 hover:bg-amber-600 text-white shadow-amber-500/30'
+              }`}
+            >
+              <span className={`w-3 h-3 rounded-full bg-white ${isRecording ? 'animate-pulse' : ''}`}></span>
+              {isRecording ? t('practice.stop') : recordingUrl ? t('practice.recordAgain') : t('practice.record')}
+            </button>
+          </div>
+
+          {error && <p className="text-sm text-red-500 text-center">{error}</p>}
+
+          {isAssessing && (
+            <div className="flex items-center justify-center gap-2 text-slate-500 text-sm">
+              <div className="w-4 h-4 border-2 border-amber-500 border-t-transparent rounded-full animate-spin"></div>
+              {t('practice.listening')}
+            </div>
+          )}
+
+          {assessment && !isAssessing && (
+            <div className="space-y-4 animate-fade-in">
+              <div className="flex items-baseline justify-between">
+                <span className={`text-4xl font-black ${scoreColor(assessment.score)}`}>{assessment.score}</span>
+                <span className="text-sm text-slate-500">{t('practice.heard')} <span className="font-medium text-slate-700">{assessment.transcript || '—'}</span></span>
+              </div>
+
+              {assessment.morae.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {assessment.morae.map((mora, i) => (
+                    <div
+                      key={i}
+                      title={mora.note}
+                      className={`flex flex-col items-center px-2 py-1 rounded-lg border ${
+                        mora.ok ? 'bg-emerald-50 border-emerald-100' : 'bg-red-50 border-red-200'
+                      }`}
+                    >
+                      <span className="text-[10px] font-bold text-slate-400">{mora.pitch}</span>
+                      <span className="text-lg text-slate-800">{mora.mora}</span>
+                      {!mora.ok && mora.heard !== mora.mora && <span className="text-xs text-red-500">{mora.heard}</span>}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {assessment.morae.some(mora => !mora.ok && mora.note) && (
+                <ul className="serif-cn text-sm text-slate-600 space-y-1">
+                  {assessment.morae.filter(mora => !mora.ok && mora.note).map((mora, i) => (
+                    <li key={i}><span className="font-bold text-red-500">{mora.mora}</span> {mora.note}</li>
+                  ))}
+                </ul>
+              )}
+
+              {assessment.pitch_feedback && (
+                <div>
+                  <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('practice.pitchAccent')}</h4>
+                  <p className="serif-cn text-sm text-slate-600">{assessment.pitch_feedback}</p>
+                </div>
+              )}
+              {assessment.advice && (
+                <p className="serif-cn text-sm text-slate-700 bg-amber-50 border border-amber-100 rounded-xl p-3">{assessment.advice}</p>
+              )}
+            </div>
+          )}
+
+          {attempts.length > 0 && (
+            <div>
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('practice.recentAttempts')}</h4>
+              <ul className="space-y-1 text-sm">
+                {attempts.slice(0, 5).map(attempt => (
+                  <li key={attempt.timestamp} className="flex items-center justify-between gap-3 text-slate-500">
+                    <span className="truncate">{attempt.text}</span>
+                    <span className="flex items-center gap-3 shrink-0">
+                      <span className="text-xs">{new Date(attempt.timestamp).toLocaleDateString()}</span>
+                      <span className={`font-bold ${scoreColor(attempt.score)}`}>{attempt.score}</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,302 @@
+import React, { useMemo, useState } from 'react';
+import { QuizMode, WordHistoryItem } from '../types';
+import { QuizAnswer, QuizQuestion, buildQuiz, canAsk, checkAnswer, isWeakWord } from '../utils/quizUtils';
+import { romajiToHiragana } from '../utils/kanaUtils';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface QuizSessionProps {
+  items: WordHistoryItem[]; // Words to be quizzed on (the Wordbook selection)
+  pool: WordHistoryItem[]; // Whole Wordbook, for distractors
+  onAnswer: (item: WordHistoryItem, isCorrect: boolean) => void;
+  onPlayAudio: (text: string) => void;
+  onExit: () => void;
+}
+
+const MODES: { mode: QuizMode; label: MessageKey; hint: MessageKey }[] = [
+  { mode: QuizMode.MEANING, label: 'quiz.mode.meaning', hint: 'quiz.mode.meaningHint' },
+  { mode: QuizMode.READING, label: 'quiz.mode.reading', hint: 'quiz.mode.readingHint' },
+  { mode: QuizMode.CLOZE, label: 'quiz.mode.cloze', hint: 'quiz.mode.clozeHint' },
+];
+
+const LENGTHS = [10, 20, 50];
+
+type Phase = 'setup' | 'question' | 'results';
+
+export const QuizSession: React.FC<QuizSessionProps> = ({ items, pool, onAnswer, onPlayAudio, onExit }) => {
+  const t = useTranslation();
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [mode, setMode] = useState<QuizMode>(QuizMode.MEANING);
+  const [weakOnly, setWeakOnly] = useState(false);
+  const [length, setLength] = useState(LENGTHS[0]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+  const [typed, setTyped] = useState('');
+  // After answering, the question stays on screen with feedback until "Next"
+  const [isShowingFeedback, setIsShowingFeedback] = useState(false);
+
+  const weakItems = useMemo(() => items.filter(isWeakWord), [items]);
+  const scope = weakOnly ? weakItems : items;
+  const available = useMemo(() => scope.filter(item => canAsk(item, mode, pool)).length, [scope, mode, pool]);
+
+  const current = questions[answers.length];
+  const lastAnswer = isShowingFeedback ? answers[answers.length - 1] : null;
+  const question = lastAnswer ? lastAnswer.question : current;
+  const score = answers.filter(answer => answer.isCorrect).length;
+  const mistakes = answers.filter(answer => !answer.isCorrect);
+
+  const start = (quizItems: WordHistoryItem[]) => {
+    setQuestions(buildQuiz(quizItems, pool, mode, length));
+    setAnswers([]);
+    setTyped('');
+    setIsShowingFeedback(false);
+    setPhase('question');
+  };
+
+  const handleAnswer = (given: string) => {
+    if (!current || isShowingFeedback) return;
+    const isCorrect = checkAnswer(current, given);
+    setAnswers(prev => [...prev, { question: current, given, isCorrect }]);
+    setIsShowingFeedback(true);
+    onAnswer(current.item, isCorrect);
+  };
+
+  const handleNext = () => {
+    setIsShowingFeedback(false);
+    setTyped('');
+    if (answers.length >= questions.length) setPhase('results');
+  };
+
+  if (phase === 'setup') {
+    return (
+      <div className="container mx-auto px-4 max-w-2xl animate-fade-in">
+        <div className="flex items-center justify-between mb-6">
+          <button onClick={onExit} className="text-sm font-bold text-slate-400 hover:text-amber-600">
+            {t('wordbook.back')}
+          </button>
+        </div>
+
+        <div className="bg-white rounded-3xl shadow-xl border border-amber-100 p-8 space-y-8">
+          <div>
+            <h2 className="text-2xl font-bold text-slate-800 mb-4">{t('quiz.title')}</h2>
+            <div className="grid grid-cols-3 gap-3">
+              {MODES.map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => setMode(option.mode)}
+                  className={`rounded-2xl border p-4 text-left transition-all ${
+                    mode === option.mode ? 'border-amber-400 bg-amber-50 shadow-sm' : 'border-slate-100 hover:border-amber-200'
+                  }`}
+                >
+                  <div className="font-bold text-slate-800">{t(option.label)}</div>
+                  <div className="text-xs text-slate-500">{t(option.hint)}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-slate-500 font-bold mr-2">{t('quiz.words')}</span>
+            <button
+              onClick={() => setWeakOnly(false)}
+              className={`px-3 py-1 rounded-full font-bold transition-all ${!weakOnly ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {t('quiz.allShown', { count: items.length })}
+            </button>
+            <button
+              onClick={() => setWeakOnly(true)}
+              disabled={weakItems.length === 0}
+              className={`px-3 py-1 rounded-full font-bold transition-all disabled:opacity-50 ${weakOnly ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+            >
+              {t('quiz.weakWords', { count: weakItems.length })}
+            </button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-slate-500 font-bold mr-2">{t('quiz.questions')}</span>
+            {LENGTHS.map(value => (
+              <button
+                key={value}
+                onClick={() => setLength(value)}
+                className={`px-3 py-1 rounded-full font-bold transition-all ${length === value ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-600 hover:bg-slate-200'}`}
+              >
+                {value}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between border-t border-slate-100 pt-6">
+            <span className="text-xs text-slate-400">
+              {available === 0 ? t('quiz.noWords') : t('quiz.questionCount', { count: Math.min(available, length) })}
+            </span>
+            <button
+              onClick={() => start(scope)}
+              disabled={available === 0}
+              className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold transition-all shadow-md shadow-amber-500/30 disabled:opacity-50"
+            >
+              {t('quiz.start')}
+            </button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'results' || !question) {
+    const percent = answers.length ? Math.round((score / answers.length) * 100) : 0;
+    return (
+      <div className="container mx-auto px-4 max-w-2xl animate-fade-in text-center py-12">
+        <div className="inline-block p-6 rounded-full bg-white shadow-sm border border-amber-50 mb-4">
+          <span className="text-5xl">{percent >= 80 ? '🎉' : percent >= 50 ? '💪' : '📚'}</span>
+        </div>
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t('quiz.correctOf', { score, total: answers.length })}</h2>
+        <p className="text-slate-500 mb-8">{percent}%</p>
+
+        {mistakes.length > 0 && (
+          <div className="bg-white rounded-3xl shadow-sm border border-red-100 p-6 mb-8 text-left">
+            <h3 className="text-sm font-bold text-red-500 uppercase tracking-wider mb-3">{t('quiz.weakHeading')}</h3>
+            <ul className="divide-y divide-slate-100">
+              {mistakes.map(({ question, given }) => (
+                <li key={question.item.id} className="py-2 flex items-baseline justify-between gap-4">
+                  <span>
+                    <span className="font-bold text-slate-800">{question.item.word}</span>
+                    <span className="text-amber-600 ml-2 text-sm">{question.item.reading}</span>
+                    <span className="text-slate-500 ml-2 text-sm serif-cn">{question.item.definition}</span>
+                  </span>
+                  <span className="text-xs text-red-400 line-through shrink-0">{given || '—'}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex flex-wrap justify-center gap-3">
+          {mistakes.length > 0 && (
+            <button
+              onClick={() => start(mistakes.map(answer => answer.question.item))}
+              className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold transition-all shadow-md shadow-amber-500/30"
+            >
+              {t('quiz.practiceMistakes')}
+            </button>
+          )}
+          <button onClick={() => setPhase('setup')} className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-6 py-3 rounded-xl font-bold transition-all">
+            {t('quiz.newQuiz')}
+          </button>
+          <button onClick={onExit} className="text-slate-500 hover:text-amber-600 px-6 py-3 font-bold">
+            {t('wordbook.backTo')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const { item } = question;
+
+  const choiceClass = (choice: string) => {
+    if (!isShowingFeedback) return 'bg-white border-slate-200 text-slate-700 hover:border-amber-300 hover:bg-amber-50';
+    if (choice === question.answer) return 'bg-emerald-50 border-emerald-300 text-emerald-700';
+    if (choice === lastAnswer?.given) return 'bg-red-50 border-red-300 text-red-600';
+    return 'bg-white border-slate-100 text-slate-400';
+  };
+
+  return (
+    <div className="container mx-auto px-4 max-w-2xl animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={() => setPhase('results')} className="text-sm font-bold text-slate-400 hover:text-amber-600">
+          {t('quiz.finish')}
+        </button>
+        <span className="text-sm font-bold text-amber-700 bg-amber-100 px-3 py-1 rounded-full">
+          {t('quiz.progress', { current: Math.min(answers.length + (isShowingFeedback ? 0 : 1), questions.length), total: questions.length, score })}
+        </span>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-xl border border-amber-100 overflow-hidden relative">
+        <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-amber-300 via-orange-300 to-amber-300"></div>
+
+        <div className="p-10 text-center">
+          {question.mode === QuizMode.CLOZE && question.cloze ? (
+            <>
+              <p className="text-2xl text-slate-800 leading-relaxed mb-3">
+                {question.cloze.before}
+                <span className={`inline-block min-w-[4rem] border-b-2 mx-1 ${isShowingFeedback ? 'border-emerald-400 text-emerald-600' : 'border-amber-400 text-transparent'}`}>
+                  {isShowingFeedback ? item.example_jp.slice(question.cloze.before.length, item.example_jp.length - question.cloze.after.length) : '＿'}
+                </span>
+                {question.cloze.after}
+              </p>
+              <p className="text-slate-500 text-sm serif-cn italic">{item.example_cn}</p>
+            </>
+          ) : (
+            <h2 className="text-5xl font-bold text-slate-800 tracking-tight">{item.word}</h2>
+          )}
+
+          {isShowingFeedback && (
+            <div className="animate-fade-in mt-6 space-y-2">
+              <p className={`font-bold ${lastAnswer?.isCorrect ? 'text-emerald-600' : 'text-red-500'}`}>
+                {lastAnswer?.isCorrect ? t('quiz.correct') : t('quiz.incorrect')}
+              </p>
+              <div className="flex items-center justify-center gap-3">
+                <span className="text-xl font-bold text-slate-800">{item.word}</span>
+                <span className="text-lg text-amber-600 font-medium bg-amber-50 px-3 py-1 rounded-full border border-amber-100">
+                  {item.reading}
+                </span>
+                <button
+                  onClick={() => onPlayAudio(item.word)}
+                  className="w-9 h-9 rounded-full bg-slate-100 hover:bg-amber-300 hover:text-amber-900 text-slate-600 transition-all flex items-center justify-center"
+                  title={t('result.playWord')}
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                </button>
+              </div>
+              <p className="serif-cn text-slate-600">{item.definition}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="border-t border-slate-100 p-6 bg-slate-50/50">
+          {question.choices ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {question.choices.map(choice => (
+                <button
+                  key={choice}
+                  onClick={() => handleAnswer(choice)}
+                  disabled={isShowingFeedback}
+                  className={`border rounded-xl px-4 py-3 font-bold text-sm text-left transition-all ${choiceClass(choice)}`}
+                >
+                  {choice}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <form onSubmit={e => { e.preventDefault(); handleAnswer(typed); }} className="space-y-2">
+              <div className="flex gap-2">
+                <input
+                  autoFocus
+                  value={typed}
+                  onChange={e => setTyped(e.target.value)}
+                  disabled={isShowingFeedback}
+                  placeholder={t('quiz.readingPlaceholder')}
+                  className="flex-grow border border-slate-200 rounded-xl px-4 py-3 text-lg focus:outline-none focus:border-amber-400"
+                />
+                {!isShowingFeedback && (
+                  <button type="submit" disabled={!typed.trim()} className="bg-amber-400 hover:bg-amber-500 text-amber-950 font-bold px-6 rounded-xl transition-colors disabled:opacity-50">
+                    {t('quiz.check')}
+                  </button>
+                )}
+              </div>
+              {typed && !isShowingFeedback && <p className="text-sm text-slate-400 text-left">{romajiToHiragana(typed)}</p>}
+            </form>
+          )}
+
+          {isShowingFeedback && (
+            <button
+              autoFocus
+              onClick={handleNext}
+              className="w-full mt-4 bg-amber-400 hover:bg-amber-500 text-amber-950 font-bold py-3 rounded-xl transition-colors"
+            >
+              {answers.length >= questions.length ? t('quiz.seeResults') : t('quiz.next')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
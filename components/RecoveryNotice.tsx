@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import { RecoveredBlob, discardRecoveredBlob, listRecoveredBlobs, readRecoveredBlob } from '../services/storageService';
+import { useTranslation } from '../i18n';
+
+/**
+ * Warns that saved data could not be read and offers the damaged copy for download,
+ * so it can be repaired by hand instead of being lost.
+ */
+export const RecoveryNotice: React.FC = () => {
+  const t = useTranslation();
+  const [blobs, setBlobs] = useState<RecoveredBlob[]>(() => listRecoveredBlobs());
+
+  if (blobs.length === 0) return null;
+
+  const handleDownload = (blob: RecoveredBlob) => {
+    const url = URL.createObjectURL(new Blob([readRecoveredBlob(blob)], { type: 'text/plain;charset=utf-8;' }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.setAttribute("download", `little_yellow_book_${blob.key}_${blob.savedAt}.txt`);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleDiscard = (blob: RecoveredBlob) => {
+    if (!confirm(t('recovery.confirmDiscard'))) return;
+    discardRecoveredBlob(blob);
+    setBlobs(listRecoveredBlobs());
+  };
+
+  return (
+    <div className="mb-6 bg-red-50 border border-red-100 text-red-700 rounded-2xl p-4 text-sm space-y-2">
+      {blobs.map(blob => (
+        <div key={blob.storageKey} className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+          <span>
+            {t('recovery.unreadable', { key: blob.key, date: new Date(blob.savedAt).toLocaleString() })}
+          </span>
+          <div className="flex gap-3 shrink-0">
+            <button onClick={() => handleDownload(blob)} className="font-bold hover:underline">{t('recovery.download')}</button>
+            <button onClick={() => handleDiscard(blob)} className="font-bold text-red-400 hover:text-red-600">{t('recovery.dismiss')}</button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
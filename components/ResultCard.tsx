@@ -1,27 +1,67 @@
-import React from 'react';
-import { DictionaryResult } from '../types';
+import React, { useEffect, useState } from 'react';
+import { DictionaryResult, FuriganaMode, RelationType, WordImage, WordImageGallery } from '../types';
+import { RubyText } from './RubyText';
+import { ImageGallery } from './ImageGallery';
+import { segmentsToReading } from '../utils/furiganaUtils';
+import { MessageKey, useTranslation } from '../i18n';
 
 interface ResultCardProps {
   data: DictionaryResult;
-  imageUrl: string | null;
+  images: WordImageGallery | null;
   onPlayAudioWord: () => void;
-  onPlayAudioSentence: () => void;
+  onPlayAudioSentence: (text: string) => void;
+  onPractice: (text: string, reading: string) => void;
   onRefreshImage: () => void;
+  onPinImage: (image: WordImage | null) => void;
+  onDeleteImage: (image: WordImage) => void;
+  onLookUpRelated: (word: string) => void;
+  onSaveSense: (senseIndex: number) => void;
+  isSenseSaved: (senseIndex: number) => boolean;
+  furiganaMode: FuriganaMode;
+  knownKanji: Set<string>;
   isLoadingAudioWord: boolean;
   isLoadingAudioSentence: boolean;
   isImageLoading: boolean;
 }
 
+const RELATION_LABELS: Record<RelationType, MessageKey> = {
+  synonym: 'result.synonyms',
+  antonym: 'result.antonyms',
+  collocation: 'result.collocations',
+  phrase: 'result.phrases',
+};
+
 export const ResultCard: React.FC<ResultCardProps> = ({
   data,
-  imageUrl,
+  images,
   onPlayAudioWord,
   onPlayAudioSentence,
+  onPractice,
   onRefreshImage,
+  onPinImage,
+  onDeleteImage,
+  onLookUpRelated,
+  onSaveSense,
+  isSenseSaved,
+  furiganaMode,
+  knownKanji,
   isLoadingAudioWord,
   isLoadingAudioSentence,
   isImageLoading
 }) => {
+  const t = useTranslation();
+  const [activeSense, setActiveSense] = useState(0);
+  const [showConjugations, setShowConjugations] = useState(false);
+
+  // A new lookup starts from its primary sense
+  useEffect(() => {
+    setActiveSense(0);
+    setShowConjugations(false);
+  }, [data]);
+
+  const sense = data.senses[activeSense] ?? data.senses[0];
+  const isSaved = isSenseSaved(activeSense);
+
   return (
     <div className="w-full max-w-4xl mx-auto grid grid-cols-1 lg:grid-cols-2 gap-8 animate-fade-in mb-12">
       {/* Text Content */}
@@ -35,7 +75,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({
             <span className="text-lg text-slate-500 font-medium">{data.romaji}</span>
           </div>
           
-          <div className="flex items-center gap-3 mb-8">
+          <div className="flex items-center gap-3 mb-8 flex-wrap">
             <span className="text-xl text-amber-600 font-medium bg-amber-50 px-3 py-1 rounded-full border border-amber-100">
               {data.reading}
             </span>
@@ -43,7 +83,7 @@ export const ResultCard: React.FC<ResultCardProps> = ({
               onClick={onPlayAudioWord}
               disabled={isLoadingAudioWord}
               className="flex items-center justify-center w-10 h-10 rounded-full bg-slate-100 hover:bg-amber-300 hover:text-amber-900 text-slate-600 transition-all disabled:opacity-50 focus:outline-none"
-              title="Play Pronunciation"
+              title={t('result.playWord')}
             >
               {isLoadingAudioWord ? (
                 <div className="w-4 h-4 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
@@ -53,95 +93,192 @@ export const ResultCard: React.FC<ResultCardProps> = ({
                 </svg>
               )}
             </button>
+            <button
+              onClick={() => onPractice(data.word, data.reading)}
+              className="flex items-center gap-1 h-10 px-3 rounded-full bg-slate-100 hover:bg-amber-300 hover:text-amber-900 text-slate-600 text-sm font-bold transition-all focus:outline-none"
+              title={t('result.practiseWord')}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+              {t('result.sayIt')}
+            </button>
+            {data.jlpt_level && (
+              <span className="text-xs font-black text-white bg-amber-500 px-2 py-1 rounded-md" title={t('result.jlptLevel')}>
+                JLPT {data.jlpt_level}
+              </span>
+            )}
           </div>
 
+          {/* Senses */}
+          {data.senses.length > 1 && (
+            <div className="flex gap-2 mb-6 overflow-x-auto no-scrollbar">
+              {data.senses.map((s, index) => (
+                <button
+                  key={index}
+                  onClick={() => setActiveSense(index)}
+                  className={`px-3 py-1 rounded-full text-sm font-bold whitespace-nowrap transition-all ${
+                    index === activeSense
+                      ? 'bg-amber-950 text-amber-100'
+                      : 'bg-slate-100 text-slate-500 hover:bg-amber-100 hover:text-amber-800'
+                  }`}
+                >
+                  {index + 1}. {s.definition_cn.length > 8 ? `${s.definition_cn.slice(0, 8)}…` : s.definition_cn}
+                </button>
+              ))}
+            </div>
+          )}
+
           <div className="space-y-6">
+            <div className="flex items-center justify-between gap-3">
+              {sense.part_of_speech ? (
+                <span className="text-xs font-bold text-slate-500 bg-slate-100 px-2 py-1 rounded-md">{sense.part_of_speech}</span>
+              ) : <span />}
+              <button
+                onClick={() => onSaveSense(activeSense)}
+                disabled={isSaved}
+                className="text-xs font-bold text-amber-600 hover:text-amber-800 flex items-center gap-1 disabled:text-slate-400"
+                title={t('result.saveSenseHint')}
+              >
+                <svg className="w-4 h-4" fill={isSaved ? 'currentColor' : 'none'} stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 5a2 2 0 012-2h10a2 2 0 012 2v16l-7-3.5L5 21V5z" /></svg>
+                {isSaved ? t('result.saved') : t('result.saveSense')}
+              </button>
+            </div>
+
             <div className="group">
-              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Japanese Definition</h3>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('result.definitionJp')}</h3>
               <p className="text-lg text-slate-700 leading-relaxed border-l-4 border-slate-200 pl-4 group-hover:border-amber-400 transition-colors">
-                {data.definition_jp}
+                {sense.definition_jp}
               </p>
             </div>
 
             <div className="group">
-              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">Chinese Definition</h3>
+              <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('result.definitionCn')}</h3>
               <p className="serif-cn text-lg text-slate-700 leading-relaxed border-l-4 border-slate-200 pl-4 group-hover:border-pink-400 transition-colors">
-                {data.definition_cn}
+                {sense.definition_cn}
               </p>
             </div>
-            
+
              <div className="bg-amber-50/50 rounded-2xl p-5 mt-6 border border-amber-100/50">
                <div className="flex justify-between items-center mb-3">
-                 <h3 className="text-xs font-bold text-amber-600/60 uppercase tracking-wider">Example</h3>
-                 <button 
-                   onClick={onPlayAudioSentence}
-                   disabled={isLoadingAudioSentence}
-                   className="text-amber-600 hover:text-amber-800 text-sm flex items-center gap-1 disabled:opacity-50"
-                 >
-                   {isLoadingAudioSentence ? (
-                     <span className="animate-pulse">Loading audio...</span>
-                   ) : (
-                     <>
-                       <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z"/></svg>
-                       <span>Read Aloud</span>
-                     </>
-                   )}
-                 </button>
+                 <h3 className="text-xs font-bold text-amber-600/60 uppercase tracking-wider">{t('result.example')}</h3>
+                 <div className="flex items-center gap-4">
+                   <button
+                     onClick={() => onPractice(sense.example_jp, segmentsToReading(sense.example_segments))}
+                     className="text-amber-600 hover:text-amber-800 text-sm flex items-center gap-1"
+                     title={t('result.practiseSentence')}
+                   >
+                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 11a7 7 0 01-7 7m0 0a7 7 0 01-7-7m7 7v4m0 0H8m4 0h4m-4-8a3 3 0 01-3-3V5a3 3 0 116 0v6a3 3 0 01-3 3z" /></svg>
+                     <span>{t('result.sayIt')}</span>
+                   </button>
+                   <button 
+                     onClick={() => onPlayAudioSentence(sense.example_jp)}
+                     disabled={isLoadingAudioSentence}
+                     className="text-amber-600 hover:text-amber-800 text-sm flex items-center gap-1 disabled:opacity-50"
+                   >
+                     {isLoadingAudioSentence ? (
+                       <span className="animate-pulse">{t('result.loadingAudio')}</span>
+                     ) : (
+                       <>
+                         <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02zM14 3.23v2.06c2.89.86 5 3.54 5 6.71s-2.11 5.85-5 6.71v2.06c4.01-.91 7-4.49 7-8.77s-2.99-7.86-7-8.77z"/></svg>
+                         <span>{t('result.readAloud')}</span>
+                       </>
+                     )}
+                   </button>
+                 </div>
                </div>
-              <p className="text-slate-800 font-medium mb-2 text-lg leading-7">{data.example_jp}</p>
-              <p className="text-slate-500 text-base serif-cn italic">{data.example_cn}</p>
+              <p className="text-slate-800 font-medium mb-2 text-lg leading-9">
+                <RubyText segments={sense.example_segments} text={sense.example_jp} mode={furiganaMode} knownKanji={knownKanji} />
+              </p>
+              <p className="text-slate-500 text-base serif-cn italic">{sense.example_cn}</p>
             </div>
+
+            {data.usage_notes && (
+              <div className="group">
+                <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('result.usageNotes')}</h3>
+                <p className="serif-cn text-sm text-slate-600 leading-relaxed">{data.usage_notes}</p>
+              </div>
+            )}
+
+            {data.related.length > 0 && (
+              <div className="space-y-3">
+                {(Object.keys(RELATION_LABELS) as RelationType[]).map(relation => {
+                  const words = data.related.filter(item => item.relation === relation);
+                  if (words.length === 0) return null;
+                  return (
+                    <div key={relation}>
+                      <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t(RELATION_LABELS[relation])}</h3>
+                      {/* Synonyms are only useful with the nuance difference spelled out */}
+                      {relation === 'synonym' ? (
+                        <ul className="space-y-1.5">
+                          {words.map(item => (
+                            <li key={item.word} className="flex items-baseline gap-2 text-sm">
+                              <button
+                                onClick={() => onLookUpRelated(item.word)}
+                                title={item.reading}
+                                className="shrink-0 px-3 py-1 rounded-full bg-amber-50 border border-amber-100 text-amber-800 hover:bg-amber-100 transition-colors"
+                              >
+                                {item.word}
+                              </button>
+                              <span className="serif-cn text-slate-500">{item.note}</span>
+                            </li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <div className="flex gap-2 flex-wrap">
+                          {words.map(item => (
+                            <button
+                              key={item.word}
+                              onClick={() => onLookUpRelated(item.word)}
+                              title={[item.reading, item.note].filter(Boolean).join(' · ')}
+                              className="px-3 py-1 rounded-full bg-slate-50 border border-slate-200 text-sm text-slate-700 hover:bg-amber-50 hover:border-amber-200 transition-colors"
+                            >
+                              {item.word}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            {data.conjugations.length > 0 && (
+              <div>
+                <button
+                  onClick={() => setShowConjugations(prev => !prev)}
+                  className="text-xs font-bold text-slate-400 uppercase tracking-wider hover:text-amber-600 flex items-center gap-1"
+                >
+                  {t('result.conjugations')} {showConjugations ? '▲' : '▼'}
+                </button>
+                {showConjugations && (
+                  <table className="w-full mt-3 text-sm animate-fade-in">
+                    <tbody>
+                      {data.conjugations.map(c => (
+                        <tr key={c.form} className="border-t border-slate-100">
+                          <td className="py-1.5 text-slate-500">{c.form}</td>
+                          <td className="py-1.5 text-slate-400 serif-cn text-xs">{c.form_cn}</td>
+                          <td className="py-1.5 text-slate-800 font-medium text-right">{c.value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
           </div>
         </div>
       </div>
 
       {/* Visual Content */}
       <div className="flex flex-col h-full">
-        <div className="bg-white rounded-3xl shadow-xl border border-slate-100 overflow-hidden h-full min-h-[300px] flex flex-col relative group">
-          <div className="absolute top-4 left-4 z-10 bg-white/90 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-bold text-slate-500 uppercase tracking-wider shadow-sm">
-             AI Visualization
-          </div>
-          
-          {/* Refresh Button */}
-          {imageUrl && !isImageLoading && (
-            <button 
-              onClick={onRefreshImage}
-              className="absolute top-4 right-4 z-10 bg-white/90 hover:bg-amber-100 text-slate-500 hover:text-amber-700 p-2 rounded-full shadow-sm transition-all active:scale-95"
-              title="Regenerate Image"
-            >
-              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
-              </svg>
-            </button>
-          )}
-
-          {isImageLoading ? (
-             <div className="absolute inset-0 flex items-center justify-center bg-slate-50">
-               <div className="text-center">
-                 <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-amber-500 mb-3"></div>
-                 <p className="text-amber-600/70 text-sm animate-pulse font-medium">Drawing...</p>
-               </div>
-             </div>
-          ) : imageUrl ? (
-            <div className="h-full w-full bg-slate-100 relative overflow-hidden">
-               <img 
-                 src={imageUrl} 
-                 alt={`AI generation of ${data.word}`} 
-                 className="w-full h-full object-cover transition-transform duration-700 group-hover:scale-105"
-               />
-            </div>
-          ) : (
-            <div className="h-full flex items-center justify-center bg-slate-50 text-slate-400">
-              <span className="text-sm">Image not available</span>
-            </div>
-          )}
-          
-          {!isImageLoading && imageUrl && (
-             <div className="absolute bottom-0 left-0 right-0 p-6 bg-gradient-to-t from-black/60 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300">
-                <p className="text-white text-sm font-medium opacity-90">Generated via Imagen</p>
-             </div>
-          )}
-        </div>
+        <ImageGallery
+          word={data.word}
+          gallery={images}
+          isLoading={isImageLoading}
+          onDrawAnother={onRefreshImage}
+          onPin={onPinImage}
+          onDelete={onDeleteImage}
+        />
       </div>
     </div>
   );
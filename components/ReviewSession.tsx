@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { ReviewGrade, WordHistoryItem } from '../types';
+import { previewInterval } from '../utils/srsUtils';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface ReviewSessionProps {
+  items: WordHistoryItem[];
+  onGrade: (item: WordHistoryItem, grade: ReviewGrade) => WordHistoryItem;
+  onPlayAudio: (text: string) => void;
+  onExit: () => void;
+}
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: MessageKey; className: string }[] = [
+  { grade: ReviewGrade.AGAIN, label: 'review.grade.again', className: 'bg-red-50 text-red-600 border-red-100 hover:bg-red-100' },
+  { grade: ReviewGrade.HARD, label: 'review.grade.hard', className: 'bg-orange-50 text-orange-600 border-orange-100 hover:bg-orange-100' },
+  { grade: ReviewGrade.GOOD, label: 'review.grade.good', className: 'bg-emerald-50 text-emerald-600 border-emerald-100 hover:bg-emerald-100' },
+  { grade: ReviewGrade.EASY, label: 'review.grade.easy', className: 'bg-sky-50 text-sky-600 border-sky-100 hover:bg-sky-100' },
+];
+
+export const ReviewSession: React.FC<ReviewSessionProps> = ({ items, onGrade, onPlayAudio, onExit }) => {
+  const t = useTranslation();
+  // The queue is captured once so grading doesn't reshuffle the session underneath the user
+  const [queue, setQueue] = useState<WordHistoryItem[]>(items);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+
+  const current = queue[0];
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!current) return;
+    const updated = onGrade(current, grade);
+    setQueue(prev => {
+      const rest = prev.slice(1);
+      // Forgotten cards come back at the end of this session
+      return grade === ReviewGrade.AGAIN ? [...rest, updated] : rest;
+    });
+    setReviewedCount(count => count + 1);
+    setIsRevealed(false);
+  };
+
+  if (!current) {
+    return (
+      <div className="container mx-auto px-4 max-w-2xl animate-fade-in text-center py-20">
+        <div className="inline-block p-6 rounded-full bg-white shadow-sm border border-amber-50 mb-4">
+          <span className="text-5xl">🎉</span>
+        </div>
+        <h2 className="text-2xl font-bold text-slate-800 mb-2">{t('review.caughtUp')}</h2>
+        <p className="text-slate-500 mb-8">
+          {reviewedCount > 0 ? t('review.reviewedCount', { count: reviewedCount }) : t('review.nothingDue')}
+        </p>
+        <button
+          onClick={onExit}
+          className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold transition-all shadow-md shadow-amber-500/30"
+        >
+          {t('wordbook.backTo')}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 max-w-2xl animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <button onClick={onExit} className="text-sm font-bold text-slate-400 hover:text-amber-600">
+          {t('wordbook.back')}
+        </button>
+        <span className="text-sm font-bold text-amber-700 bg-amber-100 px-3 py-1 rounded-full">
+          {t('review.left', { count: queue.length })}
+        </span>
+      </div>
+
+      <div className="bg-white rounded-3xl shadow-xl border border-amber-100 overflow-hidden relative">
+        <div className="absolute top-0 left-0 w-full h-2 bg-gradient-to-r from-amber-300 via-orange-300 to-amber-300"></div>
+
+        <div className="p-10 text-center">
+          <h2 className="text-5xl font-bold text-slate-800 tracking-tight mb-4">{current.word}</h2>
+
+          {isRevealed ? (
+            <div className="animate-fade-in space-y-4">
+              <div className="flex items-center justify-center gap-3">
+                <span className="text-xl text-amber-600 font-medium bg-amber-50 px-3 py-1 rounded-full border border-amber-100">
+                  {current.reading}
+                </span>
+                <button
+                  onClick={() => onPlayAudio(current.word)}
+                  className="w-10 h-10 rounded-full bg-slate-100 hover:bg-amber-300 hover:text-amber-900 text-slate-600 transition-all flex items-center justify-center"
+                  title={t('result.playWord')}
+                >
+                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072m2.828-9.9a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" /></svg>
+                </button>
+              </div>
+              <p className="serif-cn text-lg text-slate-700">{current.definition}</p>
+              <p className="text-slate-500 text-sm">{current.definition_jp}</p>
+              <div className="bg-amber-50/50 rounded-2xl p-4 border border-amber-100/50 text-left">
+                <p className="text-slate-800 font-medium mb-1">{current.example_jp}</p>
+                <p className="text-slate-500 text-sm serif-cn italic">{current.example_cn}</p>
+              </div>
+            </div>
+          ) : (
+            <p className="text-slate-400 text-sm">{t('review.recallHint')}</p>
+          )}
+        </div>
+
+        <div className="border-t border-slate-100 p-6 bg-slate-50/50">
+          {isRevealed ? (
+            <div className="grid grid-cols-4 gap-3">
+              {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`border rounded-xl py-3 font-bold text-sm transition-all flex flex-col items-center ${className}`}
+                >
+                  {t(label)}
+                  <span className="text-[10px] font-medium opacity-70">{previewInterval(current, grade)}</span>
+                </button>
+              ))}
+            </div>
+          ) : (
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="w-full bg-amber-400 hover:bg-amber-500 text-amber-950 font-bold py-3 rounded-xl transition-colors"
+            >
+              {t('review.showAnswer')}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,45 @@
+import React from 'react';
+import { FuriganaMode, RubySegment } from '../types';
+import { isKnownToken } from '../utils/furiganaUtils';
+
+interface RubyTextProps {
+  segments?: RubySegment[];
+  text: string; // Fallback when no segments are available
+  mode: FuriganaMode;
+  knownKanji: Set<string>;
+  highlighted?: Set<number>; // Segment indices to mark, e.g. target words in a story
+  className?: string;
+}
+
+/**
+ * Renders Japanese text with furigana above kanji tokens.
+ */
+export const RubyText: React.FC<RubyTextProps> = ({ segments, text, mode, knownKanji, highlighted, className }) => {
+  if (!segments || segments.length === 0) {
+    return <span className={className}>{text}</span>;
+  }
+
+  return (
+    <span className={className}>
+      {segments.map((segment, index) => {
+        if (segment.text === '\n') return <br key={index} />;
+
+        const showReading = !!segment.reading && (
+          mode === FuriganaMode.SHOW ||
+          (mode === FuriganaMode.UNKNOWN_ONLY && !isKnownToken(segment.text, knownKanji))
+        );
+        const content = showReading ? (
+          <ruby key={index}>
+            {segment.text}
+            <rt className="text-[0.55em] text-amber-600/80 font-normal">{segment.reading}</rt>
+          </ruby>
+        ) : <React.Fragment key={index}>{segment.text}</React.Fragment>;
+
+        if (!highlighted?.has(index)) return content;
+        return (
+          <mark key={index} className="bg-amber-200/70 text-amber-950 rounded px-0.5">{content}</mark>
+        );
+      })}
+    </span>
+  );
+};
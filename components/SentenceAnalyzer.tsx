@@ -0,0 +1,127 @@
+import React, { useEffect, useState } from 'react';
+import { FuriganaMode, SentenceAnalysis, SentenceToken } from '../types';
+import { RubyText } from './RubyText';
+import { useTranslation } from '../i18n';
+
+interface SentenceAnalyzerProps {
+  analysis: SentenceAnalysis;
+  furiganaMode: FuriganaMode;
+  knownKanji: Set<string>;
+  activeWord: string | null; // The word whose entry is open below the analysis
+  isSaved: (word: string) => boolean;
+  addingWord: string | null;
+  onOpen: (word: string) => void;
+  onAdd: (token: SentenceToken) => void;
+}
+
+/**
+ * The sentence token by token, each with its reading and a gloss underneath.
+ * Tapping a word shows its dictionary form with actions to open or save it.
+ */
+export const SentenceAnalyzer: React.FC<SentenceAnalyzerProps> = ({
+  analysis,
+  furiganaMode,
+  knownKanji,
+  activeWord,
+  isSaved,
+  addingWord,
+  onOpen,
+  onAdd
+}) => {
+  const t = useTranslation();
+  const [selected, setSelected] = useState<number | null>(null);
+
+  useEffect(() => {
+    setSelected(null);
+  }, [analysis]);
+
+  const token = selected === null ? null : analysis.tokens[selected];
+
+  return (
+    <div className="w-full max-w-4xl mx-auto bg-white rounded-3xl shadow-xl border border-amber-100 p-6 mb-8 animate-fade-in space-y-6">
+      <div>
+        <p className="text-xs text-slate-400 mb-3">{t('analyze.hint')}</p>
+        <div className="flex flex-wrap items-end gap-x-1 gap-y-3 leading-loose">
+          {analysis.tokens.map((item, index) =>
+            item.base_form ? (
+              <button
+                key={index}
+                onClick={() => setSelected(selected === index ? null : index)}
+                className={`flex flex-col items-center rounded-lg px-1 transition-colors ${
+                  selected === index ? 'bg-amber-200' : item.base_form === activeWord ? 'bg-amber-100' : 'hover:bg-amber-50'
+                }`}
+              >
+                <RubyText
+                  segments={item.reading ? [{ text: item.text, reading: item.reading }] : [{ text: item.text }]}
+                  text={item.text}
+                  mode={furiganaMode}
+                  knownKanji={knownKanji}
+                  className="text-2xl text-slate-800"
+                />
+                <span className="serif-cn text-[10px] text-slate-400 max-w-[6rem] truncate">{item.gloss_cn}</span>
+              </button>
+            ) : (
+              <span key={index} className="text-2xl text-slate-500 self-start pt-3">{item.text}</span>
+            )
+          )}
+        </div>
+      </div>
+
+      {token && (
+        <div className="bg-amber-50 rounded-2xl border border-amber-100 p-4 flex flex-col md:flex-row md:items-center justify-between gap-4 animate-fade-in">
+          <div>
+            <div className="flex items-baseline gap-3 flex-wrap">
+              <span className="text-2xl font-bold text-slate-800">{token.base_form}</span>
+              {token.part_of_speech && <span className="text-[10px] font-bold text-slate-500 bg-white px-1.5 py-0.5 rounded">{token.part_of_speech}</span>}
+              {token.base_form !== token.text && (
+                <span className="text-xs text-slate-400">{t('analyze.asWritten', { text: token.text })}</span>
+              )}
+            </div>
+            <p className="serif-cn text-sm text-slate-600 mt-1">{token.gloss_cn}</p>
+          </div>
+          <div className="flex gap-2 shrink-0">
+            <button
+              onClick={() => onOpen(token.base_form)}
+              className="bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 px-4 py-2 rounded-lg font-bold text-sm transition-all"
+            >
+              {t('analyze.openEntry')}
+            </button>
+            <button
+              onClick={() => onAdd(token)}
+              disabled={isSaved(token.base_form) || addingWord !== null}
+              className="bg-amber-500 hover:bg-amber-600 text-white px-4 py-2 rounded-lg font-bold text-sm transition-all shadow-md shadow-amber-500/30 disabled:opacity-50"
+            >
+              {isSaved(token.base_form)
+                ? t('result.saved')
+                : addingWord === token.base_form ? t('wordbook.thinking') : t('analyze.addToWordbook')}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {analysis.translation_cn && (
+        <div>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('analyze.translation')}</h3>
+          <p className="serif-cn text-slate-700 leading-relaxed">{analysis.translation_cn}</p>
+        </div>
+      )}
+
+      {analysis.grammar.length > 0 && (
+        <div>
+          <h3 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('analyze.grammar')}</h3>
+          <ul className="space-y-3">
+            {analysis.grammar.map((point, index) => (
+              <li key={index} className="border-l-4 border-amber-300 pl-3">
+                <div className="flex items-baseline gap-3 flex-wrap">
+                  <span className="font-bold text-slate-800">{point.pattern}</span>
+                  {point.excerpt && <span className="text-sm text-amber-700 bg-amber-50 px-2 rounded">{point.excerpt}</span>}
+                </div>
+                <p className="serif-cn text-sm text-slate-600 mt-1">{point.explanation_cn}</p>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useSyncExternalStore } from 'react';
+import { AiCapability, AppSettings, Locale } from '../types';
+import { AI_CAPABILITIES, getUsage, subscribeUsage } from '../services/requestService';
+import { IMAGE_STYLES } from '../services/geminiService';
+import { LOCALES, useTranslation } from '../i18n';
+
+interface SettingsDialogProps {
+  settings: AppSettings;
+  onChange: (patch: Partial<AppSettings>) => void;
+  onClose: () => void;
+}
+
+/**
+ * App settings: UI language, the Chinese script for definitions, the style of word pictures,
+ * and today's AI usage per capability with an optional daily cap for each.
+ */
+export const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, onChange, onClose }) => {
+  const t = useTranslation();
+  const usage = useSyncExternalStore(subscribeUsage, getUsage);
+
+  const handleLimitChange = (capability: AiCapability, value: string) => {
+    const limit = Math.max(0, Math.floor(Number(value) || 0));
+    onChange({ usageLimits: { ...settings.usageLimits, [capability]: limit } });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="text-xl font-bold text-slate-800">{t('settings.title')}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 space-y-6 overflow-y-auto">
+          <label className="block text-xs font-bold text-slate-400 uppercase tracking-wider">
+            {t('settings.language')}
+            <select
+              value={settings.locale}
+              onChange={e => onChange({ locale: e.target.value as Locale })}
+              className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700 normal-case font-normal tracking-normal"
+            >
+              {LOCALES.map(({ locale, label }) => <option key={locale} value={locale}>{label}</option>)}
+            </select>
+          </label>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('settings.chineseScript')}</h4>
+            <div className="flex gap-2">
+              {[false, true].map(traditional => (
+                <button
+                  key={String(traditional)}
+                  onClick={() => onChange({ traditionalChinese: traditional })}
+                  className={`px-4 py-1.5 rounded-full text-sm font-bold transition-all ${
+                    settings.traditionalChinese === traditional ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-500 hover:bg-amber-100'
+                  }`}
+                >
+                  {t(traditional ? 'settings.traditional' : 'settings.simplified')}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">{t('settings.chineseScriptNote')}</p>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('settings.imageStyle')}</h4>
+            <div className="flex flex-wrap gap-2">
+              {IMAGE_STYLES.map(style => (
+                <button
+                  key={style}
+                  onClick={() => onChange({ imageStyle: style })}
+                  className={`px-4 py-1.5 rounded-full text-sm font-bold transition-all ${
+                    settings.imageStyle === style ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-500 hover:bg-amber-100'
+                  }`}
+                >
+                  {t(`imageStyle.${style}`)}
+                </button>
+              ))}
+            </div>
+            <label className="block text-xs text-slate-500 mt-3">
+              {t('settings.promptSuffix')}
+              <input
+                type="text"
+                value={settings.imagePromptSuffix}
+                onChange={e => onChange({ imagePromptSuffix: e.target.value })}
+                placeholder={t('settings.promptSuffixPlaceholder')}
+                maxLength={200}
+                className="mt-1 w-full border border-slate-200 rounded-lg px-3 py-2 text-sm text-slate-700"
+              />
+            </label>
+            <p className="text-xs text-slate-400 mt-2">{t('settings.imageStyleNote')}</p>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-1">{t('settings.usage')}</h4>
+            <p className="text-xs text-slate-400 mb-4">{t('settings.usageNote')}</p>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs text-slate-400">
+                  <th className="font-medium pb-2"></th>
+                  <th className="font-medium pb-2 text-right">{t('settings.used')}</th>
+                  <th className="font-medium pb-2 text-right">{t('settings.dailyLimit')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {AI_CAPABILITIES.map(capability => {
+                  const count = usage.counts[capability] ?? 0;
+                  const limit = settings.usageLimits[capability] ?? 0;
+                  return (
+                    <tr key={capability} className="border-t border-slate-100">
+                      <td className="py-2 text-slate-700">{t(`capability.${capability}`)}</td>
+                      <td className={`py-2 text-right tabular-nums font-bold ${limit && count >= limit ? 'text-red-500' : 'text-slate-600'}`}>
+                        {count}
+                      </td>
+                      <td className="py-2 text-right">
+                        <input
+                          type="number"
+                          min={0}
+                          value={limit}
+                          onChange={e => handleLimitChange(capability, e.target.value)}
+                          className="w-20 border border-slate-200 rounded-lg px-2 py-1 text-sm text-slate-700 text-right"
+                        />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { SavedStory } from '../types';
+import { storiesForWord } from '../utils/storyUtils';
+import { useTranslation } from '../i18n';
+
+interface StoryArchiveProps {
+  stories: SavedStory[];
+  initialWord: string | null; // Opens filtered to the stories that use this word
+  onOpen: (story: SavedStory) => void;
+  onDelete: (story: SavedStory) => void;
+  onClose: () => void;
+}
+
+/**
+ * Every saved story, newest first, optionally narrowed to the stories that use one word.
+ */
+export const StoryArchive: React.FC<StoryArchiveProps> = ({ stories, initialWord, onOpen, onDelete, onClose }) => {
+  const t = useTranslation();
+  const [word, setWord] = useState<string | null>(initialWord);
+  const shown = word ? storiesForWord(stories, word) : stories;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('stories.title')}</h3>
+            <p className="text-slate-500 text-sm">
+              {word ? (
+                <>
+                  {t('stories.using', { word })}
+                  <button onClick={() => setWord(null)} className="ml-2 text-xs font-bold text-amber-600 hover:text-amber-800">{t('stories.showAll')}</button>
+                </>
+              ) : stories.length === 1 ? t('stories.countOne') : t('stories.count', { count: stories.length })}
+            </p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {shown.length === 0 ? (
+            <p className="text-center text-slate-400 py-8">{t('stories.empty')}</p>
+          ) : (
+            <ul className="space-y-3">
+              {shown.map(story => (
+                <li key={story.id} className="border border-slate-100 rounded-2xl p-4 hover:border-amber-200 transition-colors">
+                  <div className="flex items-start justify-between gap-3">
+                    <button onClick={() => onOpen(story)} className="text-left min-w-0">
+                      <p className="font-bold text-slate-800 hover:text-amber-700 truncate">{story.title}</p>
+                      <p className="text-xs text-slate-400">
+                        {new Date(story.createdAt).toLocaleDateString()} · {t('stories.lines', { count: story.lines.length })}
+                        {story.options.level && ` · ${story.options.level}`}
+                      </p>
+                    </button>
+                    <button
+                      onClick={() => onDelete(story)}
+                      className="text-slate-300 hover:text-red-500 shrink-0"
+                      title={t('stories.delete')}
+                    >
+                      <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" /></svg>
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {story.words.map(w => (
+                      <button
+                        key={w}
+                        onClick={() => setWord(w)}
+                        className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${
+                          w === word ? 'bg-amber-500 text-white' : 'bg-amber-100 text-amber-800 hover:bg-amber-200'
+                        }`}
+                      >
+                        {w}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
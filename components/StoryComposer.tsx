@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { JlptLevel, StoryGenre, StoryLength, StoryOptions, WordHistoryItem } from '../types';
+import { isWeakWord } from '../utils/quizUtils';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface StoryComposerProps {
+  words: WordHistoryItem[];
+  maxWords: number;
+  initialOptions: StoryOptions;
+  onGenerate: (words: WordHistoryItem[], options: StoryOptions) => void;
+  onClose: () => void;
+}
+
+// Empty lets the model pick a level from the words
+const LEVELS: JlptLevel[] = ['', 'N5', 'N4', 'N3', 'N2', 'N1'];
+
+const LENGTHS: { value: StoryLength; label: MessageKey }[] = [
+  { value: StoryLength.SHORT, label: 'composer.length.short' },
+  { value: StoryLength.MEDIUM, label: 'composer.length.medium' },
+  { value: StoryLength.LONG, label: 'composer.length.long' },
+];
+
+const GENRES: { value: StoryGenre; label: MessageKey }[] = [
+  { value: StoryGenre.SLICE_OF_LIFE, label: 'composer.genre.sliceOfLife' },
+  { value: StoryGenre.COMEDY, label: 'composer.genre.comedy' },
+  { value: StoryGenre.DIALOGUE, label: 'composer.genre.dialogue' },
+  { value: StoryGenre.MYSTERY, label: 'composer.genre.mystery' },
+  { value: StoryGenre.FANTASY, label: 'composer.genre.fantasy' },
+  { value: StoryGenre.ROMANCE, label: 'composer.genre.romance' },
+];
+
+const chipClass = (isActive: boolean) =>
+  `px-3 py-1 rounded-full text-sm font-bold transition-all ${
+    isActive ? 'bg-amber-950 text-amber-100' : 'bg-slate-100 text-slate-500 hover:bg-amber-100 hover:text-amber-800'
+  }`;
+
+/**
+ * Options for a new story: level, length, genre and which of the shown words to use.
+ */
+export const StoryComposer: React.FC<StoryComposerProps> = ({ words, maxWords, initialOptions, onGenerate, onClose }) => {
+  const t = useTranslation();
+  const [options, setOptions] = useState<StoryOptions>(initialOptions);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(words.slice(0, maxWords).map(w => w.id)));
+
+  const selectedWords = words.filter(w => selected.has(w.id));
+  const isFull = selected.size >= maxWords;
+  const weakWords = words.filter(isWeakWord);
+
+  const toggle = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else if (next.size < maxWords) next.add(id);
+      return next;
+    });
+  };
+
+  const selectOnly = (items: WordHistoryItem[]) => setSelected(new Set(items.slice(0, maxWords).map(w => w.id)));
+
+  const selectRandom = () => {
+    const shuffled = [...words].sort(() => Math.random() - 0.5);
+    selectOnly(shuffled.slice(0, Math.min(maxWords, 8)));
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 animate-fade-in">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden flex flex-col">
+        <div className="p-6 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-bold text-slate-800">{t('composer.title')}</h3>
+            <p className="text-slate-500 text-sm">{t('composer.subtitle')}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600 text-2xl leading-none">×</button>
+        </div>
+
+        <div className="p-6 space-y-5 overflow-y-auto">
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('composer.level')}</h4>
+            <div className="flex flex-wrap gap-2">
+              {LEVELS.map(level => (
+                <button key={level} onClick={() => setOptions(prev => ({ ...prev, level }))} className={chipClass(options.level === level)}>
+                  {level || t('composer.levelAuto')}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('composer.length')}</h4>
+            <div className="flex flex-wrap gap-2">
+              {LENGTHS.map(length => (
+                <button key={length.value} onClick={() => setOptions(prev => ({ ...prev, length: length.value }))} className={chipClass(options.length === length.value)}>
+                  {t(length.label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2">{t('composer.genre')}</h4>
+            <div className="flex flex-wrap gap-2">
+              {GENRES.map(genre => (
+                <button key={genre.value} onClick={() => setOptions(prev => ({ ...prev, genre: genre.value }))} className={chipClass(options.genre === genre.value)}>
+                  {t(genre.label)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-bold text-slate-400 uppercase tracking-wider">
+                {t('composer.words', { selected: selected.size, max: Math.min(maxWords, words.length) })}
+              </h4>
+              <div className="flex gap-3 text-xs font-bold text-amber-600">
+                <button onClick={() => selectOnly(words)} className="hover:text-amber-800">{t('composer.newest')}</button>
+                {weakWords.length > 0 && <button onClick={() => selectOnly(weakWords)} className="hover:text-amber-800">{t('composer.weak')}</button>}
+                <button onClick={selectRandom} className="hover:text-amber-800">{t('composer.random')}</button>
+                <button onClick={() => setSelected(new Set())} className="hover:text-amber-800">{t('composer.none')}</button>
+              </div>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {words.map(word => {
+                const isSelected = selected.has(word.id);
+                return (
+                  <button
+                    key={word.id}
+                    onClick={() => toggle(word.id)}
+                    disabled={!isSelected && isFull}
+                    title={word.definition}
+                    className={`px-3 py-1 rounded-lg text-sm font-medium border transition-all disabled:opacity-40 ${
+                      isSelected ? 'bg-amber-100 border-amber-300 text-amber-900' : 'bg-white border-slate-200 text-slate-500 hover:border-amber-300'
+                    }`}
+                  >
+                    {word.word}
+                  </button>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-6 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={() => onGenerate(selectedWords, options)}
+            disabled={selectedWords.length === 0}
+            className="bg-amber-500 hover:bg-amber-600 text-white px-6 py-3 rounded-xl font-bold text-sm transition-all shadow-md shadow-amber-500/30 disabled:opacity-50"
+          >
+            {t('wordbook.createStory')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useMemo, useState, useSyncExternalStore } from 'react';
+import { FuriganaMode, SavedStory } from '../types';
+import { RubyText } from './RubyText';
+import { segmentsToText } from '../utils/furiganaUtils';
+import { findHighlightedSegments } from '../utils/storyUtils';
+import { AudioClip, downloadSpeech, getPlaybackState, playClips, stopPlayback, subscribePlayback } from '../services/audioEngine';
+import { describeAiError } from '../services/aiErrors';
+import { useTranslation } from '../i18n';
+
+interface StoryViewProps {
+  story: SavedStory;
+  furiganaMode: FuriganaMode;
+  knownKanji: Set<string>;
+  onWordClick: (word: string) => void;
+}
+
+/**
+ * A story line by line: target words highlighted, translation under each line, and Japanese-only audio per line.
+ */
+export const StoryView: React.FC<StoryViewProps> = ({ story, furiganaMode, knownKanji, onWordClick }) => {
+  const t = useTranslation();
+  const [showTranslation, setShowTranslation] = useState(true);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const playback = useSyncExternalStore(subscribePlayback, getPlaybackState);
+
+  const highlights = useMemo(() => story.lines.map(findHighlightedSegments), [story]);
+  const clips: AudioClip[] = useMemo(
+    () => story.lines.map((line, index) => ({ id: `${story.id}:${index}`, text: segmentsToText(line.japanese) })),
+    [story]
+  );
+
+  const isActive = playback.status !== 'idle' && !!playback.clip && clips.some(clip => clip.id === playback.clip!.id);
+  const playingLine = isActive ? clips.findIndex(clip => clip.id === playback.clip!.id) : null;
+  const isPlayingAll = isActive && playback.queue.length > 0;
+
+  const handlePlayAll = () => {
+    if (isPlayingAll) stopPlayback();
+    else playClips(clips);
+  };
+
+  const handleDownload = async () => {
+    setIsDownloading(true);
+    try {
+      await downloadSpeech(clips.map(clip => clip.text), story.title);
+    } catch (err) {
+      console.error("Story download failed", err);
+      alert(describeAiError(err, t('story.downloadFailed')));
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  return (
+    <div className="animate-fade-in">
+      <div className="flex items-start justify-between gap-4 mb-6">
+        <h3 className="text-2xl font-bold text-slate-800">{story.title}</h3>
+        <div className="flex items-center gap-4 shrink-0">
+          <button
+            onClick={() => setShowTranslation(prev => !prev)}
+            className="text-xs font-bold text-slate-400 hover:text-amber-600"
+          >
+            {showTranslation ? t('story.hideTranslation') : t('story.showTranslation')}
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={isDownloading}
+            className="text-xs font-bold text-slate-400 hover:text-amber-600 disabled:opacity-50"
+            title={t('story.download')}
+          >
+            {isDownloading ? t('story.preparing') : '⬇ .wav'}
+          </button>
+          <button
+            onClick={handlePlayAll}
+            className="text-amber-600 hover:text-amber-800 text-sm flex items-center gap-2 font-bold disabled:opacity-50"
+          >
+            {isPlayingAll ? (
+              <>
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z"/></svg>
+                {t('story.stop')}
+              </>
+            ) : (
+              <>
+                <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+                {t('story.listen')}
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+
+      <ol className="space-y-4">
+        {story.lines.map((line, index) => (
+          <li
+            key={index}
+            className={`flex gap-3 rounded-xl p-2 -mx-2 transition-colors ${playingLine === index ? 'bg-amber-50' : ''}`}
+          >
+            <button
+              onClick={() => playClips([clips[index]])}
+              className="mt-2 w-8 h-8 shrink-0 flex items-center justify-center rounded-full bg-slate-100 hover:bg-amber-300 hover:text-amber-900 text-slate-500 transition-all disabled:opacity-50"
+              title={t('story.playLine')}
+            >
+              {playingLine === index && playback.status === 'loading' ? (
+                <div className="w-3 h-3 border-2 border-current border-t-transparent rounded-full animate-spin"></div>
+              ) : (
+                <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z"/></svg>
+              )}
+            </button>
+            <div className="min-w-0">
+              <p className="font-medium text-slate-700 text-lg leading-[2.5]">
+                <RubyText segments={line.japanese} text="" mode={furiganaMode} knownKanji={knownKanji} highlighted={highlights[index]} />
+              </p>
+              {showTranslation && <p className="serif-cn text-slate-500 leading-relaxed">{line.chinese}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+
+      {story.words.length > 0 && (
+        <div className="mt-6 pt-4 border-t border-slate-100 flex flex-wrap gap-2">
+          {story.words.map(word => (
+            <button
+              key={word}
+              onClick={() => onWordClick(word)}
+              className="text-xs font-bold bg-amber-100 text-amber-800 px-2 py-1 rounded-md hover:bg-amber-200"
+            >
+              {word}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
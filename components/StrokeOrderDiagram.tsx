@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { KANJI_CANVAS_SIZE } from '../data/kanjiStrokes';
+import { useTranslation } from '../i18n';
+
+interface StrokeOrderDiagramProps {
+  strokes: string[]; // SVG paths in writing order
+}
+
+const STROKE_MS = 600;
+
+/**
+ * Draws the strokes one after another, with the whole character faint underneath as a guide.
+ */
+export const StrokeOrderDiagram: React.FC<StrokeOrderDiagramProps> = ({ strokes }) => {
+  const t = useTranslation();
+  // Number of strokes drawn so far; the last of them is the one animating
+  const [drawn, setDrawn] = useState(0);
+  const [run, setRun] = useState(0);
+
+  useEffect(() => {
+    setDrawn(0);
+    let count = 0;
+    const timer = window.setInterval(() => {
+      count++;
+      setDrawn(count);
+      if (count >= strokes.length) window.clearInterval(timer);
+    }, STROKE_MS);
+    return () => window.clearInterval(timer);
+  }, [strokes, run]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <svg
+        viewBox={`0 0 ${KANJI_CANVAS_SIZE} ${KANJI_CANVAS_SIZE}`}
+        className="w-40 h-40 bg-amber-50/50 rounded-2xl border border-amber-100"
+        fill="none"
+        strokeLinecap="round"
+        strokeLinejoin="round"
+      >
+        {/* Practice-paper guides */}
+        <path d={`M${KANJI_CANVAS_SIZE / 2},0 V${KANJI_CANVAS_SIZE} M0,${KANJI_CANVAS_SIZE / 2} H${KANJI_CANVAS_SIZE}`} stroke="#fde68a" strokeWidth={0.5} strokeDasharray="2 2" />
+        {strokes.map((d, i) => <path key={`guide-${i}`} d={d} stroke="#e2e8f0" strokeWidth={5} />)}
+        {strokes.map((d, i) => (
+          <path
+            key={`stroke-${run}-${i}`}
+            d={d}
+            pathLength={1}
+            stroke={i === drawn - 1 ? '#d97706' : '#1e293b'}
+            strokeWidth={5}
+            strokeDasharray={1}
+            style={{ strokeDashoffset: i < drawn ? 0 : 1, transition: `stroke-dashoffset ${STROKE_MS * 0.8}ms ease-out` }}
+          />
+        ))}
+      </svg>
+      <button
+        onClick={() => setRun(prev => prev + 1)}
+        className="text-xs font-bold text-amber-600 hover:text-amber-700"
+      >
+        ↻ {t('kanji.replay')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { WordHistoryItem } from '../types';
+import { parseTags } from '../utils/wordbookUtils';
+import { useTranslation } from '../i18n';
+
+interface TagEditorProps {
+  item: WordHistoryItem;
+  folders: string[];
+  onSave: (tags: string[], folder: string | undefined) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Inline editor for an entry's tags and folder.
+ */
+export const TagEditor: React.FC<TagEditorProps> = ({ item, folders, onSave, onCancel }) => {
+  const t = useTranslation();
+  const [tagsInput, setTagsInput] = useState((item.tags ?? []).join(', '));
+  const [folder, setFolder] = useState(item.folder ?? '');
+  const listId = `folders-${item.id}`;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(parseTags(tagsInput), folder.trim() || undefined);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 flex flex-col md:flex-row gap-2 animate-fade-in">
+      <input
+        autoFocus
+        value={tagsInput}
+        onChange={e => setTagsInput(e.target.value)}
+        placeholder={t('tags.placeholder')}
+        className="flex-grow border border-slate-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-amber-400"
+      />
+      <input
+        value={folder}
+        onChange={e => setFolder(e.target.value)}
+        placeholder={t('tags.folder')}
+        list={listId}
+        className="md:w-40 border border-slate-200 rounded-lg px-3 py-1.5 text-sm focus:outline-none focus:border-amber-400"
+      />
+      <datalist id={listId}>
+        {folders.map(f => <option key={f} value={f} />)}
+      </datalist>
+      <div className="flex gap-2">
+        <button type="submit" className="bg-amber-400 hover:bg-amber-500 text-amber-950 px-3 py-1.5 rounded-lg font-bold text-sm">{t('tags.save')}</button>
+        <button type="button" onClick={onCancel} className="text-slate-400 hover:text-slate-600 px-2 text-sm font-bold">{t('tags.cancel')}</button>
+      </div>
+    </form>
+  );
+};
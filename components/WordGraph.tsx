@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { WordHistoryItem } from '../types';
+import { GraphEdgeKind, buildWordGraph, layoutWordGraph } from '../utils/graphUtils';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface WordGraphProps {
+  items: WordHistoryItem[];
+  onLookUp: (word: string) => void;
+}
+
+const WIDTH = 800;
+const HEIGHT = 560;
+
+// The layout is quadratic in the number of words; beyond this it is slow and unreadable anyway
+const GRAPH_NODE_LIMIT = 80;
+
+const EDGE_STYLES: Record<GraphEdgeKind, { color: string; dash?: string; label: MessageKey }> = {
+  synonym: { color: '#10b981', label: 'result.synonyms' },
+  antonym: { color: '#f43f5e', label: 'result.antonyms' },
+  collocation: { color: '#0ea5e9', label: 'result.collocations' },
+  phrase: { color: '#8b5cf6', label: 'result.phrases' },
+  kanji: { color: '#cbd5e1', dash: '4 4', label: 'graph.sharedKanji' },
+};
+
+/**
+ * The Wordbook as a network: words joined by dictionary relations and shared kanji.
+ * Hovering a word highlights its neighbours; clicking looks it up.
+ */
+export const WordGraph: React.FC<WordGraphProps> = ({ items, onLookUp }) => {
+  const t = useTranslation();
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  const graph = useMemo(() => buildWordGraph(items.slice(0, GRAPH_NODE_LIMIT)), [items]);
+  const positions = useMemo(() => layoutWordGraph(graph, WIDTH, HEIGHT), [graph]);
+
+  const neighbours = useMemo(() => {
+    if (!hovered) return null;
+    const set = new Set([hovered]);
+    graph.edges.forEach(edge => {
+      if (edge.source === hovered) set.add(edge.target);
+      if (edge.target === hovered) set.add(edge.source);
+    });
+    return set;
+  }, [graph, hovered]);
+
+  return (
+    <div className="bg-white rounded-3xl shadow-sm border border-slate-100 p-4 animate-fade-in">
+      <div className="flex flex-wrap gap-4 justify-center text-xs text-slate-500 mb-2">
+        {(Object.keys(EDGE_STYLES) as GraphEdgeKind[]).map(kind => (
+          <span key={kind} className="flex items-center gap-1.5">
+            <svg width="20" height="6"><line x1="0" y1="3" x2="20" y2="3" stroke={EDGE_STYLES[kind].color} strokeWidth={2} strokeDasharray={EDGE_STYLES[kind].dash} /></svg>
+            {t(EDGE_STYLES[kind].label)}
+          </span>
+        ))}
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto select-none">
+        {graph.edges.map(edge => {
+          const a = positions.get(edge.source)!;
+          const b = positions.get(edge.target)!;
+          const style = EDGE_STYLES[edge.kind];
+          const isDimmed = !!hovered && edge.source !== hovered && edge.target !== hovered;
+          return (
+            <g key={`${edge.source}-${edge.target}`} opacity={isDimmed ? 0.15 : 1}>
+              <line x1={a.x} y1={a.y} x2={b.x} y2={b.y} stroke={style.color} strokeWidth={edge.kind === 'kanji' ? 1.5 : 2.5} strokeDasharray={style.dash} />
+              {edge.label && !isDimmed && (
+                <text x={(a.x + b.x) / 2} y={(a.y + b.y) / 2} fontSize={11} textAnchor="middle" fill="#94a3b8">{edge.label}</text>
+              )}
+            </g>
+          );
+        })}
+        {graph.nodes.map(node => {
+          const p = positions.get(node.word)!;
+          const isDimmed = !!neighbours && !neighbours.has(node.word);
+          return (
+            <g
+              key={node.word}
+              transform={`translate(${p.x},${p.y})`}
+              opacity={isDimmed ? 0.25 : 1}
+              className="cursor-pointer"
+              onMouseEnter={() => setHovered(node.word)}
+              onMouseLeave={() => setHovered(null)}
+              onClick={() => onLookUp(node.word)}
+            >
+              <title>{`${node.reading} · ${node.definition}`}</title>
+              <rect
+                x={-(node.word.length * 9 + 12)}
+                y={-15}
+                width={node.word.length * 18 + 24}
+                height={30}
+                rx={15}
+                fill={node.word === hovered ? '#fbbf24' : '#fffbeb'}
+                stroke="#fcd34d"
+              />
+              <text textAnchor="middle" dy={6} fontSize={16} fontWeight={700} fill="#1e293b">{node.word}</text>
+            </g>
+          );
+        })}
+      </svg>
+
+      {graph.edges.length === 0 && <p className="text-center text-sm text-slate-400 mt-2">{t('graph.noLinks')}</p>}
+      {items.length > GRAPH_NODE_LIMIT && (
+        <p className="text-center text-xs text-slate-400 mt-2">{t('graph.limited', { count: GRAPH_NODE_LIMIT })}</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { WordbookFilter, WordbookSort } from '../types';
+import { UNFILED_FOLDER } from '../utils/wordbookUtils';
+import { MessageKey, useTranslation } from '../i18n';
+
+interface WordbookToolbarProps {
+  filter: WordbookFilter;
+  onChange: (filter: WordbookFilter) => void;
+  tags: string[];
+  folders: string[];
+}
+
+const SORT_LABELS: Record<WordbookSort, MessageKey> = {
+  [WordbookSort.NEWEST]: 'toolbar.sort.newest',
+  [WordbookSort.OLDEST]: 'toolbar.sort.oldest',
+  [WordbookSort.ALPHABETICAL]: 'toolbar.sort.alphabetical',
+  [WordbookSort.KANA]: 'toolbar.sort.kana',
+};
+
+export const WordbookToolbar: React.FC<WordbookToolbarProps> = ({ filter, onChange, tags, folders }) => {
+  const t = useTranslation();
+  return (
+    <div className="bg-white rounded-2xl border border-slate-100 shadow-sm p-4 mb-6 space-y-3">
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-grow">
+          <svg className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" /></svg>
+          <input
+            type="search"
+            value={filter.query}
+            onChange={e => onChange({ ...filter, query: e.target.value })}
+            placeholder={t('toolbar.search')}
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-slate-200 text-sm focus:outline-none focus:border-amber-400"
+          />
+        </div>
+        <select
+          value={filter.folder ?? ''}
+          onChange={e => onChange({ ...filter, folder: e.target.value || null })}
+          className="border border-slate-200 rounded-lg px-3 py-2 text-sm bg-white text-slate-600"
+        >
+          <option value="">{t('toolbar.allFolders')}</option>
+          {folders.map(folder => <option key={folder} value={folder}>📁 {folder}</option>)}
+          <option value={UNFILED_FOLDER}>{t('toolbar.unfiled')}</option>
+        </select>
+        <select
+          value={filter.sort}
+          onChange={e => onChange({ ...filter, sort: e.target.value as WordbookSort })}
+          className="border border-slate-200 rounded-lg px-3 py-2 text-sm bg-white text-slate-600"
+        >
+          {Object.values(WordbookSort).map(sort => <option key={sort} value={sort}>{t(SORT_LABELS[sort])}</option>)}
+        </select>
+      </div>
+      {tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => onChange({ ...filter, tag: filter.tag === tag ? null : tag })}
+              className={`px-2.5 py-0.5 rounded-full text-xs font-bold transition-all ${
+                filter.tag === tag ? 'bg-amber-500 text-white' : 'bg-amber-50 text-amber-700 hover:bg-amber-100'
+              }`}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
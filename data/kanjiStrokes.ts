@@ -0,0 +1,35 @@
+/**
+ * Stroke-order data from KanjiVG (https://kanjivg.tagaini.net, © Ulrich Apel, CC BY-SA 3.0):
+ * one SVG path per stroke, in writing order, on a 109×109 canvas (KANJI_CANVAS_SIZE).
+ *
+ * The Jōyō set is a static file, public/kanjivg/strokes.json, built by `npm run kanji-strokes`.
+ * It is fetched the first time a kanji breakdown opens, so it stays out of the main bundle.
+ * The service worker precaches it on install, so stroke order also works offline.
+ */
+
+export const KANJI_CANVAS_SIZE = 109;
+
+const STROKES_URL = '/kanjivg/strokes.json';
+
+interface StrokeFile {
+  attribution: string;
+  size: number;
+  strokes: Record<string, string[]>;
+}
+
+let strokesPromise: Promise<Record<string, string[]>> | null = null;
+
+/**
+ * Every kanji's strokes, loaded once. Rejects if the file can't be fetched; a later call tries again.
+ */
+export const loadKanjiStrokes = (): Promise<Record<string, string[]>> => {
+  if (strokesPromise) return strokesPromise;
+  strokesPromise = fetch(STROKES_URL)
+    .then(response => {
+      if (!response.ok) throw new Error(`Stroke data unavailable (${response.status})`);
+      return response.json() as Promise<StrokeFile>;
+    })
+    .then(file => file.strokes);
+  strokesPromise.catch(() => { strokesPromise = null; });
+  return strokesPromise;
+};
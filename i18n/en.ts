@@ -0,0 +1,388 @@
+/**
+ * English UI strings. This catalog defines the message keys; every other locale must translate all of them.
+ * `{name}` placeholders are filled in by translate().
+ */
+export const en = {
+  'app.tagline': 'Little Yellow Book',
+  'app.footer': 'Powered by Google Gemini & Imagen',
+
+  'header.settings': 'Settings',
+  'header.wordbook': 'Wordbook',
+  'header.dueToday': '{count} due today',
+  'header.login': 'Login',
+  'header.syncFailed': 'Sync failed, tap to retry',
+  'header.lastSynced': 'Last synced {time}',
+  'header.syncNow': 'Sync now',
+  'header.exit': 'Exit',
+
+  'search.placeholder': 'Type Japanese or Chinese...',
+  'search.uploadImage': 'Look up text in a photo',
+  'search.liveScan': 'Live camera scan',
+  'search.submit': 'Search',
+  'search.loading': 'Consulting the Little Yellow Book...',
+  'search.empty': 'Start your journey by searching or uploading.',
+  'search.failed': 'Failed to find the word. Please try again.',
+  'search.ocrFailed': 'Could not read text from image.',
+  'search.modeJpToCn': 'Japanese → Chinese',
+  'search.modeCnToJp': 'Chinese → Japanese',
+  'search.placeholderCnToJp': 'Type a Chinese word to say it in Japanese...',
+  'search.candidatesFailed': 'Could not find Japanese equivalents. Please try again.',
+  'search.modeAnalyze': 'Analyze sentence',
+  'search.placeholderAnalyze': 'Paste a Japanese sentence or paragraph...',
+  'search.analyzeFailed': 'Could not analyze this text. Please try again.',
+
+  'wordbook.title': 'My Wordbook',
+  'wordbook.showing': 'Showing {shown} of {total} words',
+  'wordbook.memorized': 'Memorized {count} words',
+  'wordbook.review': '🃏 Review',
+  'wordbook.quiz': '✏️ Quiz',
+  'wordbook.exportCsv': 'Export CSV',
+  'wordbook.import': 'Import',
+  'wordbook.anki': 'Anki Deck',
+  'wordbook.stories': '📚 Stories',
+  'wordbook.createStory': '✨ Create Story',
+  'wordbook.createStoryHint': 'Pick up to {count} of the words shown',
+  'wordbook.thinking': 'Thinking...',
+  'wordbook.storyHeading': 'AI Generated Scenario',
+  'wordbook.closeStory': 'Close story',
+  'wordbook.generatingStory': '✨ Wringing out some creativity...',
+  'wordbook.storyFailed': 'Failed to generate story.',
+  'wordbook.empty': 'No words saved yet.',
+  'wordbook.noMatches': 'No words match your filters.',
+  'wordbook.list': 'List',
+  'wordbook.graph': 'Graph',
+  'wordbook.storiesForWord': 'Stories using this word',
+  'wordbook.tags': 'Tags & Folder',
+  'wordbook.details': 'View Details',
+  'wordbook.playAudio': 'Play Audio',
+  'wordbook.remove': 'Remove',
+  'wordbook.confirmRemove': 'Remove "{word}" from your Wordbook?',
+  'wordbook.confirmDeleteStory': 'Delete the story "{title}"?',
+  'wordbook.addedAll': 'Added {count} words to your Wordbook.',
+  'wordbook.addedSome': 'Added {added} of {total} words.',
+  'wordbook.someFailed': 'Some could not be looked up.',
+  'wordbook.back': '← Wordbook',
+  'wordbook.backTo': 'Back to Wordbook',
+
+  'result.playWord': 'Play Pronunciation',
+  'result.practiseWord': 'Practise saying this word',
+  'result.sayIt': 'Say it',
+  'result.jlptLevel': 'JLPT level',
+  'result.saveSenseHint': 'Save this sense to the Wordbook',
+  'result.saved': 'Saved',
+  'result.saveSense': 'Save this sense',
+  'result.definitionJp': 'Japanese Definition',
+  'result.definitionCn': 'Chinese Definition',
+  'result.example': 'Example',
+  'result.practiseSentence': 'Practise saying this sentence',
+  'result.loadingAudio': 'Loading audio...',
+  'result.readAloud': 'Read Aloud',
+  'result.usageNotes': 'Usage Notes',
+  'result.conjugations': 'Conjugations',
+  'result.synonyms': 'Synonyms',
+  'result.antonyms': 'Antonyms',
+  'result.collocations': 'Collocations',
+  'result.phrases': 'Set phrases',
+  'result.visualization': 'AI Visualization',
+  'result.regenerateImage': 'Regenerate Image',
+  'result.drawing': 'Drawing...',
+  'result.imageAlt': 'AI generation of {word}',
+  'result.imageUnavailable': 'Image not available',
+  'result.imageCredit': 'Generated via Imagen',
+  'result.pinImage': 'Pin as favorite',
+  'result.unpinImage': 'Unpin favorite',
+  'result.deleteImage': 'Delete picture',
+  'result.confirmDeleteImage': 'Delete this picture?',
+  'result.showImage': 'Show picture {index}',
+  'result.galleryHint': 'The pinned picture appears in your Wordbook and Anki decks. Up to {count} are kept per word.',
+
+  'candidates.title': 'Japanese for "{query}"',
+  'candidates.hint': 'Most natural first. Pick one to open its full entry.',
+  'candidates.falseFriendsTitle': '⚠️ False friends',
+  'candidates.falseFriendsHint': 'Same kanji, different meaning in Japanese: don\'t use these to say "{query}".',
+  'candidates.tag.common': 'Common',
+  'candidates.tag.formal': 'Formal',
+  'candidates.tag.casual': 'Casual',
+  'candidates.tag.written': 'Written',
+  'candidates.tag.spoken': 'Spoken',
+  'candidates.tag.literary': 'Literary',
+  'candidates.tag.false_friend': '⚠️ False friend',
+
+  'analyze.hint': 'Tap a word to see its dictionary form, open its entry or save it with this sentence.',
+  'analyze.asWritten': 'written {text}',
+  'analyze.openEntry': 'Open entry',
+  'analyze.addToWordbook': '+ Wordbook',
+  'analyze.alreadySaved': '"{word}" is already in your Wordbook.',
+  'analyze.translation': 'Translation',
+  'analyze.grammar': 'Grammar points',
+
+  'kanji.title': 'Kanji',
+  'kanji.onyomi': 'On\'yomi',
+  'kanji.kunyomi': 'Kun\'yomi',
+  'kanji.radical': 'Radical',
+  'kanji.components': 'Components',
+  'kanji.strokes': 'Strokes',
+  'kanji.replay': 'Replay',
+  'kanji.noStrokeData': 'No stroke order for this character yet',
+  'kanji.strokeCredit': 'Stroke order: KanjiVG, CC BY-SA 3.0',
+  'kanji.wordbookWords': 'In your Wordbook',
+  'kanji.noWordbookWords': 'No other Wordbook words use this kanji yet.',
+  'kanji.loading': 'Looking up the characters...',
+  'kanji.failed': 'Could not load the kanji details.',
+
+  'graph.sharedKanji': 'Shared kanji',
+  'graph.noLinks': 'No connections yet: words link up when they share a kanji or the dictionary lists them as related.',
+  'graph.limited': 'Showing the {count} most recent words',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.chineseScript': 'Chinese in definitions and translations',
+  'settings.simplified': 'Simplified',
+  'settings.traditional': 'Traditional',
+  'settings.chineseScriptNote': 'Applies to new lookups and stories; words already in your Wordbook keep theirs.',
+  'settings.usage': 'AI usage today',
+  'settings.usageNote': 'Cached results are free. Set a daily limit to cap requests; 0 means no limit.',
+  'settings.used': 'Used',
+  'settings.dailyLimit': 'Daily limit',
+  'settings.imageStyle': 'Picture style',
+  'settings.imageStyleNote': 'Used for new pictures; the ones you have are kept.',
+  'settings.promptSuffix': 'Extra prompt',
+  'settings.promptSuffixPlaceholder': 'e.g. pencil sketch, black and white',
+  'imageStyle.random': 'Surprise me',
+  'imageStyle.watercolor': 'Watercolor',
+  'imageStyle.anime': 'Anime',
+  'imageStyle.pastel': 'Pastel',
+  'imageStyle.ukiyoe': 'Ukiyo-e',
+  'imageStyle.ghibli': 'Studio Ghibli',
+
+  'capability.definition': 'Word lookups',
+  'capability.ocr': 'Text from images',
+  'capability.story': 'Stories',
+  'capability.image': 'Pictures',
+  'capability.speech': 'Audio',
+  'capability.pronunciation': 'Pronunciation checks',
+
+  'error.notAWord': '"{query}" doesn\'t look like a Japanese or Chinese word. Check the spelling or try a shorter phrase.',
+  'error.emptyQuery': 'Please type a Japanese or Chinese word.',
+  'error.usageLimit': 'You\'ve reached today\'s limit of {limit} requests for {capability}. You can raise it in Settings.',
+  'error.quota': 'The AI service is out of quota for now. Please wait a few minutes and try again.',
+  'error.safety': 'The AI declined this request because of its content filters. Try different wording.',
+  'error.network': 'Can\'t reach the AI service. Check your connection and try again.',
+  'error.malformed': 'The AI returned an answer we couldn\'t read. Please try again.',
+
+  'anki.title': 'Export to Anki',
+  'anki.selected': '{selected} of {total} words selected',
+  'anki.deckName': 'Deck name',
+  'anki.from': 'Added from',
+  'anki.until': 'Added until',
+  'anki.includeAudio': 'Include audio (word & example)',
+  'anki.includeImages': 'Include pictures',
+  'anki.mediaNote': 'Cached audio and each word\'s pinned picture are reused; missing ones are generated, which may take a while.',
+  'anki.selectAll': 'Select all',
+  'anki.deselectAll': 'Deselect all',
+  'anki.emptyRange': 'No words in this date range.',
+  'anki.failed': 'Failed to build the Anki deck. Please try again.',
+  'anki.building': 'Building {done}/{total}...',
+  'anki.export': 'Export {count} cards',
+
+  'player.play': 'Play',
+  'player.pause': 'Pause',
+  'player.stop': 'Stop',
+  'player.replay': 'Replay',
+  'player.loopStart': 'Set loop start',
+  'player.loopEnd': 'Set loop end',
+  'player.loopClear': 'Clear loop',
+  'player.voice': 'Voice (applies to the next clip)',
+  'player.download': 'Download as .wav',
+
+  'backup.label': 'Backup: profile, settings and Wordbook in one file',
+  'backup.backUp': 'Back Up',
+  'backup.restore': 'Restore',
+  'backup.confirmRestore': 'Replace your Wordbook and settings with the backup from {date} ({count} words)?',
+  'backup.invalid': 'This file is not a valid backup.',
+  'backup.wrongFormat': 'This file is not a Little Yellow Book backup. Use Import for CSV or Wordbook JSON files.',
+  'backup.tooNew': 'This backup was made by a newer version of the app. Please update first.',
+
+  'cache.stats': 'Offline cache: {entries} items · {bytes} of {max}',
+  'cache.statsLoading': 'Offline cache: ...',
+  'cache.confirmClear': 'Clear all cached definitions and audio? Your Wordbook and saved pictures are kept.',
+  'cache.clearing': 'Clearing...',
+  'cache.clear': 'Clear Cache',
+
+  'scanner.cameraUnavailable': 'Camera access is needed for live scanning. You can still upload a photo instead.',
+  'scanner.lookupFailed': 'Could not look this up.',
+  'scanner.reading': 'Reading...',
+  'scanner.holdSteady': 'Hold steady over Japanese text',
+  'scanner.close': 'Close camera',
+  'scanner.save': 'Save',
+  'scanner.fullEntry': 'Full entry',
+  'scanner.lookingUp': 'Looking up...',
+  'scanner.clear': 'Clear',
+
+  'furigana.label': 'Furigana',
+  'furigana.show': 'Show furigana',
+  'furigana.unknownOnly': 'Hide furigana for kanji in your Wordbook',
+  'furigana.hide': 'Hide furigana',
+
+  'import.title': 'Import Wordbook',
+  'import.summary': '{file} · {format} · {count} words, {duplicates} already saved',
+  'import.hint': 'CSV from this app, JSON backup, or Anki "Notes in Plain Text" export',
+  'import.format.csv': 'CSV',
+  'import.format.anki': 'Anki text export',
+  'import.format.json': 'JSON backup',
+  'import.unreadable': 'Could not read this file. Supported formats: CSV, JSON backup, Anki plain-text export.',
+  'import.done': 'Imported {added} new, updated {updated}, skipped {skipped}.',
+  'import.chooseFile': 'Choose a file...',
+  'import.chooseAnother': 'Choose another file',
+  'import.ignore': 'Ignore',
+  'import.duplicate': 'Duplicate',
+  'import.previewLimit': 'Showing the first {count} rows.',
+  'import.duplicates': 'Duplicates:',
+  'import.strategy.skip': 'Skip',
+  'import.strategy.skipHint': 'Keep existing entries',
+  'import.strategy.overwrite': 'Overwrite',
+  'import.strategy.overwriteHint': 'Replace with imported content',
+  'import.strategy.merge': 'Merge',
+  'import.strategy.mergeHint': 'Only fill in empty fields',
+  'import.submit': 'Import {count} words',
+  'import.field.word': 'Word',
+  'import.field.reading': 'Reading',
+  'import.field.definition': 'Definition (CN)',
+  'import.field.definition_jp': 'Definition (JP)',
+  'import.field.example_jp': 'Example (JP)',
+  'import.field.example_cn': 'Example (CN)',
+  'import.field.timestamp': 'Date Added',
+  'import.field.part_of_speech': 'Part of Speech',
+
+  'login.title': 'Log in to sync',
+  'login.subtitle': 'Share one Wordbook across your devices',
+  'login.server': 'Sync server',
+  'login.email': 'Email',
+  'login.code': 'Login code',
+  'login.codeHint': 'Check your email. A local server prints the code in its console.',
+  'login.otherEmail': 'Use another email',
+  'login.wait': 'Please wait...',
+  'login.submit': 'Log in',
+  'login.sendCode': 'Send code',
+  'login.unreachable': 'Could not reach {server}.',
+  'login.sessionExpired': 'Your session has expired. Please log in again.',
+
+  'ocr.found': '{count} found · Tap words or drag a box to select',
+  'ocr.imageAlt': 'Uploaded',
+  'ocr.unlocated': '{count} item(s) could not be located on the photo.',
+  'ocr.clear': 'Clear',
+  'ocr.adding': 'Adding...',
+  'ocr.add': 'Add to Wordbook',
+  'ocr.addCount': 'Add {count} to Wordbook',
+  'ocr.lookUp': 'Look up',
+
+  'practice.assessFailed': 'Could not assess this recording. Please try again.',
+  'practice.micUnavailable': 'Microphone access is needed to practise pronunciation.',
+  'practice.reference': 'Reference',
+  'practice.you': 'You',
+  'practice.noRecording': 'No recording yet',
+  'practice.stop': 'Stop',
+  'practice.recordAgain': 'Record again',
+  'practice.record': 'Record',
+  'practice.listening': 'Listening...',
+  'practice.heard': 'Heard:',
+  'practice.pitchAccent': 'Pitch accent',
+  'practice.recentAttempts': 'Recent attempts',
+
+  'quiz.title': 'Quiz',
+  'quiz.mode.meaning': 'Meaning',
+  'quiz.mode.meaningHint': 'Pick the right definition',
+  'quiz.mode.reading': 'Reading',
+  'quiz.mode.readingHint': 'Type the reading, romaji works too',
+  'quiz.mode.cloze': 'Cloze',
+  'quiz.mode.clozeHint': 'Fill the gap in the example sentence',
+  'quiz.words': 'Words:',
+  'quiz.allShown': 'All shown ({count})',
+  'quiz.weakWords': 'Weak words ({count})',
+  'quiz.questions': 'Questions:',
+  'quiz.noWords': 'No words fit this quiz yet.',
+  'quiz.questionCount': '{count} questions',
+  'quiz.start': 'Start',
+  'quiz.correctOf': '{score} / {total} correct',
+  'quiz.weakHeading': 'Weak words',
+  'quiz.practiceMistakes': 'Practice mistakes',
+  'quiz.newQuiz': 'New quiz',
+  'quiz.finish': 'Finish',
+  'quiz.progress': '{current} / {total} · {score} correct',
+  'quiz.correct': 'Correct!',
+  'quiz.incorrect': 'Not quite.',
+  'quiz.readingPlaceholder': 'Reading in kana or romaji',
+  'quiz.check': 'Check',
+  'quiz.seeResults': 'See Results',
+  'quiz.next': 'Next',
+
+  'recovery.unreadable': 'Saved data "{key}" could not be read on {date}. A copy was kept aside.',
+  'recovery.download': 'Download copy',
+  'recovery.dismiss': 'Dismiss',
+  'recovery.confirmDiscard': 'Delete the damaged copy? Download it first if you may want to repair it.',
+
+  'review.grade.again': 'Again',
+  'review.grade.hard': 'Hard',
+  'review.grade.good': 'Good',
+  'review.grade.easy': 'Easy',
+  'review.caughtUp': 'All caught up!',
+  'review.reviewedCount': 'You reviewed {count} cards.',
+  'review.nothingDue': 'Nothing is due right now.',
+  'review.left': '{count} left',
+  'review.recallHint': 'Try to recall the reading and meaning.',
+  'review.showAnswer': 'Show Answer',
+
+  'stories.title': 'Story archive',
+  'stories.using': 'Stories using {word}',
+  'stories.showAll': 'Show all',
+  'stories.countOne': '1 saved story',
+  'stories.count': '{count} saved stories',
+  'stories.empty': 'No stories yet.',
+  'stories.lines': '{count} lines',
+  'stories.delete': 'Delete story',
+
+  'composer.title': 'Create a story',
+  'composer.subtitle': 'A story that uses the words you pick',
+  'composer.level': 'Level',
+  'composer.levelAuto': 'Auto',
+  'composer.length': 'Length',
+  'composer.length.short': 'Short',
+  'composer.length.medium': 'Medium',
+  'composer.length.long': 'Long',
+  'composer.genre': 'Genre',
+  'composer.genre.sliceOfLife': '☕ Everyday',
+  'composer.genre.comedy': '😂 Comedy',
+  'composer.genre.dialogue': '💬 Dialogue',
+  'composer.genre.mystery': '🔍 Mystery',
+  'composer.genre.fantasy': '🐉 Fantasy',
+  'composer.genre.romance': '💕 Romance',
+  'composer.words': 'Words ({selected}/{max})',
+  'composer.newest': 'Newest',
+  'composer.weak': 'Weak',
+  'composer.random': 'Random',
+  'composer.none': 'None',
+
+  'story.showTranslation': 'Show 中文',
+  'story.hideTranslation': 'Hide 中文',
+  'story.download': 'Download the story audio',
+  'story.preparing': 'Preparing...',
+  'story.downloadFailed': 'Could not prepare the story audio. Please try again.',
+  'story.stop': 'Stop',
+  'story.listen': 'Listen to Story',
+  'story.playLine': 'Play this line',
+
+  'tags.placeholder': 'Tags, e.g. N3, work, anime',
+  'tags.folder': 'Folder',
+  'tags.save': 'Save',
+  'tags.cancel': 'Cancel',
+
+  'toolbar.search': 'Search words, readings, definitions, examples...',
+  'toolbar.allFolders': 'All folders',
+  'toolbar.unfiled': 'Unfiled',
+  'toolbar.sort.newest': 'Newest first',
+  'toolbar.sort.oldest': 'Oldest first',
+  'toolbar.sort.alphabetical': 'A → Z',
+  'toolbar.sort.kana': 'あいうえお',
+};
+
+export type MessageKey = keyof typeof en;
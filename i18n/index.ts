@@ -0,0 +1,76 @@
+import { useSyncExternalStore } from 'react';
+import { Locale } from '../types';
+import { MessageKey, en } from './en';
+import { zhCN } from './zh-CN';
+import { zhTW } from './zh-TW';
+import { ja } from './ja';
+
+/**
+ * UI language. App keeps the current locale in sync with the settings; components read
+ * strings through useTranslation (which re-renders them on a switch), other code through translate.
+ */
+
+export type { MessageKey } from './en';
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = {
+  'zh-CN': zhCN,
+  'zh-TW': zhTW,
+  ja,
+  en,
+};
+
+// Each language named in itself, for the switcher
+export const LOCALES: { locale: Locale; label: string }[] = [
+  { locale: 'zh-CN', label: '简体中文' },
+  { locale: 'zh-TW', label: '繁體中文' },
+  { locale: 'ja', label: '日本語' },
+  { locale: 'en', label: 'English' },
+];
+
+/**
+ * Picks the closest supported language from the browser's preferences.
+ * Chinese speakers are the main audience, so anything unrecognised falls back to Simplified Chinese.
+ */
+export const detectLocale = (): Locale => {
+  const preferred = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of preferred) {
+    const lower = tag.toLowerCase();
+    if (/^zh-(tw|hk|mo|hant)/.test(lower)) return 'zh-TW';
+    if (lower.startsWith('zh')) return 'zh-CN';
+    if (lower.startsWith('ja')) return 'ja';
+    if (lower.startsWith('en')) return 'en';
+  }
+  return 'zh-CN';
+};
+
+let current: Locale = detectLocale();
+const listeners = new Set<() => void>();
+
+export const subscribeLocale = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getLocale = (): Locale => current;
+
+export const setLocale = (locale: Locale) => {
+  if (!CATALOGS[locale]) return;
+  document.documentElement.lang = locale;
+  if (locale === current) return;
+  current = locale;
+  listeners.forEach(listener => listener());
+};
+
+/**
+ * The message for `key` in the current locale, with `{name}` placeholders filled from `params`.
+ */
+export const translate = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+  CATALOGS[current][key].replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+/**
+ * translate for components: re-renders the component when the language changes.
+ */
+export const useTranslation = () => {
+  useSyncExternalStore(subscribeLocale, getLocale);
+  return translate;
+};
@@ -0,0 +1,384 @@
+import { MessageKey } from './en';
+
+export const ja: Record<MessageKey, string> = {
+  'app.tagline': 'ちいさな黄色い辞書',
+  'app.footer': 'Powered by Google Gemini & Imagen',
+
+  'header.settings': '設定',
+  'header.wordbook': '単語帳',
+  'header.dueToday': '今日の復習 {count} 件',
+  'header.login': 'ログイン',
+  'header.syncFailed': '同期に失敗しました。タップして再試行',
+  'header.lastSynced': '最終同期：{time}',
+  'header.syncNow': '今すぐ同期',
+  'header.exit': 'ログアウト',
+
+  'search.placeholder': '日本語か中国語を入力……',
+  'search.uploadImage': '写真の文字を調べる',
+  'search.liveScan': 'カメラでリアルタイム読み取り',
+  'search.submit': '検索',
+  'search.loading': '小黄書をめくっています……',
+  'search.empty': '言葉を検索するか画像をアップロードして始めましょう。',
+  'search.failed': '言葉が見つかりませんでした。もう一度お試しください。',
+  'search.ocrFailed': '画像の文字を読み取れませんでした。',
+  'search.modeJpToCn': '日 → 中',
+  'search.modeCnToJp': '中 → 日',
+  'search.placeholderCnToJp': '中国語を入力して日本語の言い方を探す……',
+  'search.candidatesFailed': '日本語の言い方が見つかりませんでした。もう一度お試しください。',
+  'search.modeAnalyze': '文を解析',
+  'search.placeholderAnalyze': '日本語の文や段落を貼り付け……',
+  'search.analyzeFailed': 'この文を解析できませんでした。もう一度お試しください。',
+
+  'wordbook.title': 'わたしの単語帳',
+  'wordbook.showing': '{total} 語中 {shown} 語を表示',
+  'wordbook.memorized': '{count} 語を保存済み',
+  'wordbook.review': '🃏 復習',
+  'wordbook.quiz': '✏️ クイズ',
+  'wordbook.exportCsv': 'CSV 書き出し',
+  'wordbook.import': '読み込み',
+  'wordbook.anki': 'Anki デッキ',
+  'wordbook.stories': '📚 ストーリー',
+  'wordbook.createStory': '✨ ストーリーを作る',
+  'wordbook.createStoryHint': '表示中の単語から最大 {count} 語を選べます',
+  'wordbook.thinking': '考え中……',
+  'wordbook.storyHeading': 'AI が作ったシナリオ',
+  'wordbook.closeStory': 'ストーリーを閉じる',
+  'wordbook.generatingStory': '✨ アイデアを絞り出しています……',
+  'wordbook.storyFailed': 'ストーリーを作れませんでした。',
+  'wordbook.empty': 'まだ単語が保存されていません。',
+  'wordbook.noMatches': '条件に合う単語はありません。',
+  'wordbook.list': 'リスト',
+  'wordbook.graph': 'つながり',
+  'wordbook.storiesForWord': 'この単語を使ったストーリー',
+  'wordbook.tags': 'タグとフォルダ',
+  'wordbook.details': '詳細を見る',
+  'wordbook.playAudio': '音声を再生',
+  'wordbook.remove': '削除',
+  'wordbook.confirmRemove': '「{word}」を単語帳から削除しますか？',
+  'wordbook.confirmDeleteStory': 'ストーリー「{title}」を削除しますか？',
+  'wordbook.addedAll': '{count} 語を単語帳に追加しました。',
+  'wordbook.addedSome': '{total} 語中 {added} 語を追加しました。',
+  'wordbook.someFailed': '一部の単語は調べられませんでした。',
+  'wordbook.back': '← 単語帳',
+  'wordbook.backTo': '単語帳に戻る',
+
+  'result.playWord': '発音を再生',
+  'result.practiseWord': 'この単語の発音を練習',
+  'result.sayIt': '言ってみる',
+  'result.jlptLevel': 'JLPT レベル',
+  'result.saveSenseHint': 'この意味を単語帳に保存',
+  'result.saved': '保存済み',
+  'result.saveSense': 'この意味を保存',
+  'result.definitionJp': '日本語の意味',
+  'result.definitionCn': '中国語の意味',
+  'result.example': '例文',
+  'result.practiseSentence': 'この文の発音を練習',
+  'result.loadingAudio': '音声を読み込み中……',
+  'result.readAloud': '読み上げ',
+  'result.usageNotes': '使い方のメモ',
+  'result.conjugations': '活用',
+  'result.synonyms': '類義語',
+  'result.antonyms': '対義語',
+  'result.collocations': 'コロケーション',
+  'result.phrases': '慣用句',
+  'result.visualization': 'AI イラスト',
+  'result.regenerateImage': '画像を作り直す',
+  'result.drawing': '描いています……',
+  'result.imageAlt': '「{word}」の AI イラスト',
+  'result.imageUnavailable': '画像はありません',
+  'result.imageCredit': 'Imagen で生成',
+  'result.pinImage': 'お気に入りに固定',
+  'result.unpinImage': '固定を解除',
+  'result.deleteImage': '画像を削除',
+  'result.confirmDeleteImage': 'この画像を削除しますか？',
+  'result.showImage': '画像 {index} を表示',
+  'result.galleryHint': '固定した画像は単語帳と Anki デッキに表示されます。1 語につき {count} 枚まで保存されます。',
+
+  'candidates.title': '「{query}」を日本語で言うと',
+  'candidates.hint': '自然な順に並んでいます。選ぶと詳しい項目が開きます。',
+  'candidates.falseFriendsTitle': '⚠️ 同形異義語',
+  'candidates.falseFriendsHint': '漢字は同じでも日本語では意味が違います。「{query}」の意味では使えません。',
+  'candidates.tag.common': 'よく使う',
+  'candidates.tag.formal': '改まった',
+  'candidates.tag.casual': 'くだけた',
+  'candidates.tag.written': '書き言葉',
+  'candidates.tag.spoken': '話し言葉',
+  'candidates.tag.literary': '文語的',
+  'candidates.tag.false_friend': '⚠️ 同形異義',
+
+  'analyze.hint': '言葉をタップすると辞書形が表示され、項目を開いたりこの文ごと保存したりできます。',
+  'analyze.asWritten': '本文では「{text}」',
+  'analyze.openEntry': '項目を開く',
+  'analyze.addToWordbook': '+ 単語帳',
+  'analyze.alreadySaved': '「{word}」はすでに単語帳にあります。',
+  'analyze.translation': '訳',
+  'analyze.grammar': '文法ポイント',
+
+  'kanji.title': '漢字',
+  'kanji.onyomi': '音読み',
+  'kanji.kunyomi': '訓読み',
+  'kanji.radical': '部首',
+  'kanji.components': '構成',
+  'kanji.strokes': '画数',
+  'kanji.replay': 'もう一度',
+  'kanji.noStrokeData': 'この字の筆順はまだありません',
+  'kanji.strokeCredit': '筆順データ：KanjiVG（CC BY-SA 3.0）',
+  'kanji.wordbookWords': '単語帳の言葉',
+  'kanji.noWordbookWords': 'この漢字を使う言葉はまだ単語帳にありません。',
+  'kanji.loading': '漢字を調べています……',
+  'kanji.failed': '漢字の情報を読み込めませんでした。',
+
+  'graph.sharedKanji': '同じ漢字',
+  'graph.noLinks': 'まだつながりがありません。同じ漢字を含む言葉や、辞書で関連語とされた言葉が結ばれます。',
+  'graph.limited': '新しい {count} 語だけを表示しています',
+
+  'settings.title': '設定',
+  'settings.language': '表示言語',
+  'settings.chineseScript': '意味と訳の中国語',
+  'settings.simplified': '簡体字',
+  'settings.traditional': '繁体字',
+  'settings.chineseScriptNote': 'これからの検索とストーリーに適用されます。単語帳にある単語はそのままです。',
+  'settings.usage': '今日の AI 利用回数',
+  'settings.usageNote': 'キャッシュからの結果は数えません。1 日の上限を設定できます（0 は無制限）。',
+  'settings.used': '使用',
+  'settings.dailyLimit': '1 日の上限',
+  'settings.imageStyle': '画像のスタイル',
+  'settings.imageStyleNote': '新しく描く画像に使われます。保存済みの画像はそのままです。',
+  'settings.promptSuffix': '追加プロンプト',
+  'settings.promptSuffixPlaceholder': '例：鉛筆画、白黒',
+  'imageStyle.random': 'おまかせ',
+  'imageStyle.watercolor': '水彩',
+  'imageStyle.anime': 'アニメ',
+  'imageStyle.pastel': 'パステル',
+  'imageStyle.ukiyoe': '浮世絵',
+  'imageStyle.ghibli': 'ジブリ風',
+
+  'capability.definition': '単語検索',
+  'capability.ocr': '画像の文字認識',
+  'capability.story': 'ストーリー',
+  'capability.image': 'イラスト',
+  'capability.speech': '音声',
+  'capability.pronunciation': '発音チェック',
+
+  'error.notAWord': '「{query}」は日本語や中国語の言葉ではないようです。つづりを確かめるか、短い言い方でお試しください。',
+  'error.emptyQuery': '日本語か中国語の言葉を入力してください。',
+  'error.usageLimit': '今日の「{capability}」は上限の {limit} 回に達しました。設定で上限を変更できます。',
+  'error.quota': 'AI サービスの利用枠が一時的に上限に達しました。数分待ってからお試しください。',
+  'error.safety': 'AI のコンテンツフィルターによりこのリクエストは断られました。別の言い方でお試しください。',
+  'error.network': 'AI サービスに接続できません。通信環境を確認してもう一度お試しください。',
+  'error.malformed': 'AI の回答を読み取れませんでした。もう一度お試しください。',
+
+  'anki.title': 'Anki に書き出す',
+  'anki.selected': '{total} 語中 {selected} 語を選択中',
+  'anki.deckName': 'デッキ名',
+  'anki.from': '追加日（から）',
+  'anki.until': '追加日（まで）',
+  'anki.includeAudio': '音声を含める（単語と例文）',
+  'anki.includeImages': '画像を含める',
+  'anki.mediaNote': 'キャッシュ済みの音声と各単語の固定画像を使います。足りないものは生成するため、時間がかかることがあります。',
+  'anki.selectAll': 'すべて選択',
+  'anki.deselectAll': 'すべて解除',
+  'anki.emptyRange': 'この期間の単語はありません。',
+  'anki.failed': 'Anki デッキを作成できませんでした。もう一度お試しください。',
+  'anki.building': '作成中 {done}/{total}…',
+  'anki.export': '{count} 枚のカードを書き出す',
+
+  'player.play': '再生',
+  'player.pause': '一時停止',
+  'player.stop': '停止',
+  'player.replay': 'もう一度',
+  'player.loopStart': 'ループの開始点を設定',
+  'player.loopEnd': 'ループの終了点を設定',
+  'player.loopClear': 'ループを解除',
+  'player.voice': '声（次の音声から適用）',
+  'player.download': '.wav でダウンロード',
+
+  'backup.label': 'バックアップ：プロフィール・設定・単語帳を1つのファイルに',
+  'backup.backUp': 'バックアップ',
+  'backup.restore': '復元',
+  'backup.confirmRestore': '単語帳と設定を {date} のバックアップ（{count} 語）で置き換えますか？',
+  'backup.invalid': '有効なバックアップファイルではありません。',
+  'backup.wrongFormat': '小黄书のバックアップファイルではありません。CSV や単語帳の JSON は「インポート」を使ってください。',
+  'backup.tooNew': 'このバックアップは新しいバージョンのアプリで作成されています。先にアプリを更新してください。',
+
+  'cache.stats': 'オフラインキャッシュ：{entries} 件 · {bytes} / {max}',
+  'cache.statsLoading': 'オフラインキャッシュ：...',
+  'cache.confirmClear': 'キャッシュした意味と音声をすべて消去しますか？単語帳と保存した画像は残ります。',
+  'cache.clearing': '消去中...',
+  'cache.clear': 'キャッシュを消去',
+
+  'scanner.cameraUnavailable': 'リアルタイムスキャンにはカメラへのアクセスが必要です。代わりに写真をアップロードすることもできます。',
+  'scanner.lookupFailed': '調べられませんでした。',
+  'scanner.reading': '読み取り中...',
+  'scanner.holdSteady': '日本語の文字にかざして静止してください',
+  'scanner.close': 'カメラを閉じる',
+  'scanner.save': '保存',
+  'scanner.fullEntry': '詳しく見る',
+  'scanner.lookingUp': '検索中...',
+  'scanner.clear': 'クリア',
+
+  'furigana.label': 'ふりがな',
+  'furigana.show': 'ふりがなを表示',
+  'furigana.unknownOnly': '単語帳にある漢字のふりがなを隠す',
+  'furigana.hide': 'ふりがなを隠す',
+
+  'import.title': '単語帳をインポート',
+  'import.summary': '{file} · {format} · {count} 語（うち {duplicates} 語は保存済み）',
+  'import.hint': 'このアプリの CSV、JSON バックアップ、または Anki の「プレーンテキストのノート」',
+  'import.format.csv': 'CSV',
+  'import.format.anki': 'Anki テキスト書き出し',
+  'import.format.json': 'JSON バックアップ',
+  'import.unreadable': 'このファイルを読み込めませんでした。対応形式：CSV、JSON バックアップ、Anki のプレーンテキスト書き出し。',
+  'import.done': '新規 {added} 件、更新 {updated} 件、スキップ {skipped} 件をインポートしました。',
+  'import.chooseFile': 'ファイルを選択...',
+  'import.chooseAnother': '別のファイルを選択',
+  'import.ignore': '無視',
+  'import.duplicate': '重複',
+  'import.previewLimit': '最初の {count} 行を表示しています。',
+  'import.duplicates': '重複：',
+  'import.strategy.skip': 'スキップ',
+  'import.strategy.skipHint': '既存の項目を残す',
+  'import.strategy.overwrite': '上書き',
+  'import.strategy.overwriteHint': 'インポートした内容で置き換える',
+  'import.strategy.merge': '統合',
+  'import.strategy.mergeHint': '空欄だけを埋める',
+  'import.submit': '{count} 語をインポート',
+  'import.field.word': '単語',
+  'import.field.reading': '読み',
+  'import.field.definition': '意味（中国語）',
+  'import.field.definition_jp': '意味（日本語）',
+  'import.field.example_jp': '例文（日本語）',
+  'import.field.example_cn': '例文（中国語）',
+  'import.field.timestamp': '追加日',
+  'import.field.part_of_speech': '品詞',
+
+  'login.title': 'ログインして同期',
+  'login.subtitle': 'すべての端末で同じ単語帳を使えます',
+  'login.server': '同期サーバー',
+  'login.email': 'メールアドレス',
+  'login.code': 'ログインコード',
+  'login.codeHint': 'メールを確認してください。ローカルサーバーの場合はコンソールにコードが表示されます。',
+  'login.otherEmail': '別のメールアドレスを使う',
+  'login.wait': 'お待ちください...',
+  'login.submit': 'ログイン',
+  'login.sendCode': 'コードを送信',
+  'login.unreachable': '{server} に接続できませんでした。',
+  'login.sessionExpired': 'セッションの有効期限が切れました。もう一度ログインしてください。',
+
+  'ocr.found': '{count} 件検出 · 単語をタップするか、枠をドラッグして選択',
+  'ocr.imageAlt': 'アップロードした画像',
+  'ocr.unlocated': '{count} 件は写真上の位置を特定できませんでした。',
+  'ocr.clear': 'クリア',
+  'ocr.adding': '追加中...',
+  'ocr.add': '単語帳に追加',
+  'ocr.addCount': '{count} 件を単語帳に追加',
+  'ocr.lookUp': '調べる',
+
+  'practice.assessFailed': 'この録音を評価できませんでした。もう一度お試しください。',
+  'practice.micUnavailable': '発音練習にはマイクへのアクセスが必要です。',
+  'practice.reference': 'お手本',
+  'practice.you': 'あなた',
+  'practice.noRecording': 'まだ録音がありません',
+  'practice.stop': '停止',
+  'practice.recordAgain': 'もう一度録音',
+  'practice.record': '録音',
+  'practice.listening': '聞き取り中...',
+  'practice.heard': '聞き取り：',
+  'practice.pitchAccent': 'アクセント',
+  'practice.recentAttempts': '最近の練習',
+
+  'quiz.title': 'クイズ',
+  'quiz.mode.meaning': '意味',
+  'quiz.mode.meaningHint': '正しい意味を選ぶ',
+  'quiz.mode.reading': '読み',
+  'quiz.mode.readingHint': '読みを入力（ローマ字も可）',
+  'quiz.mode.cloze': '穴埋め',
+  'quiz.mode.clozeHint': '例文の空欄を埋める',
+  'quiz.words': '単語：',
+  'quiz.allShown': '表示中のすべて（{count}）',
+  'quiz.weakWords': '苦手な単語（{count}）',
+  'quiz.questions': '問題数：',
+  'quiz.noWords': 'このクイズに使える単語はまだありません。',
+  'quiz.questionCount': '{count} 問',
+  'quiz.start': '開始',
+  'quiz.correctOf': '{total} 問中 {score} 問正解',
+  'quiz.weakHeading': '苦手な単語',
+  'quiz.practiceMistakes': '間違えた問題を練習',
+  'quiz.newQuiz': '新しいクイズ',
+  'quiz.finish': '終了',
+  'quiz.progress': '{current} / {total} · {score} 問正解',
+  'quiz.correct': '正解！',
+  'quiz.incorrect': 'おしい！',
+  'quiz.readingPlaceholder': 'かなまたはローマ字で読みを入力',
+  'quiz.check': '答え合わせ',
+  'quiz.seeResults': '結果を見る',
+  'quiz.next': '次へ',
+
+  'recovery.unreadable': '保存データ「{key}」を {date} に読み込めませんでした。コピーを別に保管してあります。',
+  'recovery.download': 'コピーをダウンロード',
+  'recovery.dismiss': '閉じる',
+  'recovery.confirmDiscard': '破損したコピーを削除しますか？修復する可能性がある場合は、先にダウンロードしてください。',
+
+  'review.grade.again': 'もう一度',
+  'review.grade.hard': '難しい',
+  'review.grade.good': '正解',
+  'review.grade.easy': '簡単',
+  'review.caughtUp': 'すべて完了！',
+  'review.reviewedCount': '{count} 枚のカードを復習しました。',
+  'review.nothingDue': '今復習するカードはありません。',
+  'review.left': '残り {count}',
+  'review.recallHint': '読みと意味を思い出してみましょう。',
+  'review.showAnswer': '答えを見る',
+
+  'stories.title': '物語アーカイブ',
+  'stories.using': '「{word}」を使った物語',
+  'stories.showAll': 'すべて表示',
+  'stories.countOne': '保存した物語 1 件',
+  'stories.count': '保存した物語 {count} 件',
+  'stories.empty': 'まだ物語はありません。',
+  'stories.lines': '{count} 行',
+  'stories.delete': '物語を削除',
+
+  'composer.title': '物語を作る',
+  'composer.subtitle': '選んだ単語を使った物語',
+  'composer.level': 'レベル',
+  'composer.levelAuto': '自動',
+  'composer.length': '長さ',
+  'composer.length.short': '短い',
+  'composer.length.medium': '普通',
+  'composer.length.long': '長い',
+  'composer.genre': 'ジャンル',
+  'composer.genre.sliceOfLife': '☕ 日常',
+  'composer.genre.comedy': '😂 コメディ',
+  'composer.genre.dialogue': '💬 会話',
+  'composer.genre.mystery': '🔍 ミステリー',
+  'composer.genre.fantasy': '🐉 ファンタジー',
+  'composer.genre.romance': '💕 恋愛',
+  'composer.words': '単語（{selected}/{max}）',
+  'composer.newest': '新しい順',
+  'composer.weak': '苦手',
+  'composer.random': 'ランダム',
+  'composer.none': 'なし',
+
+  'story.showTranslation': '中国語訳を表示',
+  'story.hideTranslation': '中国語訳を隠す',
+  'story.download': '物語の音声をダウンロード',
+  'story.preparing': '準備中...',
+  'story.downloadFailed': '物語の音声を準備できませんでした。もう一度お試しください。',
+  'story.stop': '停止',
+  'story.listen': '物語を聞く',
+  'story.playLine': 'この行を再生',
+
+  'tags.placeholder': 'タグ（例：N3, 仕事, アニメ）',
+  'tags.folder': 'フォルダ',
+  'tags.save': '保存',
+  'tags.cancel': 'キャンセル',
+
+  'toolbar.search': '単語・読み・意味・例文を検索...',
+  'toolbar.allFolders': 'すべてのフォルダ',
+  'toolbar.unfiled': '未分類',
+  'toolbar.sort.newest': '新しい順',
+  'toolbar.sort.oldest': '古い順',
+  'toolbar.sort.alphabetical': 'A → Z',
+  'toolbar.sort.kana': 'あいうえお',
+};
@@ -0,0 +1,384 @@
+import { MessageKey } from './en';
+
+export const zhCN: Record<MessageKey, string> = {
+  'app.tagline': '日语学习词典',
+  'app.footer': '由 Google Gemini 与 Imagen 提供支持',
+
+  'header.settings': '设置',
+  'header.wordbook': '单词本',
+  'header.dueToday': '今天有 {count} 个待复习',
+  'header.login': '登录',
+  'header.syncFailed': '同步失败，点击重试',
+  'header.lastSynced': '上次同步：{time}',
+  'header.syncNow': '立即同步',
+  'header.exit': '退出',
+
+  'search.placeholder': '输入日语或中文……',
+  'search.uploadImage': '识别照片中的文字',
+  'search.liveScan': '实时相机扫描',
+  'search.submit': '查询',
+  'search.loading': '正在翻阅小黄书……',
+  'search.empty': '查一个词或上传一张图片，开始你的旅程吧。',
+  'search.failed': '没有找到这个词，请重试。',
+  'search.ocrFailed': '无法识别图片中的文字。',
+  'search.modeJpToCn': '日 → 中',
+  'search.modeCnToJp': '中 → 日',
+  'search.placeholderCnToJp': '输入中文，看看日语怎么说……',
+  'search.candidatesFailed': '没有找到对应的日语说法，请重试。',
+  'search.modeAnalyze': '句子分析',
+  'search.placeholderAnalyze': '粘贴一句或一段日语……',
+  'search.analyzeFailed': '无法分析这段文字，请重试。',
+
+  'wordbook.title': '我的单词本',
+  'wordbook.showing': '显示 {shown} / {total} 个单词',
+  'wordbook.memorized': '已收藏 {count} 个单词',
+  'wordbook.review': '🃏 复习',
+  'wordbook.quiz': '✏️ 测验',
+  'wordbook.exportCsv': '导出 CSV',
+  'wordbook.import': '导入',
+  'wordbook.anki': 'Anki 卡组',
+  'wordbook.stories': '📚 故事',
+  'wordbook.createStory': '✨ 生成故事',
+  'wordbook.createStoryHint': '从当前显示的单词中最多选 {count} 个',
+  'wordbook.thinking': '思考中……',
+  'wordbook.storyHeading': 'AI 生成的情景',
+  'wordbook.closeStory': '关闭故事',
+  'wordbook.generatingStory': '✨ 正在绞尽脑汁……',
+  'wordbook.storyFailed': '故事生成失败。',
+  'wordbook.empty': '还没有收藏任何单词。',
+  'wordbook.noMatches': '没有符合筛选条件的单词。',
+  'wordbook.list': '列表',
+  'wordbook.graph': '关系图',
+  'wordbook.storiesForWord': '使用这个词的故事',
+  'wordbook.tags': '标签和文件夹',
+  'wordbook.details': '查看详情',
+  'wordbook.playAudio': '播放发音',
+  'wordbook.remove': '删除',
+  'wordbook.confirmRemove': '要把「{word}」从单词本中删除吗？',
+  'wordbook.confirmDeleteStory': '要删除故事「{title}」吗？',
+  'wordbook.addedAll': '已将 {count} 个单词加入单词本。',
+  'wordbook.addedSome': '已加入 {added} / {total} 个单词。',
+  'wordbook.someFailed': '部分单词无法查询。',
+  'wordbook.back': '← 单词本',
+  'wordbook.backTo': '返回单词本',
+
+  'result.playWord': '播放发音',
+  'result.practiseWord': '练习这个词的发音',
+  'result.sayIt': '跟读',
+  'result.jlptLevel': 'JLPT 级别',
+  'result.saveSenseHint': '把这个义项存入单词本',
+  'result.saved': '已收藏',
+  'result.saveSense': '收藏这个义项',
+  'result.definitionJp': '日文释义',
+  'result.definitionCn': '中文释义',
+  'result.example': '例句',
+  'result.practiseSentence': '练习这句话的发音',
+  'result.loadingAudio': '音频加载中……',
+  'result.readAloud': '朗读',
+  'result.usageNotes': '用法说明',
+  'result.conjugations': '活用形',
+  'result.synonyms': '近义词',
+  'result.antonyms': '反义词',
+  'result.collocations': '常用搭配',
+  'result.phrases': '惯用语',
+  'result.visualization': 'AI 插图',
+  'result.regenerateImage': '重新生成图片',
+  'result.drawing': '正在作画……',
+  'result.imageAlt': '「{word}」的 AI 插图',
+  'result.imageUnavailable': '暂无图片',
+  'result.imageCredit': '由 Imagen 生成',
+  'result.pinImage': '设为最爱',
+  'result.unpinImage': '取消最爱',
+  'result.deleteImage': '删除图片',
+  'result.confirmDeleteImage': '删除这张图片？',
+  'result.showImage': '显示第 {index} 张图片',
+  'result.galleryHint': '设为最爱的图片会显示在单词本和 Anki 卡组中。每个单词最多保留 {count} 张。',
+
+  'candidates.title': '「{query}」的日语说法',
+  'candidates.hint': '越靠前越自然。点击查看完整词条。',
+  'candidates.falseFriendsTitle': '⚠️ 同形异义词',
+  'candidates.falseFriendsHint': '汉字相同，日语里的意思却不一样：不能用来表达「{query}」。',
+  'candidates.tag.common': '常用',
+  'candidates.tag.formal': '正式',
+  'candidates.tag.casual': '随意',
+  'candidates.tag.written': '书面语',
+  'candidates.tag.spoken': '口语',
+  'candidates.tag.literary': '文学',
+  'candidates.tag.false_friend': '⚠️ 同形异义',
+
+  'analyze.hint': '点击单词查看原形，可打开词条，或连同这句话一起收藏。',
+  'analyze.asWritten': '原文为「{text}」',
+  'analyze.openEntry': '查看词条',
+  'analyze.addToWordbook': '+ 单词本',
+  'analyze.alreadySaved': '「{word}」已在单词本中。',
+  'analyze.translation': '译文',
+  'analyze.grammar': '语法点',
+
+  'kanji.title': '汉字',
+  'kanji.onyomi': '音读',
+  'kanji.kunyomi': '训读',
+  'kanji.radical': '部首',
+  'kanji.components': '部件',
+  'kanji.strokes': '笔画数',
+  'kanji.replay': '重播',
+  'kanji.noStrokeData': '暂无这个字的笔顺',
+  'kanji.strokeCredit': '笔顺数据：KanjiVG（CC BY-SA 3.0）',
+  'kanji.wordbookWords': '单词本中的词',
+  'kanji.noWordbookWords': '单词本里还没有其他使用这个字的词。',
+  'kanji.loading': '正在查询汉字……',
+  'kanji.failed': '无法加载汉字详情。',
+
+  'graph.sharedKanji': '相同汉字',
+  'graph.noLinks': '还没有关联：单词含有相同汉字，或词典列为相关词时会连起来。',
+  'graph.limited': '只显示最近的 {count} 个单词',
+
+  'settings.title': '设置',
+  'settings.language': '界面语言',
+  'settings.chineseScript': '释义和翻译使用的中文',
+  'settings.simplified': '简体',
+  'settings.traditional': '繁体',
+  'settings.chineseScriptNote': '对之后的查询和故事生效，单词本里已有的单词保持不变。',
+  'settings.usage': '今日 AI 用量',
+  'settings.usageNote': '读取缓存不计次数。可以为每项设置每日上限，0 表示不限。',
+  'settings.used': '已用',
+  'settings.dailyLimit': '每日上限',
+  'settings.imageStyle': '图片风格',
+  'settings.imageStyleNote': '用于新生成的图片，已有图片保持不变。',
+  'settings.promptSuffix': '附加提示词',
+  'settings.promptSuffixPlaceholder': '例如：铅笔素描，黑白',
+  'imageStyle.random': '随机',
+  'imageStyle.watercolor': '水彩',
+  'imageStyle.anime': '动漫',
+  'imageStyle.pastel': '粉彩',
+  'imageStyle.ukiyoe': '浮世绘',
+  'imageStyle.ghibli': '吉卜力风',
+
+  'capability.definition': '查词',
+  'capability.ocr': '图片识字',
+  'capability.story': '故事',
+  'capability.image': '插图',
+  'capability.speech': '语音',
+  'capability.pronunciation': '发音评测',
+
+  'error.notAWord': '「{query}」看起来不是日语或中文的词语。请检查拼写，或换一个更短的说法。',
+  'error.emptyQuery': '请输入一个日语或中文词语。',
+  'error.usageLimit': '今天的「{capability}」已达到 {limit} 次上限。可以在设置中调高。',
+  'error.quota': 'AI 服务的配额暂时用完了，请过几分钟再试。',
+  'error.safety': 'AI 的内容过滤拒绝了这个请求，请换一种说法。',
+  'error.network': '无法连接 AI 服务，请检查网络后重试。',
+  'error.malformed': 'AI 返回的结果无法读取，请重试。',
+
+  'anki.title': '导出到 Anki',
+  'anki.selected': '已选 {selected} / {total} 个单词',
+  'anki.deckName': '卡组名称',
+  'anki.from': '添加日期从',
+  'anki.until': '添加日期至',
+  'anki.includeAudio': '包含音频（单词和例句）',
+  'anki.includeImages': '包含图片',
+  'anki.mediaNote': '会复用已缓存的音频和每个单词设为最爱的图片；缺少的会重新生成，可能需要一些时间。',
+  'anki.selectAll': '全选',
+  'anki.deselectAll': '全部取消',
+  'anki.emptyRange': '这个日期范围内没有单词。',
+  'anki.failed': '无法生成 Anki 卡组，请重试。',
+  'anki.building': '正在生成 {done}/{total}…',
+  'anki.export': '导出 {count} 张卡片',
+
+  'player.play': '播放',
+  'player.pause': '暂停',
+  'player.stop': '停止',
+  'player.replay': '重播',
+  'player.loopStart': '设置循环起点',
+  'player.loopEnd': '设置循环终点',
+  'player.loopClear': '取消循环',
+  'player.voice': '声音（从下一段开始生效）',
+  'player.download': '下载为 .wav',
+
+  'backup.label': '备份：个人资料、设置和单词本合为一个文件',
+  'backup.backUp': '备份',
+  'backup.restore': '恢复',
+  'backup.confirmRestore': '要用 {date} 的备份（{count} 个单词）替换你的单词本和设置吗？',
+  'backup.invalid': '这个文件不是有效的备份。',
+  'backup.wrongFormat': '这个文件不是小黄书的备份。CSV 或单词本 JSON 文件请使用“导入”。',
+  'backup.tooNew': '这个备份由更新版本的应用生成，请先更新应用。',
+
+  'cache.stats': '离线缓存：{entries} 项 · {bytes} / {max}',
+  'cache.statsLoading': '离线缓存：...',
+  'cache.confirmClear': '要清除所有已缓存的释义和音频吗？单词本和已保存的图片会保留。',
+  'cache.clearing': '正在清除...',
+  'cache.clear': '清除缓存',
+
+  'scanner.cameraUnavailable': '实时扫描需要使用相机。你也可以改为上传照片。',
+  'scanner.lookupFailed': '无法查询这个词。',
+  'scanner.reading': '正在识别...',
+  'scanner.holdSteady': '对准日语文字并保持稳定',
+  'scanner.close': '关闭相机',
+  'scanner.save': '保存',
+  'scanner.fullEntry': '查看完整词条',
+  'scanner.lookingUp': '正在查询...',
+  'scanner.clear': '清除',
+
+  'furigana.label': '假名注音',
+  'furigana.show': '显示假名注音',
+  'furigana.unknownOnly': '隐藏单词本中汉字的假名注音',
+  'furigana.hide': '隐藏假名注音',
+
+  'import.title': '导入单词本',
+  'import.summary': '{file} · {format} · {count} 个单词，其中 {duplicates} 个已保存',
+  'import.hint': '本应用导出的 CSV、JSON 备份，或 Anki 的“纯文本笔记”导出',
+  'import.format.csv': 'CSV',
+  'import.format.anki': 'Anki 文本导出',
+  'import.format.json': 'JSON 备份',
+  'import.unreadable': '无法读取这个文件。支持的格式：CSV、JSON 备份、Anki 纯文本导出。',
+  'import.done': '已导入：新增 {added} 个，更新 {updated} 个，跳过 {skipped} 个。',
+  'import.chooseFile': '选择文件...',
+  'import.chooseAnother': '选择其他文件',
+  'import.ignore': '忽略',
+  'import.duplicate': '重复',
+  'import.previewLimit': '仅显示前 {count} 行。',
+  'import.duplicates': '重复项：',
+  'import.strategy.skip': '跳过',
+  'import.strategy.skipHint': '保留现有条目',
+  'import.strategy.overwrite': '覆盖',
+  'import.strategy.overwriteHint': '用导入的内容替换',
+  'import.strategy.merge': '合并',
+  'import.strategy.mergeHint': '只填写空白字段',
+  'import.submit': '导入 {count} 个单词',
+  'import.field.word': '单词',
+  'import.field.reading': '读音',
+  'import.field.definition': '释义（中文）',
+  'import.field.definition_jp': '释义（日语）',
+  'import.field.example_jp': '例句（日语）',
+  'import.field.example_cn': '例句（中文）',
+  'import.field.timestamp': '添加日期',
+  'import.field.part_of_speech': '词性',
+
+  'login.title': '登录以同步',
+  'login.subtitle': '在所有设备上共用同一个单词本',
+  'login.server': '同步服务器',
+  'login.email': '电子邮箱',
+  'login.code': '登录验证码',
+  'login.codeHint': '请查看你的邮箱。本地服务器会在控制台中打印验证码。',
+  'login.otherEmail': '使用其他邮箱',
+  'login.wait': '请稍候...',
+  'login.submit': '登录',
+  'login.sendCode': '发送验证码',
+  'login.unreachable': '无法连接到 {server}。',
+  'login.sessionExpired': '登录已过期，请重新登录。',
+
+  'ocr.found': '找到 {count} 处 · 点按单词或拖出方框来选择',
+  'ocr.imageAlt': '上传的图片',
+  'ocr.unlocated': '有 {count} 项无法在照片上定位。',
+  'ocr.clear': '清除',
+  'ocr.adding': '正在添加...',
+  'ocr.add': '加入单词本',
+  'ocr.addCount': '将 {count} 个加入单词本',
+  'ocr.lookUp': '查询',
+
+  'practice.assessFailed': '无法评估这段录音，请重试。',
+  'practice.micUnavailable': '练习发音需要使用麦克风。',
+  'practice.reference': '示范',
+  'practice.you': '你的发音',
+  'practice.noRecording': '还没有录音',
+  'practice.stop': '停止',
+  'practice.recordAgain': '重新录音',
+  'practice.record': '录音',
+  'practice.listening': '正在分析...',
+  'practice.heard': '识别结果：',
+  'practice.pitchAccent': '音调',
+  'practice.recentAttempts': '最近的练习',
+
+  'quiz.title': '测验',
+  'quiz.mode.meaning': '释义',
+  'quiz.mode.meaningHint': '选出正确的释义',
+  'quiz.mode.reading': '读音',
+  'quiz.mode.readingHint': '输入读音，也可以用罗马字',
+  'quiz.mode.cloze': '填空',
+  'quiz.mode.clozeHint': '填写例句中的空缺',
+  'quiz.words': '单词：',
+  'quiz.allShown': '当前显示的全部（{count}）',
+  'quiz.weakWords': '薄弱单词（{count}）',
+  'quiz.questions': '题数：',
+  'quiz.noWords': '还没有适合这种测验的单词。',
+  'quiz.questionCount': '{count} 道题',
+  'quiz.start': '开始',
+  'quiz.correctOf': '答对 {score} / {total}',
+  'quiz.weakHeading': '薄弱单词',
+  'quiz.practiceMistakes': '练习答错的题',
+  'quiz.newQuiz': '新测验',
+  'quiz.finish': '结束',
+  'quiz.progress': '{current} / {total} · 答对 {score} 题',
+  'quiz.correct': '答对了！',
+  'quiz.incorrect': '不太对。',
+  'quiz.readingPlaceholder': '用假名或罗马字输入读音',
+  'quiz.check': '检查',
+  'quiz.seeResults': '查看结果',
+  'quiz.next': '下一题',
+
+  'recovery.unreadable': '{date} 无法读取已保存的数据“{key}”，已另外保留一份副本。',
+  'recovery.download': '下载副本',
+  'recovery.dismiss': '忽略',
+  'recovery.confirmDiscard': '要删除损坏的副本吗？如果之后可能要修复，请先下载。',
+
+  'review.grade.again': '重来',
+  'review.grade.hard': '困难',
+  'review.grade.good': '良好',
+  'review.grade.easy': '简单',
+  'review.caughtUp': '全部复习完了！',
+  'review.reviewedCount': '你复习了 {count} 张卡片。',
+  'review.nothingDue': '现在没有需要复习的卡片。',
+  'review.left': '还剩 {count} 张',
+  'review.recallHint': '试着回想读音和意思。',
+  'review.showAnswer': '显示答案',
+
+  'stories.title': '故事存档',
+  'stories.using': '使用“{word}”的故事',
+  'stories.showAll': '显示全部',
+  'stories.countOne': '已保存 1 个故事',
+  'stories.count': '已保存 {count} 个故事',
+  'stories.empty': '还没有故事。',
+  'stories.lines': '{count} 行',
+  'stories.delete': '删除故事',
+
+  'composer.title': '创作故事',
+  'composer.subtitle': '用你选的单词写一个故事',
+  'composer.level': '难度',
+  'composer.levelAuto': '自动',
+  'composer.length': '长度',
+  'composer.length.short': '短',
+  'composer.length.medium': '中',
+  'composer.length.long': '长',
+  'composer.genre': '类型',
+  'composer.genre.sliceOfLife': '☕ 日常',
+  'composer.genre.comedy': '😂 喜剧',
+  'composer.genre.dialogue': '💬 对话',
+  'composer.genre.mystery': '🔍 悬疑',
+  'composer.genre.fantasy': '🐉 奇幻',
+  'composer.genre.romance': '💕 爱情',
+  'composer.words': '单词（{selected}/{max}）',
+  'composer.newest': '最新',
+  'composer.weak': '薄弱',
+  'composer.random': '随机',
+  'composer.none': '清空',
+
+  'story.showTranslation': '显示中文',
+  'story.hideTranslation': '隐藏中文',
+  'story.download': '下载故事音频',
+  'story.preparing': '正在准备...',
+  'story.downloadFailed': '无法准备故事音频，请重试。',
+  'story.stop': '停止',
+  'story.listen': '收听故事',
+  'story.playLine': '播放这一行',
+
+  'tags.placeholder': '标签，例如 N3, 工作, 动漫',
+  'tags.folder': '文件夹',
+  'tags.save': '保存',
+  'tags.cancel': '取消',
+
+  'toolbar.search': '搜索单词、读音、释义、例句...',
+  'toolbar.allFolders': '全部文件夹',
+  'toolbar.unfiled': '未分类',
+  'toolbar.sort.newest': '最新在前',
+  'toolbar.sort.oldest': '最早在前',
+  'toolbar.sort.alphabetical': 'A → Z',
+  'toolbar.sort.kana': 'あいうえお',
+};
@@ -0,0 +1,384 @@
+import { MessageKey } from './en';
+
+export const zhTW: Record<MessageKey, string> = {
+  'app.tagline': '日語學習詞典',
+  'app.footer': '由 Google Gemini 與 Imagen 提供支援',
+
+  'header.settings': '設定',
+  'header.wordbook': '單字本',
+  'header.dueToday': '今天有 {count} 個待複習',
+  'header.login': '登入',
+  'header.syncFailed': '同步失敗，點擊重試',
+  'header.lastSynced': '上次同步：{time}',
+  'header.syncNow': '立即同步',
+  'header.exit': '登出',
+
+  'search.placeholder': '輸入日語或中文……',
+  'search.uploadImage': '辨識照片中的文字',
+  'search.liveScan': '即時相機掃描',
+  'search.submit': '查詢',
+  'search.loading': '正在翻閱小黃書……',
+  'search.empty': '查一個詞或上傳一張圖片，開始你的旅程吧。',
+  'search.failed': '找不到這個詞，請重試。',
+  'search.ocrFailed': '無法辨識圖片中的文字。',
+  'search.modeJpToCn': '日 → 中',
+  'search.modeCnToJp': '中 → 日',
+  'search.placeholderCnToJp': '輸入中文，看看日語怎麼說……',
+  'search.candidatesFailed': '找不到對應的日語說法，請重試。',
+  'search.modeAnalyze': '句子分析',
+  'search.placeholderAnalyze': '貼上一句或一段日語……',
+  'search.analyzeFailed': '無法分析這段文字，請重試。',
+
+  'wordbook.title': '我的單字本',
+  'wordbook.showing': '顯示 {shown} / {total} 個單字',
+  'wordbook.memorized': '已收藏 {count} 個單字',
+  'wordbook.review': '🃏 複習',
+  'wordbook.quiz': '✏️ 測驗',
+  'wordbook.exportCsv': '匯出 CSV',
+  'wordbook.import': '匯入',
+  'wordbook.anki': 'Anki 牌組',
+  'wordbook.stories': '📚 故事',
+  'wordbook.createStory': '✨ 生成故事',
+  'wordbook.createStoryHint': '從目前顯示的單字中最多選 {count} 個',
+  'wordbook.thinking': '思考中……',
+  'wordbook.storyHeading': 'AI 生成的情境',
+  'wordbook.closeStory': '關閉故事',
+  'wordbook.generatingStory': '✨ 正在絞盡腦汁……',
+  'wordbook.storyFailed': '故事生成失敗。',
+  'wordbook.empty': '還沒有收藏任何單字。',
+  'wordbook.noMatches': '沒有符合篩選條件的單字。',
+  'wordbook.list': '列表',
+  'wordbook.graph': '關係圖',
+  'wordbook.storiesForWord': '使用這個詞的故事',
+  'wordbook.tags': '標籤與資料夾',
+  'wordbook.details': '查看詳情',
+  'wordbook.playAudio': '播放發音',
+  'wordbook.remove': '刪除',
+  'wordbook.confirmRemove': '要把「{word}」從單字本中刪除嗎？',
+  'wordbook.confirmDeleteStory': '要刪除故事「{title}」嗎？',
+  'wordbook.addedAll': '已將 {count} 個單字加入單字本。',
+  'wordbook.addedSome': '已加入 {added} / {total} 個單字。',
+  'wordbook.someFailed': '部分單字無法查詢。',
+  'wordbook.back': '← 單字本',
+  'wordbook.backTo': '返回單字本',
+
+  'result.playWord': '播放發音',
+  'result.practiseWord': '練習這個詞的發音',
+  'result.sayIt': '跟讀',
+  'result.jlptLevel': 'JLPT 級別',
+  'result.saveSenseHint': '把這個義項存入單字本',
+  'result.saved': '已收藏',
+  'result.saveSense': '收藏這個義項',
+  'result.definitionJp': '日文釋義',
+  'result.definitionCn': '中文釋義',
+  'result.example': '例句',
+  'result.practiseSentence': '練習這句話的發音',
+  'result.loadingAudio': '音訊載入中……',
+  'result.readAloud': '朗讀',
+  'result.usageNotes': '用法說明',
+  'result.conjugations': '活用形',
+  'result.synonyms': '近義詞',
+  'result.antonyms': '反義詞',
+  'result.collocations': '常用搭配',
+  'result.phrases': '慣用語',
+  'result.visualization': 'AI 插圖',
+  'result.regenerateImage': '重新生成圖片',
+  'result.drawing': '正在作畫……',
+  'result.imageAlt': '「{word}」的 AI 插圖',
+  'result.imageUnavailable': '暫無圖片',
+  'result.imageCredit': '由 Imagen 生成',
+  'result.pinImage': '設為最愛',
+  'result.unpinImage': '取消最愛',
+  'result.deleteImage': '刪除圖片',
+  'result.confirmDeleteImage': '刪除這張圖片？',
+  'result.showImage': '顯示第 {index} 張圖片',
+  'result.galleryHint': '設為最愛的圖片會顯示在單字本和 Anki 牌組中。每個單字最多保留 {count} 張。',
+
+  'candidates.title': '「{query}」的日語說法',
+  'candidates.hint': '越前面越自然。點擊查看完整詞條。',
+  'candidates.falseFriendsTitle': '⚠️ 同形異義詞',
+  'candidates.falseFriendsHint': '漢字相同，日語裡的意思卻不一樣：不能用來表達「{query}」。',
+  'candidates.tag.common': '常用',
+  'candidates.tag.formal': '正式',
+  'candidates.tag.casual': '隨意',
+  'candidates.tag.written': '書面語',
+  'candidates.tag.spoken': '口語',
+  'candidates.tag.literary': '文學',
+  'candidates.tag.false_friend': '⚠️ 同形異義',
+
+  'analyze.hint': '點擊單字查看原形，可打開詞條，或連同這句話一起收藏。',
+  'analyze.asWritten': '原文為「{text}」',
+  'analyze.openEntry': '查看詞條',
+  'analyze.addToWordbook': '+ 單字本',
+  'analyze.alreadySaved': '「{word}」已在單字本中。',
+  'analyze.translation': '譯文',
+  'analyze.grammar': '文法重點',
+
+  'kanji.title': '漢字',
+  'kanji.onyomi': '音讀',
+  'kanji.kunyomi': '訓讀',
+  'kanji.radical': '部首',
+  'kanji.components': '部件',
+  'kanji.strokes': '筆畫數',
+  'kanji.replay': '重播',
+  'kanji.noStrokeData': '暫無這個字的筆順',
+  'kanji.strokeCredit': '筆順資料：KanjiVG（CC BY-SA 3.0）',
+  'kanji.wordbookWords': '單字本中的詞',
+  'kanji.noWordbookWords': '單字本裡還沒有其他使用這個字的詞。',
+  'kanji.loading': '正在查詢漢字……',
+  'kanji.failed': '無法載入漢字詳情。',
+
+  'graph.sharedKanji': '相同漢字',
+  'graph.noLinks': '還沒有關聯：單字含有相同漢字，或詞典列為相關詞時會連起來。',
+  'graph.limited': '只顯示最近的 {count} 個單字',
+
+  'settings.title': '設定',
+  'settings.language': '介面語言',
+  'settings.chineseScript': '釋義與翻譯使用的中文',
+  'settings.simplified': '簡體',
+  'settings.traditional': '繁體',
+  'settings.chineseScriptNote': '對之後的查詢與故事生效，單字本裡已有的單字維持不變。',
+  'settings.usage': '今日 AI 用量',
+  'settings.usageNote': '讀取快取不計次數。可以為每項設定每日上限，0 表示不限。',
+  'settings.used': '已用',
+  'settings.dailyLimit': '每日上限',
+  'settings.imageStyle': '圖片風格',
+  'settings.imageStyleNote': '用於新產生的圖片，已有圖片保持不變。',
+  'settings.promptSuffix': '附加提示詞',
+  'settings.promptSuffixPlaceholder': '例如：鉛筆素描，黑白',
+  'imageStyle.random': '隨機',
+  'imageStyle.watercolor': '水彩',
+  'imageStyle.anime': '動漫',
+  'imageStyle.pastel': '粉彩',
+  'imageStyle.ukiyoe': '浮世繪',
+  'imageStyle.ghibli': '吉卜力風',
+
+  'capability.definition': '查詞',
+  'capability.ocr': '圖片識字',
+  'capability.story': '故事',
+  'capability.image': '插圖',
+  'capability.speech': '語音',
+  'capability.pronunciation': '發音評測',
+
+  'error.notAWord': '「{query}」看起來不是日語或中文的詞語。請檢查拼寫，或換一個更短的說法。',
+  'error.emptyQuery': '請輸入一個日語或中文詞語。',
+  'error.usageLimit': '今天的「{capability}」已達到 {limit} 次上限。可以在設定中調高。',
+  'error.quota': 'AI 服務的配額暫時用完了，請過幾分鐘再試。',
+  'error.safety': 'AI 的內容過濾拒絕了這個請求，請換一種說法。',
+  'error.network': '無法連線至 AI 服務，請檢查網路後重試。',
+  'error.malformed': 'AI 回傳的結果無法讀取，請重試。',
+
+  'anki.title': '匯出到 Anki',
+  'anki.selected': '已選 {selected} / {total} 個單字',
+  'anki.deckName': '牌組名稱',
+  'anki.from': '加入日期從',
+  'anki.until': '加入日期至',
+  'anki.includeAudio': '包含音訊（單字和例句）',
+  'anki.includeImages': '包含圖片',
+  'anki.mediaNote': '會沿用已快取的音訊和每個單字設為最愛的圖片；缺少的會重新產生，可能需要一些時間。',
+  'anki.selectAll': '全選',
+  'anki.deselectAll': '全部取消',
+  'anki.emptyRange': '這個日期範圍內沒有單字。',
+  'anki.failed': '無法產生 Anki 牌組，請重試。',
+  'anki.building': '正在產生 {done}/{total}…',
+  'anki.export': '匯出 {count} 張卡片',
+
+  'player.play': '播放',
+  'player.pause': '暫停',
+  'player.stop': '停止',
+  'player.replay': '重播',
+  'player.loopStart': '設定循環起點',
+  'player.loopEnd': '設定循環終點',
+  'player.loopClear': '取消循環',
+  'player.voice': '聲音（從下一段開始生效）',
+  'player.download': '下載為 .wav',
+
+  'backup.label': '備份：個人資料、設定和單字本合為一個檔案',
+  'backup.backUp': '備份',
+  'backup.restore': '還原',
+  'backup.confirmRestore': '要用 {date} 的備份（{count} 個單字）取代你的單字本和設定嗎？',
+  'backup.invalid': '這個檔案不是有效的備份。',
+  'backup.wrongFormat': '這個檔案不是小黃書的備份。CSV 或單字本 JSON 檔案請使用「匯入」。',
+  'backup.tooNew': '這個備份由較新版本的應用程式產生，請先更新應用程式。',
+
+  'cache.stats': '離線快取：{entries} 項 · {bytes} / {max}',
+  'cache.statsLoading': '離線快取：...',
+  'cache.confirmClear': '要清除所有已快取的釋義和音訊嗎？單字本和已儲存的圖片會保留。',
+  'cache.clearing': '正在清除...',
+  'cache.clear': '清除快取',
+
+  'scanner.cameraUnavailable': '即時掃描需要使用相機。你也可以改為上傳照片。',
+  'scanner.lookupFailed': '無法查詢這個詞。',
+  'scanner.reading': '正在辨識...',
+  'scanner.holdSteady': '對準日文文字並保持穩定',
+  'scanner.close': '關閉相機',
+  'scanner.save': '儲存',
+  'scanner.fullEntry': '查看完整詞條',
+  'scanner.lookingUp': '正在查詢...',
+  'scanner.clear': '清除',
+
+  'furigana.label': '假名注音',
+  'furigana.show': '顯示假名注音',
+  'furigana.unknownOnly': '隱藏單字本中漢字的假名注音',
+  'furigana.hide': '隱藏假名注音',
+
+  'import.title': '匯入單字本',
+  'import.summary': '{file} · {format} · {count} 個單字，其中 {duplicates} 個已儲存',
+  'import.hint': '本應用程式匯出的 CSV、JSON 備份，或 Anki 的「純文字筆記」匯出',
+  'import.format.csv': 'CSV',
+  'import.format.anki': 'Anki 文字匯出',
+  'import.format.json': 'JSON 備份',
+  'import.unreadable': '無法讀取這個檔案。支援的格式：CSV、JSON 備份、Anki 純文字匯出。',
+  'import.done': '已匯入：新增 {added} 個，更新 {updated} 個，略過 {skipped} 個。',
+  'import.chooseFile': '選擇檔案...',
+  'import.chooseAnother': '選擇其他檔案',
+  'import.ignore': '忽略',
+  'import.duplicate': '重複',
+  'import.previewLimit': '僅顯示前 {count} 列。',
+  'import.duplicates': '重複項：',
+  'import.strategy.skip': '略過',
+  'import.strategy.skipHint': '保留現有條目',
+  'import.strategy.overwrite': '覆寫',
+  'import.strategy.overwriteHint': '用匯入的內容取代',
+  'import.strategy.merge': '合併',
+  'import.strategy.mergeHint': '只填寫空白欄位',
+  'import.submit': '匯入 {count} 個單字',
+  'import.field.word': '單字',
+  'import.field.reading': '讀音',
+  'import.field.definition': '釋義（中文）',
+  'import.field.definition_jp': '釋義（日文）',
+  'import.field.example_jp': '例句（日文）',
+  'import.field.example_cn': '例句（中文）',
+  'import.field.timestamp': '加入日期',
+  'import.field.part_of_speech': '詞性',
+
+  'login.title': '登入以同步',
+  'login.subtitle': '在所有裝置上共用同一個單字本',
+  'login.server': '同步伺服器',
+  'login.email': '電子郵件',
+  'login.code': '登入驗證碼',
+  'login.codeHint': '請查看你的電子郵件。本機伺服器會在主控台中印出驗證碼。',
+  'login.otherEmail': '使用其他電子郵件',
+  'login.wait': '請稍候...',
+  'login.submit': '登入',
+  'login.sendCode': '傳送驗證碼',
+  'login.unreachable': '無法連線到 {server}。',
+  'login.sessionExpired': '登入已過期，請重新登入。',
+
+  'ocr.found': '找到 {count} 處 · 點按單字或拖出方框來選取',
+  'ocr.imageAlt': '上傳的圖片',
+  'ocr.unlocated': '有 {count} 項無法在照片上定位。',
+  'ocr.clear': '清除',
+  'ocr.adding': '正在加入...',
+  'ocr.add': '加入單字本',
+  'ocr.addCount': '將 {count} 個加入單字本',
+  'ocr.lookUp': '查詢',
+
+  'practice.assessFailed': '無法評估這段錄音，請重試。',
+  'practice.micUnavailable': '練習發音需要使用麥克風。',
+  'practice.reference': '示範',
+  'practice.you': '你的發音',
+  'practice.noRecording': '還沒有錄音',
+  'practice.stop': '停止',
+  'practice.recordAgain': '重新錄音',
+  'practice.record': '錄音',
+  'practice.listening': '正在分析...',
+  'practice.heard': '辨識結果：',
+  'practice.pitchAccent': '音調',
+  'practice.recentAttempts': '最近的練習',
+
+  'quiz.title': '測驗',
+  'quiz.mode.meaning': '釋義',
+  'quiz.mode.meaningHint': '選出正確的釋義',
+  'quiz.mode.reading': '讀音',
+  'quiz.mode.readingHint': '輸入讀音，也可以用羅馬字',
+  'quiz.mode.cloze': '填空',
+  'quiz.mode.clozeHint': '填寫例句中的空缺',
+  'quiz.words': '單字：',
+  'quiz.allShown': '目前顯示的全部（{count}）',
+  'quiz.weakWords': '薄弱單字（{count}）',
+  'quiz.questions': '題數：',
+  'quiz.noWords': '還沒有適合這種測驗的單字。',
+  'quiz.questionCount': '{count} 道題',
+  'quiz.start': '開始',
+  'quiz.correctOf': '答對 {score} / {total}',
+  'quiz.weakHeading': '薄弱單字',
+  'quiz.practiceMistakes': '練習答錯的題',
+  'quiz.newQuiz': '新測驗',
+  'quiz.finish': '結束',
+  'quiz.progress': '{current} / {total} · 答對 {score} 題',
+  'quiz.correct': '答對了！',
+  'quiz.incorrect': '不太對。',
+  'quiz.readingPlaceholder': '用假名或羅馬字輸入讀音',
+  'quiz.check': '檢查',
+  'quiz.seeResults': '查看結果',
+  'quiz.next': '下一題',
+
+  'recovery.unreadable': '{date} 無法讀取已儲存的資料「{key}」，已另外保留一份副本。',
+  'recovery.download': '下載副本',
+  'recovery.dismiss': '忽略',
+  'recovery.confirmDiscard': '要刪除損壞的副本嗎？如果之後可能要修復，請先下載。',
+
+  'review.grade.again': '重來',
+  'review.grade.hard': '困難',
+  'review.grade.good': '良好',
+  'review.grade.easy': '簡單',
+  'review.caughtUp': '全部複習完了！',
+  'review.reviewedCount': '你複習了 {count} 張卡片。',
+  'review.nothingDue': '現在沒有需要複習的卡片。',
+  'review.left': '還剩 {count} 張',
+  'review.recallHint': '試著回想讀音和意思。',
+  'review.showAnswer': '顯示答案',
+
+  'stories.title': '故事存檔',
+  'stories.using': '使用「{word}」的故事',
+  'stories.showAll': '顯示全部',
+  'stories.countOne': '已儲存 1 個故事',
+  'stories.count': '已儲存 {count} 個故事',
+  'stories.empty': '還沒有故事。',
+  'stories.lines': '{count} 行',
+  'stories.delete': '刪除故事',
+
+  'composer.title': '創作故事',
+  'composer.subtitle': '用你選的單字寫一個故事',
+  'composer.level': '難度',
+  'composer.levelAuto': '自動',
+  'composer.length': '長度',
+  'composer.length.short': '短',
+  'composer.length.medium': '中',
+  'composer.length.long': '長',
+  'composer.genre': '類型',
+  'composer.genre.sliceOfLife': '☕ 日常',
+  'composer.genre.comedy': '😂 喜劇',
+  'composer.genre.dialogue': '💬 對話',
+  'composer.genre.mystery': '🔍 懸疑',
+  'composer.genre.fantasy': '🐉 奇幻',
+  'composer.genre.romance': '💕 愛情',
+  'composer.words': '單字（{selected}/{max}）',
+  'composer.newest': '最新',
+  'composer.weak': '薄弱',
+  'composer.random': '隨機',
+  'composer.none': '清空',
+
+  'story.showTranslation': '顯示中文',
+  'story.hideTranslation': '隱藏中文',
+  'story.download': '下載故事音訊',
+  'story.preparing': '正在準備...',
+  'story.downloadFailed': '無法準備故事音訊，請重試。',
+  'story.stop': '停止',
+  'story.listen': '收聽故事',
+  'story.playLine': '播放這一行',
+
+  'tags.placeholder': '標籤，例如 N3, 工作, 動漫',
+  'tags.folder': '資料夾',
+  'tags.save': '儲存',
+  'tags.cancel': '取消',
+
+  'toolbar.search': '搜尋單字、讀音、釋義、例句...',
+  'toolbar.allFolders': '全部資料夾',
+  'toolbar.unfiled': '未分類',
+  'toolbar.sort.newest': '最新在前',
+  'toolbar.sort.oldest': '最早在前',
+  'toolbar.sort.alphabetical': 'A → Z',
+  'toolbar.sort.kana': 'あいうえお',
+};
@@ -0,0 +1,68 @@
+// Service worker: keeps the app shell and its CDN dependencies cached so the app opens offline.
+// Wordbook data lives in localStorage and IndexedDB already; AI calls are never cached here.
+
+// Filled in by `npm run build` (precacheBuildAssets in vite.config.ts): the hashed JS and CSS bundles,
+// and an id that changes with them so each release starts a fresh cache
+const BUILD_ASSETS = [];
+const BUILD_ID = 'dev';
+
+const CACHE = `lyb-shell-${BUILD_ID}`;
+// The bundles are precached too: the worker registers after the page has loaded them, so they'd never be cached otherwise.
+// So is the stroke data (about 2 MB), which is only fetched when a kanji breakdown opens, so stroke order works offline from the start
+const SHELL = ['/', '/index.html', '/manifest.webmanifest', '/icon.svg', '/kanjivg/strokes.json', ...BUILD_ASSETS];
+
+// Scripts, styles and fonts loaded from CDNs by index.html and the import map
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com', 'aistudiocdn.com'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const putInCache = (request, response) => {
+  if (response.ok || response.type === 'opaque') {
+    const copy = response.clone();
+    caches.open(CACHE).then(cache => cache.put(request, copy));
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Every route (/word/…, /wordbook, /share…) is the same page; prefer a fresh one, fall back to the cached shell
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then(response => putInCache('/index.html', response))
+        .catch(() => caches.match('/index.html'))
+    );
+    return;
+  }
+
+  // Built assets have content hashes in their names, and the stroke data changes only with a release
+  // (which starts a new cache), so a cached copy never goes stale
+  if (url.origin === self.location.origin && (url.pathname.startsWith('/assets/') || url.pathname.startsWith('/kanjivg/'))) {
+    event.respondWith(caches.match(request).then(cached => cached || fetch(request).then(response => putInCache(request, response))));
+    return;
+  }
+
+  // CDN files: answer from the cache at once and refresh it in the background
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(
+      caches.match(request).then(cached => {
+        const network = fetch(request).then(response => putInCache(request, response)).catch(() => cached);
+        return cached || network;
+      })
+    );
+  }
+});
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+/**
+ * Builds public/kanjivg/strokes.json, the stroke-order data behind the kanji breakdown,
+ * from the KanjiVG SVGs shipped in the kanjivg-js package (dev dependency).
+ *
+ *   npm run kanji-strokes
+ *
+ * Covers the Jōyō kanji (joyo-kanji package). Each entry is the `d` attribute of every stroke
+ * path, in writing order, on KanjiVG's 109×109 canvas. The data is KanjiVG, © Ulrich Apel,
+ * CC BY-SA 3.0 (https://kanjivg.tagaini.net); the output keeps that licence.
+ */
+import { createRequire } from 'node:module';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const require = createRequire(import.meta.url);
+const ROOT = join(dirname(fileURLToPath(import.meta.url)), '..');
+const OUT_DIR = join(ROOT, 'public', 'kanjivg');
+
+// kanjivg-js doesn't export its package.json; its main file is dist/index.js, next to ../kanji
+const SVG_DIR = join(dirname(require.resolve('kanjivg-js')), '..', 'kanji');
+const { kanji: JOYO } = require('joyo-kanji');
+
+const ATTRIBUTION = 'Stroke data from KanjiVG (https://kanjivg.tagaini.net), Copyright (C) 2009-2011 Ulrich Apel, ' +
+  'licensed under Creative Commons Attribution-Share Alike 3.0 (https://creativecommons.org/licenses/by-sa/3.0/).';
+
+// Stroke paths are `kvg:<hex>-s<n>`; sorting on n keeps writing order even if the file nests them unusually
+const STROKE_PATH = /<path\s[^>]*id="kvg:[0-9a-f]+-s(\d+)"[^>]*\sd="([^"]+)"/g;
+
+const strokesOf = (character) => {
+  const file = join(SVG_DIR, `${character.codePointAt(0).toString(16).padStart(5, '0')}.svg`);
+  if (!existsSync(file)) return null;
+  return [...readFileSync(file, 'utf8').matchAll(STROKE_PATH)]
+    .sort((a, b) => Number(a[1]) - Number(b[1]))
+    .map(match => match[2]);
+};
+
+const entries = [];
+const missing = [];
+for (const character of JOYO) {
+  const strokes = strokesOf(character);
+  if (strokes?.length) entries.push(`${JSON.stringify(character)}:${JSON.stringify(strokes)}`);
+  else missing.push(character);
+}
+
+mkdirSync(OUT_DIR, { recursive: true });
+// One kanji per line keeps regenerated files diffable
+writeFileSync(
+  join(OUT_DIR, 'strokes.json'),
+  `{"attribution":${JSON.stringify(ATTRIBUTION)},\n"size":109,\n"strokes":{\n${entries.join(',\n')}\n}}\n`
+);
+console.log(`Wrote ${entries.length} kanji to public/kanjivg/strokes.json`);
+if (missing.length) console.warn(`No KanjiVG data for: ${missing.join('')}`);
@@ -0,0 +1,215 @@
+#!/usr/bin/env node
+/**
+ * Reference Wordbook sync server. No dependencies, data kept in a single JSON file.
+ *
+ *   npm run sync-server            # listens on 0.0.0.0:8787
+ *   PORT=9000 SYNC_DATA_FILE=./sync.json npm run sync-server
+ *
+ * Sign-in is passwordless. POST /auth/start with an email prints a one-time code to this
+ * console (wire up a mailer in sendCode for a shared deployment), POST /auth/verify exchanges
+ * it for a bearer token.
+ *
+ * Sync protocol (see utils/syncUtils.ts for the client side):
+ *   GET  /sync?since=<cursor>  -> { changes: SyncRecord[], cursor }
+ *   POST /sync { changes: SyncChange[] } -> { accepted: {id, rev}[], conflicts: SyncRecord[], cursor }
+ * A change is accepted only if its baseRev is the record's current revision;
+ * otherwise the current record is returned as a conflict for the client to merge.
+ */
+import { createServer } from 'node:http';
+import { createHash, randomBytes, randomInt } from 'node:crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+
+const PORT = Number(process.env.PORT) || 8787;
+const DATA_FILE = process.env.SYNC_DATA_FILE || join(homedir(), '.little-yellow-book', 'sync-data.json');
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const CODE_TTL_MS = 10 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+
+// --- Storage ---
+
+/**
+ * users: { [email]: { name, cursor, records: { [id]: SyncRecord } } }
+ * tokens: { [sha256(token)]: email }
+ */
+const load = () => {
+  if (!existsSync(DATA_FILE)) return { users: {}, tokens: {} };
+  return JSON.parse(readFileSync(DATA_FILE, 'utf8'));
+};
+
+const db = load();
+
+let saveTimer = null;
+const save = () => {
+  clearTimeout(saveTimer);
+  saveTimer = setTimeout(() => {
+    mkdirSync(dirname(DATA_FILE), { recursive: true });
+    // Write then rename so a crash never leaves a half-written file
+    writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(db));
+    renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+  }, 200);
+};
+
+// Pending login codes are short-lived and intentionally not persisted
+const pendingCodes = new Map();
+
+const hashToken = (token) => createHash('sha256').update(token).digest('hex');
+
+const normalizeEmail = (email) => (typeof email === 'string' ? email.trim().toLowerCase() : '');
+
+const sendCode = (email, code) => {
+  console.log(`Login code for ${email}: ${code}`);
+};
+
+// --- HTTP helpers ---
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new HttpError(413, 'Request too large'));
+        req.destroy();
+      } else {
+        chunks.push(chunk);
+      }
+    });
+    req.on('end', () => {
+      try {
+        resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+      } catch {
+        reject(new HttpError(400, 'Invalid JSON'));
+      }
+    });
+    req.on('error', reject);
+  });
+
+const authenticate = (req) => {
+  const token = (req.headers.authorization || '').replace(/^Bearer\s+/i, '');
+  const email = token && db.tokens[hashToken(token)];
+  if (!email || !db.users[email]) throw new HttpError(401, 'Not signed in');
+  return { email, user: db.users[email], tokenHash: hashToken(token) };
+};
+
+// --- Routes ---
+
+const startLogin = async (req) => {
+  const { email: rawEmail } = await readBody(req);
+  const email = normalizeEmail(rawEmail);
+  if (!/^[^\s@]+@[^\s@]+$/.test(email)) throw new HttpError(400, 'Please enter a valid email address');
+
+  const code = String(randomInt(0, 1_000_000)).padStart(6, '0');
+  pendingCodes.set(email, { code, expiresAt: Date.now() + CODE_TTL_MS, attempts: 0 });
+  sendCode(email, code);
+};
+
+const verifyLogin = async (req) => {
+  const { email: rawEmail, code } = await readBody(req);
+  const email = normalizeEmail(rawEmail);
+  const pending = pendingCodes.get(email);
+  if (!pending || pending.expiresAt < Date.now()) throw new HttpError(400, 'The code has expired, please request a new one');
+
+  if (String(code).trim() !== pending.code) {
+    pending.attempts++;
+    if (pending.attempts >= MAX_CODE_ATTEMPTS) pendingCodes.delete(email);
+    throw new HttpError(400, 'Wrong code');
+  }
+  pendingCodes.delete(email);
+
+  if (!db.users[email]) db.users[email] = { name: email.split('@')[0], cursor: 0, records: {} };
+  const token = randomBytes(32).toString('hex');
+  db.tokens[hashToken(token)] = email;
+  save();
+
+  return { token, user: { name: db.users[email].name, email } };
+};
+
+const pull = (req, url) => {
+  const { user } = authenticate(req);
+  const since = Number(url.searchParams.get('since')) || 0;
+  const changes = Object.values(user.records)
+    .filter((record) => record.rev > since)
+    .sort((a, b) => a.rev - b.rev);
+  return { changes, cursor: user.cursor };
+};
+
+const push = async (req) => {
+  const { user } = authenticate(req);
+  const { changes } = await readBody(req);
+  if (!Array.isArray(changes)) throw new HttpError(400, 'Expected a list of changes');
+
+  const accepted = [];
+  const conflicts = [];
+  for (const change of changes) {
+    if (typeof change?.id !== 'string') continue;
+    const current = user.records[change.id];
+    if (current && current.rev !== (Number(change.baseRev) || 0)) {
+      conflicts.push(current);
+      continue;
+    }
+
+    const rev = ++user.cursor;
+    user.records[change.id] = change.deleted
+      ? { id: change.id, rev, updatedAt: Number(change.updatedAt) || Date.now(), deleted: true }
+      : { id: change.id, rev, updatedAt: Number(change.updatedAt) || Date.now(), deleted: false, item: change.item };
+    accepted.push({ id: change.id, rev });
+  }
+  if (accepted.length > 0) save();
+
+  return { accepted, conflicts, cursor: user.cursor };
+};
+
+const routes = {
+  'POST /auth/start': startLogin,
+  'POST /auth/verify': verifyLogin,
+  'GET /auth/me': (req) => {
+    const { email, user } = authenticate(req);
+    return { name: user.name, email };
+  },
+  'POST /auth/logout': (req) => {
+    const { tokenHash } = authenticate(req);
+    delete db.tokens[tokenHash];
+    save();
+  },
+  'GET /sync': pull,
+  'POST /sync': push,
+};
+
+createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204);
+
+  const url = new URL(req.url, 'http://localhost');
+  const handler = routes[`${req.method} ${url.pathname}`];
+  if (!handler) return send(res, 404, { error: 'Not found' });
+
+  try {
+    const body = await handler(req, url);
+    send(res, body === undefined ? 204 : 200, body);
+  } catch (err) {
+    if (err instanceof HttpError) return send(res, err.status, { error: err.message });
+    console.error(err);
+    send(res, 500, { error: 'Internal error' });
+  }
+}).listen(PORT, () => {
+  console.log(`Wordbook sync server on http://0.0.0.0:${PORT} (data: ${DATA_FILE})`);
+});
@@ -0,0 +1,68 @@
+import { AiCapability } from "../types";
+import { translate } from "../i18n";
+
+/**
+ * Failures of AI requests that the UI explains with a specific message (see describeAiError).
+ * Anything else is reported with the caller's generic fallback message.
+ */
+export class AiError extends Error {}
+
+/**
+ * The query is not a Japanese or Chinese word or phrase (gibberish, a sentence of instructions, an empty string).
+ */
+export class NotAWordError extends AiError {
+  constructor(public query: string) {
+    super(`"${query}" is not a word`);
+  }
+}
+
+/**
+ * The provider kept rejecting requests with 429 after every retry, or a local daily cap was reached.
+ */
+export class QuotaExceededError extends AiError {}
+
+/**
+ * Today's usage cap for a capability, set in Settings, was reached.
+ */
+export class UsageLimitError extends QuotaExceededError {
+  constructor(public capability: AiCapability, public limit: number) {
+    super(`Daily limit of ${limit} ${capability} requests reached`);
+  }
+}
+
+/**
+ * The provider's content filters blocked the prompt or the answer.
+ */
+export class SafetyBlockedError extends AiError {}
+
+/**
+ * The provider could not be reached at all.
+ */
+export class NetworkError extends AiError {}
+
+/**
+ * The model's answer was not JSON, or not in the shape the prompt asked for.
+ */
+export class MalformedResponseError extends AiError {
+  constructor(public issues: string[]) {
+    super(`Malformed AI response: ${issues.slice(0, 3).join('; ')}`);
+  }
+}
+
+/**
+ * A message for the user, in the UI language, explaining why an AI request failed.
+ * Errors outside the taxonomy get `fallback`.
+ */
+export const describeAiError = (error: unknown, fallback: string): string => {
+  if (error instanceof NotAWordError) {
+    return error.query ? translate('error.notAWord', { query: error.query }) : translate('error.emptyQuery');
+  }
+  if (error instanceof UsageLimitError) {
+    return translate('error.usageLimit', { limit: error.limit, capability: translate(`capability.${error.capability}`) });
+  }
+  if (error instanceof QuotaExceededError) return translate('error.quota');
+  if (error instanceof SafetyBlockedError) return translate('error.safety');
+  if (error instanceof NetworkError) return translate('error.network');
+  if (error instanceof MalformedResponseError) return translate('error.malformed');
+  return fallback;
+};
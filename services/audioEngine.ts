@@ -0,0 +1,275 @@
+import { generateSpeech } from "./geminiService";
+import { cancelChannel, isAbortError } from "./requestService";
+import { decodeAudioData, decodeBase64, downloadWav, encodeWav, pcmToWav } from "../utils/audioUtils";
+
+/**
+ * One shared AudioContext and a playback queue for everything the app speaks.
+ * Components read the state through subscribePlayback/getPlaybackState
+ * (with React's useSyncExternalStore) and control it with the exported functions.
+ */
+
+export interface AudioClip {
+  id: string; // Lets a view tell which of its clips is playing
+  text: string;
+}
+
+export type PlaybackStatus = 'idle' | 'loading' | 'playing' | 'paused';
+
+export interface PlaybackState {
+  status: PlaybackStatus;
+  clip: AudioClip | null; // Kept after the queue finishes so it can be replayed or downloaded
+  queue: AudioClip[]; // Still to play after the current clip
+  rate: number;
+  voice: string; // Empty for the provider's default voice
+  loop: { start: number; end: number } | null; // A-B loop, in seconds
+  duration: number;
+}
+
+const SAMPLE_RATE = 24000;
+// Pause between clips in a downloaded sequence
+const DOWNLOAD_GAP_SECONDS = 0.6;
+
+let ctx: AudioContext | null = null;
+let state: PlaybackState = {
+  status: 'idle',
+  clip: null,
+  queue: [],
+  rate: 1,
+  voice: '',
+  loop: null,
+  duration: 0,
+};
+const listeners = new Set<() => void>();
+
+let source: AudioBufferSourceNode | null = null;
+let buffer: AudioBuffer | null = null;
+// The clip was at `offset` seconds when the context clock read `startedAt`
+let offset = 0;
+let startedAt = 0;
+// Bumped whenever playback is interrupted, so late loads and `ended` events from old sources are ignored
+let generation = 0;
+let resolveQueue: (() => void) | null = null;
+
+const setState = (patch: Partial<PlaybackState>) => {
+  state = { ...state, ...patch };
+  listeners.forEach(listener => listener());
+};
+
+export const subscribePlayback = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const getPlaybackState = (): PlaybackState => state;
+
+const getContext = (): AudioContext => {
+  if (!ctx) {
+    const AudioContextClass = window.AudioContext || (window as any).webkitAudioContext;
+    ctx = new AudioContextClass({ sampleRate: SAMPLE_RATE });
+  }
+  // Browsers start contexts suspended until a user gesture
+  if (ctx.state === 'suspended') ctx.resume();
+  return ctx;
+};
+
+const stopSource = () => {
+  const old = source;
+  source = null;
+  if (old) {
+    old.onended = null;
+    try {
+      old.stop();
+    } catch {
+      // Already stopped
+    }
+    old.disconnect();
+  }
+};
+
+/**
+ * Current position in the clip, in seconds (wrapped into the A-B loop while looping).
+ */
+export const getPlaybackPosition = (): number => {
+  if (state.status !== 'playing' || !ctx) return offset;
+  let position = offset + (ctx.currentTime - startedAt) * state.rate;
+  const { loop } = state;
+  if (loop && position > loop.end) position = loop.start + ((position - loop.start) % (loop.end - loop.start));
+  return Math.min(position, state.duration);
+};
+
+const finishQueue = () => {
+  stopSource();
+  offset = 0;
+  setState({ status: 'idle', queue: [], loop: null });
+  resolveQueue?.();
+  resolveQueue = null;
+};
+
+const startSource = (from: number) => {
+  if (!buffer) return;
+  stopSource();
+  const audioCtx = getContext();
+  const node = audioCtx.createBufferSource();
+  node.buffer = buffer;
+  node.playbackRate.value = state.rate;
+  if (state.loop) {
+    node.loop = true;
+    node.loopStart = state.loop.start;
+    node.loopEnd = state.loop.end;
+  }
+  node.connect(audioCtx.destination);
+  node.onended = () => {
+    if (source === node) advance();
+  };
+  node.start(0, from);
+  source = node;
+  offset = from;
+  startedAt = audioCtx.currentTime;
+  setState({ status: 'playing' });
+};
+
+const loadSpeech = async (text: string, channel?: string): Promise<Uint8Array> =>
+  decodeBase64(await generateSpeech(text, state.voice, { channel }));
+
+const startClip = async (clip: AudioClip) => {
+  const run = ++generation;
+  stopSource();
+  offset = 0;
+  setState({ status: 'loading', clip, loop: null, duration: 0 });
+  try {
+    // A newer clip cancels this one's request
+    const pcm = await loadSpeech(clip.text, 'playback');
+    if (run !== generation) return;
+    buffer = await decodeAudioData(pcm, getContext(), SAMPLE_RATE);
+    if (run !== generation) return;
+    setState({ duration: buffer.duration });
+    startSource(0);
+  } catch (err) {
+    if (isAbortError(err)) return;
+    console.error("Audio playback failed", err);
+    if (run === generation) finishQueue();
+  }
+};
+
+const advance = () => {
+  const [next, ...rest] = state.queue;
+  if (!next) {
+    finishQueue();
+    return;
+  }
+  setState({ queue: rest });
+  startClip(next);
+};
+
+/**
+ * Replaces whatever is playing with the given clips, played in order.
+ * Resolves when the last clip ends or playback is stopped.
+ */
+export const playClips = (clips: AudioClip[]): Promise<void> => {
+  stopPlayback();
+  if (clips.length === 0) return Promise.resolve();
+  return new Promise(resolve => {
+    resolveQueue = resolve;
+    setState({ queue: clips.slice(1) });
+    startClip(clips[0]);
+  });
+};
+
+export const playText = (text: string, id: string = text) => playClips([{ id, text }]);
+
+/**
+ * Stops playback and clears the queue and current clip.
+ */
+export const stopPlayback = () => {
+  generation++;
+  cancelChannel('playback');
+  finishQueue();
+  buffer = null;
+  setState({ clip: null, duration: 0 });
+};
+
+export const pausePlayback = () => {
+  if (state.status !== 'playing') return;
+  offset = getPlaybackPosition();
+  stopSource();
+  setState({ status: 'paused' });
+};
+
+export const resumePlayback = () => {
+  if (state.status === 'paused') startSource(offset);
+};
+
+/**
+ * Plays the current clip again from the start (or from A when looping).
+ */
+export const replayPlayback = () => {
+  if (!buffer || !state.clip) return;
+  generation++;
+  startSource(state.loop?.start ?? 0);
+};
+
+export const seekPlayback = (seconds: number) => {
+  if (!buffer) return;
+  const position = Math.max(0, Math.min(seconds, buffer.duration));
+  if (state.status === 'playing') startSource(position);
+  else offset = position;
+};
+
+export const setPlaybackRate = (rate: number) => {
+  if (state.status === 'playing' && ctx) {
+    // Re-base the position so the clock keeps counting at the new speed
+    offset = getPlaybackPosition();
+    startedAt = ctx.currentTime;
+    if (source) source.playbackRate.value = rate;
+  }
+  setState({ rate });
+};
+
+export const setPlaybackVoice = (voice: string) => setState({ voice });
+
+/**
+ * Loops the current clip between two positions until the loop is cleared.
+ */
+export const setPlaybackLoop = (start: number, end: number) => {
+  if (!buffer || end - start < 0.1) return;
+  setState({ loop: { start, end } });
+  if (state.status === 'playing') startSource(start);
+  else offset = start;
+};
+
+export const clearPlaybackLoop = () => {
+  if (!state.loop) return;
+  const position = getPlaybackPosition();
+  setState({ loop: null });
+  if (state.status === 'playing') startSource(position);
+};
+
+const fileNameFor = (text: string) => `${text.replace(/[\\/:*?"<>|\s]+/g, '_').slice(0, 40) || 'audio'}.wav`;
+
+/**
+ * Downloads the clip currently loaded in the player.
+ */
+export const downloadCurrentClip = () => {
+  if (!buffer || !state.clip) return;
+  downloadWav(encodeWav(buffer), fileNameFor(state.clip.text));
+};
+
+/**
+ * Downloads several texts spoken one after another as a single WAV file.
+ */
+export const downloadSpeech = async (texts: string[], name: string) => {
+  const gap = new Uint8Array(Math.round(SAMPLE_RATE * DOWNLOAD_GAP_SECONDS) * 2);
+  const parts: Uint8Array[] = [];
+  for (const text of texts) {
+    if (parts.length > 0) parts.push(gap);
+    parts.push(await loadSpeech(text));
+  }
+
+  const pcm = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  parts.forEach(part => {
+    pcm.set(part, position);
+    position += part.length;
+  });
+  downloadWav(pcmToWav(pcm, SAMPLE_RATE), fileNameFor(name));
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CacheMeta, getCached, normalizeCacheKey, putCached, selectEvictions } from './cacheService';
+
+const meta = (id: string, size: number, lastAccessed: number): CacheMeta => ({
+  id,
+  kind: 'definition',
+  size,
+  createdAt: 0,
+  lastAccessed,
+});
+
+describe('selectEvictions', () => {
+  it('keeps everything while under both limits', () => {
+    expect(selectEvictions([meta('a', 10, 1), meta('b', 10, 2)], 100, 10)).toEqual([]);
+  });
+
+  it('drops the least recently used entries until the size fits', () => {
+    const metas = [meta('recent', 40, 30), meta('oldest', 40, 10), meta('middle', 40, 20)];
+    expect(selectEvictions(metas, 50, 10)).toEqual(['oldest', 'middle']);
+  });
+
+  it('drops the least recently used entries until the count fits', () => {
+    const metas = [meta('a', 1, 3), meta('b', 1, 1), meta('c', 1, 2)];
+    expect(selectEvictions(metas, 100, 2)).toEqual(['b']);
+  });
+});
+
+describe('normalizeCacheKey', () => {
+  it('folds width, case and whitespace so trivially different queries share an entry', () => {
+    expect(normalizeCacheKey('  Ｎｅｋｏ\t cat ')).toBe('neko cat');
+  });
+});
+
+describe('without IndexedDB', () => {
+  it('misses instead of failing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    await putCached('definition', '猫', { word: '猫' });
+    expect(await getCached('definition', '猫')).toBeNull();
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
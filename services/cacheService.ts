@@ -0,0 +1,199 @@
+/**
+ * Persistent IndexedDB cache for AI responses (definitions, images, speech),
+ * so revisiting a word is instant and works without a network.
+ * Entries are evicted least-recently-used first once the size limit is reached.
+ */
+
+// 'image' only holds pictures cached by older versions; new ones go to the image store (imageStore.ts)
+export type CacheKind = 'definition' | 'image' | 'speech';
+
+// Values and bookkeeping live in separate stores so eviction never has to load images or audio
+interface CacheValue {
+  id: string; // `${kind}:${normalizedKey}`
+  value: unknown;
+}
+
+export interface CacheMeta {
+  id: string;
+  kind: CacheKind;
+  size: number; // Approximate bytes
+  createdAt: number;
+  lastAccessed: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+const DB_NAME = 'lyb_cache';
+const DB_VERSION = 1;
+const VALUES = 'values';
+const META = 'meta';
+
+// Images and audio dominate the size, so the limit is generous but bounded
+export const MAX_CACHE_BYTES = 100 * 1024 * 1024;
+const MAX_ENTRIES = 5000;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(VALUES, { keyPath: 'id' });
+      request.result.createObjectStore(META, { keyPath: 'id' }).createIndex('lastAccessed', 'lastAccessed');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a later retry if opening failed (e.g. blocked by another tab)
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Also used by the image store (services/imageStore.ts), which keeps its own database
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const complete = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Normalizes a query or text so trivially different inputs share an entry.
+ */
+export const normalizeCacheKey = (text: string): string =>
+  text.normalize('NFKC').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const entryId = (kind: CacheKind, key: string) => `${kind}:${normalizeCacheKey(key)}`;
+
+const estimateSize = (value: unknown): number =>
+  (typeof value === 'string' ? value.length : JSON.stringify(value).length) * 2;
+
+/**
+ * Returns the cached value, or null on a miss or if IndexedDB is unavailable.
+ */
+export const getCached = async <T>(kind: CacheKind, key: string): Promise<T | null> => {
+  try {
+    const db = await openDb();
+    const id = entryId(kind, key);
+    const tx = db.transaction([VALUES, META], 'readwrite');
+    const entry = await promisify<CacheValue | undefined>(tx.objectStore(VALUES).get(id));
+    if (!entry) return null;
+
+    const metaStore = tx.objectStore(META);
+    const meta = await promisify<CacheMeta | undefined>(metaStore.get(id));
+    if (meta) metaStore.put({ ...meta, lastAccessed: Date.now() });
+    return entry.value as T;
+  } catch (e) {
+    console.warn("Cache read failed", e);
+    return null;
+  }
+};
+
+/**
+ * Stores a value, evicting the least recently used entries if over the limit.
+ * Failures are swallowed: the cache is an optimisation, never a requirement.
+ */
+export const putCached = async (kind: CacheKind, key: string, value: unknown): Promise<void> => {
+  try {
+    const size = estimateSize(value);
+    if (size > MAX_CACHE_BYTES) return;
+    const db = await openDb();
+    const id = entryId(kind, key);
+    const now = Date.now();
+
+    const tx = db.transaction([VALUES, META], 'readwrite');
+    tx.objectStore(VALUES).put({ id, value } as CacheValue);
+    tx.objectStore(META).put({ id, kind, size, createdAt: now, lastAccessed: now } as CacheMeta);
+    await complete(tx);
+
+    await evictIfNeeded(db);
+  } catch (e) {
+    console.warn("Cache write failed", e);
+  }
+};
+
+/**
+ * Ids of the least recently used entries to drop so the rest fits within the limits.
+ */
+export const selectEvictions = (
+  metas: CacheMeta[],
+  maxBytes: number = MAX_CACHE_BYTES,
+  maxEntries: number = MAX_ENTRIES
+): string[] => {
+  let bytes = metas.reduce((sum, m) => sum + m.size, 0);
+  let count = metas.length;
+  const evicted: string[] = [];
+
+  for (const meta of [...metas].sort((a, b) => a.lastAccessed - b.lastAccessed)) {
+    if (bytes <= maxBytes && count <= maxEntries) break;
+    evicted.push(meta.id);
+    bytes -= meta.size;
+    count--;
+  }
+  return evicted;
+};
+
+const evictIfNeeded = async (db: IDBDatabase): Promise<void> => {
+  const tx = db.transaction([VALUES, META], 'readwrite');
+  const metaStore = tx.objectStore(META);
+  const metas = await promisify(metaStore.index('lastAccessed').getAll()) as CacheMeta[];
+
+  for (const id of selectEvictions(metas)) {
+    tx.objectStore(VALUES).delete(id);
+    metaStore.delete(id);
+  }
+  await complete(tx);
+};
+
+/**
+ * Removes a single entry, e.g. when the user asks for a fresh image.
+ */
+export const deleteCached = async (kind: CacheKind, key: string): Promise<void> => {
+  try {
+    const db = await openDb();
+    const id = entryId(kind, key);
+    const tx = db.transaction([VALUES, META], 'readwrite');
+    tx.objectStore(VALUES).delete(id);
+    tx.objectStore(META).delete(id);
+    await complete(tx);
+  } catch (e) {
+    console.warn("Cache delete failed", e);
+  }
+};
+
+export const clearCache = async (): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([VALUES, META], 'readwrite');
+  tx.objectStore(VALUES).clear();
+  tx.objectStore(META).clear();
+  await complete(tx);
+};
+
+export const getCacheStats = async (): Promise<CacheStats> => {
+  try {
+    const db = await openDb();
+    const metas = await promisify(db.transaction(META, 'readonly').objectStore(META).getAll()) as CacheMeta[];
+    return {
+      entries: metas.length,
+      bytes: metas.reduce((sum, m) => sum + m.size, 0),
+      maxBytes: MAX_CACHE_BYTES,
+    };
+  } catch (e) {
+    return { entries: 0, bytes: 0, maxBytes: MAX_CACHE_BYTES };
+  }
+};
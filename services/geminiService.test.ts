@@ -0,0 +1,116 @@
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StoryGenre, StoryLength, WordHistoryItem } from '../types';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import { setAiProvider } from './providers/registry';
+import { NotAWordError } from './aiErrors';
+import { decodeBase64 } from '../utils/audioUtils';
+import {
+  analyzeSentence,
+  extractTextFromImage,
+  fetchDictionaryDefinition,
+  fetchJapaneseCandidates,
+  fetchKanjiDetails,
+  generateDailyStory,
+  generateSpeech,
+  generateWordImage,
+} from './geminiService';
+
+// Exercises the service layer end to end against the deterministic fixture provider
+beforeAll(() => {
+  setAiProvider(createFixtureProvider());
+});
+
+beforeEach(() => {
+  // jsdom has no IndexedDB, so every cache read and write logs a warning and misses
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('fetchDictionaryDefinition', () => {
+  it('looks up a known word by writing or reading', async () => {
+    const byWord = await fetchDictionaryDefinition('猫');
+    expect(byWord).toMatchObject({ word: '猫', reading: 'ねこ', jlpt_level: 'N5' });
+    expect(byWord.senses[0].part_of_speech).toBe('名詞');
+
+    expect((await fetchDictionaryDefinition(' ねこ ')).word).toBe('猫');
+  });
+
+  it('returns every sense of a word', async () => {
+    const result = await fetchDictionaryDefinition('食べる');
+    expect(result.senses).toHaveLength(2);
+    expect(result.conjugations.length).toBeGreaterThan(0);
+  });
+
+  it('makes up a placeholder entry for other words', async () => {
+    const result = await fetchDictionaryDefinition('犬');
+    expect(result.word).toBe('犬');
+    expect(result.senses[0].example_jp).toContain('犬');
+  });
+
+  it('rejects an empty query', async () => {
+    await expect(fetchDictionaryDefinition('   ')).rejects.toBeInstanceOf(NotAWordError);
+  });
+});
+
+describe('fetchJapaneseCandidates', () => {
+  it('ranks Japanese candidates for a Chinese word and flags false friends', async () => {
+    const result = await fetchJapaneseCandidates('打算');
+    expect(result.query).toBe('打算');
+    expect(result.candidates[0].word).toBe('つもり');
+    expect(result.false_friends.map(f => f.word)).toEqual(['打算']);
+  });
+});
+
+describe('fetchKanjiDetails', () => {
+  it('explains each kanji in the order asked', async () => {
+    const result = await fetchKanjiDetails(['食', '猫']);
+    expect(result.map(info => info.character)).toEqual(['食', '猫']);
+    expect(result[1].kunyomi).toEqual(['ねこ']);
+  });
+});
+
+describe('analyzeSentence', () => {
+  it('splits a sentence into tokens that cover the whole text', async () => {
+    const sentence = '猫が魚を食べる。';
+    const result = await analyzeSentence(sentence);
+    expect(result.tokens.map(token => token.text).join('')).toBe(sentence);
+    expect(result.grammar.length).toBeGreaterThan(0);
+  });
+});
+
+describe('extractTextFromImage', () => {
+  it('detects each text span with its box', async () => {
+    const spans = await extractTextFromImage('');
+    expect(spans.map(span => span.text)).toEqual(['勉強', '食べる', '猫']);
+    expect(spans[0].box.width).toBeGreaterThan(0);
+  });
+});
+
+describe('generateDailyStory', () => {
+  it('writes a line for every word', async () => {
+    const words = ['猫', '犬'].map((word, i): WordHistoryItem => ({
+      id: String(i), word, reading: '', definition: word, definition_jp: '', example_jp: '', example_cn: '', timestamp: 0,
+    }));
+    const story = await generateDailyStory(words, { level: '', length: StoryLength.SHORT, genre: StoryGenre.COMEDY });
+    expect(story.lines.flatMap(line => line.words)).toEqual(['猫', '犬']);
+  });
+});
+
+describe('generateWordImage', () => {
+  it('draws a picture labelled with the word in the preferred style', async () => {
+    const gallery = await generateWordImage('猫', '猫', { style: 'watercolor', promptSuffix: '' });
+    expect(gallery.word).toBe('猫');
+    expect(gallery.images).toHaveLength(1);
+    expect(gallery.images[0].style).toBe('watercolor');
+    expect(gallery.images[0].dataUrl).toMatch(/^data:image\/svg\+xml/);
+    expect(decodeURIComponent(gallery.images[0].dataUrl)).toContain('猫');
+  });
+});
+
+describe('generateSpeech', () => {
+  it('returns the same 16-bit audio for the same text', async () => {
+    const audio = await generateSpeech('ねこ');
+    expect(decodeBase64(audio).length % 2).toBe(0);
+    expect(await generateSpeech('ねこ')).toBe(audio);
+    expect(await generateSpeech('ねこ', 'High')).not.toBe(audio);
+  });
+});
@@ -1,140 +1,284 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { DictionaryResult, WordHistoryItem } from "../types";
+import { CandidateResult, DailyStory, DictionaryResult, ImageStyle, KanjiInfo, SentenceAnalysis, OcrSpan, PronunciationAssessment, StoryOptions, WordHistoryItem, WordImageGallery } from "../types";
+import { getAiProvider } from "./providers/registry";
+import { AiModelConfig } from "./providers/aiProvider";
+import { deleteCached, getCached, putCached } from "./cacheService";
+import { imageKey, loadGallery, saveWordImage } from "./imageStore";
+import { RequestOptions, runRequest } from "./requestService";
+import { MalformedResponseError, NotAWordError } from "./aiErrors";
+import { normalizeCandidateResult, normalizeDictionaryResult, normalizeQuery } from "../utils/dictionaryUtils";
+import { normalizeDailyStory } from "../utils/storyUtils";
+import { normalizeKanjiInfo } from "../utils/kanjiUtils";
+import { normalizeSentenceAnalysis } from "../utils/sentenceUtils";
+import { normalizePronunciationAssessment } from "../utils/pronunciationUtils";
+import { encodeBase64 } from "../utils/audioUtils";
 
-const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+/**
+ * Every provider call goes through runRequest (see requestService.ts); cache hits never count as requests.
+ * `options` lets callers cancel a call or put it on a channel where a newer call replaces it.
+ * Failures the UI can explain are thrown as the errors in aiErrors.ts.
+ */
+
+/**
+ * Prefixes a cache key with the active provider and model, so switching either
+ * (e.g. from the fixture provider to Gemini) never serves the other's cached answers.
+ */
+const scopedKey = (model: keyof AiModelConfig, key: string): string => {
+  const provider = getAiProvider();
+  return provider.models ? `${provider.name}/${provider.models[model]}:${key}` : `${provider.name}:${key}`;
+};
+
+// Providers validate answers against the schema; a malformed one is asked for once more before giving up
+const withRepairRetry = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (err) {
+    if (!(err instanceof MalformedResponseError)) throw err;
+    console.warn("Malformed AI response, asking again", err.issues);
+    return request();
+  }
+};
 
 /**
- * Fetches the dictionary definition using Gemini 2.5 Flash.
+ * Fetches the dictionary definition from the configured AI provider.
+ * Results are cached under both the normalized query and the resolved word.
+ * Pass `traditional` for Chinese text in Traditional characters; those entries are cached separately.
+ * Throws NotAWordError for empty input and for queries the model doesn't recognise as a word.
  */
-export const fetchDictionaryDefinition = async (query: string): Promise<DictionaryResult> => {
-  const ai = getClient();
-  
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: `Analyze the following word or phrase: "${query}".
-    It could be Japanese or Chinese.
-    Provide the Japanese word (Kanji/Kana), the reading (Kana), Romaji,
-    a detailed Chinese definition, a Japanese definition.
-    
-    CRITICAL: Create a FUNNY, INTERESTING, or slightly DRAMATIC example sentence pair (one in JP, one translated to CN).
-    Do not use boring textbook examples. Make it memorable.
-
-    Output purely structured JSON.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          word: { type: Type.STRING, description: "The target word in Japanese Kanji or Kana" },
-          reading: { type: Type.STRING, description: "The reading in Hiragana or Katakana" },
-          romaji: { type: Type.STRING, description: "The Romanized reading" },
-          definition_cn: { type: Type.STRING, description: "Definition in Chinese" },
-          definition_jp: { type: Type.STRING, description: "Definition in Japanese" },
-          example_jp: { type: Type.STRING, description: "A funny or interesting example sentence in Japanese" },
-          example_cn: { type: Type.STRING, description: "Example sentence translation in Chinese" },
-        },
-        required: ["word", "reading", "romaji", "definition_cn", "definition_jp", "example_jp", "example_cn"],
-      },
-    },
-  });
-
-  const text = response.text;
-  if (!text) throw new Error("No text returned from AI");
-  return JSON.parse(text) as DictionaryResult;
+export const fetchDictionaryDefinition = async (
+  query: string,
+  traditional: boolean = false,
+  options?: RequestOptions
+): Promise<DictionaryResult> => {
+  const normalized = normalizeQuery(query);
+  if (!normalized) throw new NotAWordError(normalized);
+  const cacheKey = (key: string) => scopedKey('text', `${traditional ? 'zh-TW:' : ''}${key}`);
+
+  const cached = await getCached<DictionaryResult>('definition', cacheKey(normalized));
+  if (cached) return normalizeDictionaryResult(cached);
+
+  const raw = await withRepairRetry(() =>
+    runRequest('definition', signal => getAiProvider().definition.define(normalized, traditional, signal), options)
+  );
+  if ((raw as { is_word?: boolean }).is_word === false) throw new NotAWordError(normalized);
+  const result = normalizeDictionaryResult(raw);
+  if (!result.word) throw new MalformedResponseError(['response.word is empty']);
+
+  await putCached('definition', cacheKey(normalized), result);
+  if (result.word !== normalized) await putCached('definition', cacheKey(result.word), result);
+  return result;
 };
 
 /**
- * OCR: Extracts text from an image using Gemini 2.5 Flash.
+ * Chinese→Japanese: ranked Japanese equivalents of a Chinese word, with the false friends to avoid.
+ * Counted as a definition request and cached next to definitions under a `cn2jp:` prefix.
+ * Throws NotAWordError for empty input, for queries the model doesn't recognise and when nothing fits.
  */
-export const extractTextFromImage = async (base64Image: string): Promise<string> => {
-  const ai = getClient();
-  
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: {
-      parts: [
-        {
-          inlineData: {
-            mimeType: "image/jpeg",
-            data: base64Image
-          }
-        },
-        {
-          text: "Identify the most prominent Japanese or Chinese word or short phrase in this image. Return ONLY the text of that word/phrase. Do not include punctuation or explanation."
-        }
-      ]
+export const fetchJapaneseCandidates = async (
+  query: string,
+  traditional: boolean = false,
+  options?: RequestOptions
+): Promise<CandidateResult> => {
+  const normalized = normalizeQuery(query);
+  if (!normalized) throw new NotAWordError(normalized);
+  const cacheKey = scopedKey('text', `${traditional ? 'zh-TW:' : ''}cn2jp:${normalized}`);
+
+  const cached = await getCached<CandidateResult>('definition', cacheKey);
+  if (cached) return normalizeCandidateResult(cached, normalized);
+
+  const raw = await withRepairRetry(() =>
+    runRequest('definition', signal => getAiProvider().definition.findJapanese(normalized, traditional, signal), options)
+  );
+  if ((raw as { is_word?: boolean }).is_word === false) throw new NotAWordError(normalized);
+  const result = normalizeCandidateResult(raw, normalized);
+  if (result.candidates.length === 0) throw new NotAWordError(normalized);
+
+  await putCached('definition', cacheKey, result);
+  return result;
+};
+
+// Room for a paragraph from a novel, not a whole chapter
+const MAX_SENTENCE_LENGTH = 400;
+
+/**
+ * Splits a sentence or paragraph into glossed tokens and explains its grammar.
+ * Counted as a definition request and cached next to definitions under a `sentence:` prefix.
+ */
+export const analyzeSentence = async (
+  text: string,
+  traditional: boolean = false,
+  options?: RequestOptions
+): Promise<SentenceAnalysis> => {
+  const normalized = normalizeQuery(text, MAX_SENTENCE_LENGTH);
+  if (!normalized) throw new NotAWordError(normalized);
+  const cacheKey = scopedKey('text', `${traditional ? 'zh-TW:' : ''}sentence:${normalized}`);
+
+  const cached = await getCached<SentenceAnalysis>('definition', cacheKey);
+  if (cached) return normalizeSentenceAnalysis(cached, normalized);
+
+  const raw = await withRepairRetry(() =>
+    runRequest('definition', signal => getAiProvider().definition.analyzeSentence(normalized, traditional, signal), options)
+  );
+  const result = normalizeSentenceAnalysis(raw, normalized);
+  if (result.tokens.length === 0) throw new MalformedResponseError(['response.tokens is empty']);
+
+  await putCached('definition', cacheKey, result);
+  return result;
+};
+
+/**
+ * Readings, meaning, radical and strokes for each kanji, in the order given.
+ * Characters are cached one by one, so only those never looked up before are sent, in a single request.
+ */
+export const fetchKanjiDetails = async (
+  characters: string[],
+  traditional: boolean = false,
+  options?: RequestOptions
+): Promise<KanjiInfo[]> => {
+  const cacheKey = (character: string) => scopedKey('text', `${traditional ? 'zh-TW:' : ''}kanji:${character}`);
+  const found = new Map<string, KanjiInfo>();
+  for (const character of characters) {
+    const cached = await getCached<KanjiInfo>('definition', cacheKey(character));
+    if (cached) found.set(character, normalizeKanjiInfo(cached, character));
+  }
+
+  const missing = characters.filter(character => !found.has(character));
+  if (missing.length > 0) {
+    const raw = await withRepairRetry(() =>
+      runRequest('definition', signal => getAiProvider().definition.explainKanji(missing, traditional, signal), options)
+    );
+    for (const character of missing) {
+      // Matched by character rather than position in case the model skipped or reordered one
+      const entry = raw.find(item => item.character === character);
+      if (!entry) continue;
+      const info = normalizeKanjiInfo(entry, character);
+      found.set(character, info);
+      await putCached('definition', cacheKey(character), info);
     }
-  });
-  
-  return response.text?.trim() || "";
+  }
+
+  return characters.flatMap(character => found.get(character) ?? []);
 };
 
 /**
- * Generates a story or dialogue from a list of words.
+ * OCR: Detects all text spans in an image, with bounding boxes.
  */
-export const generateDailyStory = async (words: WordHistoryItem[]): Promise<string> => {
-  const ai = getClient();
-  const wordList = words.map(w => `${w.word} (${w.definition})`).join(", ");
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash",
-    contents: `Create a short, funny, and coherent story or dialogue (in Japanese with Chinese translation) that incorporates ALL of the following words: ${wordList}.
-    Format it nicely with line breaks. The Japanese part should come first, followed by the Chinese translation.
-    Make it entertaining to help with memorization.`,
-  });
-
-  return response.text || "Could not generate story.";
+export const extractTextFromImage = async (base64Image: string, options?: RequestOptions): Promise<OcrSpan[]> => {
+  return withRepairRetry(() => runRequest('ocr', signal => getAiProvider().ocr.detectText(base64Image, signal), options));
+};
+
+/**
+ * Generates a story or dialogue, line by line, that uses every word in the list.
+ */
+export const generateDailyStory = async (
+  words: WordHistoryItem[],
+  options: StoryOptions,
+  traditional: boolean = false,
+  requestOptions?: RequestOptions
+): Promise<DailyStory> => {
+  const raw = await withRepairRetry(() =>
+    runRequest('story', signal => getAiProvider().story.writeStory(words, options, traditional, signal), requestOptions)
+  );
+  return normalizeDailyStory(raw, words.map(w => w.word));
+};
+
+export interface ImagePreferences {
+  style: ImageStyle;
+  promptSuffix: string; // Free text appended to the prompt
+}
+
+const IMAGE_STYLE_PROMPTS: Record<Exclude<ImageStyle, 'random'>, string> = {
+  watercolor: 'minimalist watercolor',
+  anime: 'vibrant anime style',
+  pastel: 'soft pastel illustration',
+  ukiyoe: 'ukiyo-e style',
+  ghibli: 'ghibli studio style',
+};
+
+export const IMAGE_STYLES: ImageStyle[] = ['random', ...(Object.keys(IMAGE_STYLE_PROMPTS) as ImageStyle[])];
+
+// Stores a picture in the word's gallery; without IndexedDB it is shown this once and not kept
+const keepImage = async (word: string, dataUrl: string, style: ImageStyle): Promise<WordImageGallery> => {
+  try {
+    return await saveWordImage(word, dataUrl, style);
+  } catch (e) {
+    console.warn("Could not store picture", e);
+    const image = { id: `${Date.now()}`, word: imageKey(word), dataUrl, thumbnail: dataUrl, style, createdAt: Date.now() };
+    return { word, images: [image], pinnedId: null };
+  }
 };
 
 /**
- * Generates an image representing the word using Imagen 4.0.
+ * The pictures already drawn for a word. One cached by older versions moves into the gallery on first visit.
  */
-export const generateWordImage = async (word: string, definition: string): Promise<string> => {
-  const ai = getClient();
-  
-  // Randomize style slightly to ensure "Refresh" feels different
-  const styles = ["minimalist watercolor", "vibrant anime style", "soft pastel illustration", "ukiyo-e style", "ghibli studio style"];
-  const randomStyle = styles[Math.floor(Math.random() * styles.length)];
-
-  const prompt = `A high-quality, artistic illustration representing the concept of "${word}" (${definition}). Style: ${randomStyle}. Aesthetic, clean composition.`;
-
-  const response = await ai.models.generateImages({
-    model: 'imagen-4.0-generate-001',
-    prompt: prompt,
-    config: {
-      numberOfImages: 1,
-      aspectRatio: '4:3',
-      outputMimeType: 'image/jpeg',
-    },
-  });
-
-  const base64ImageBytes = response.generatedImages?.[0]?.image?.imageBytes;
-  if (!base64ImageBytes) throw new Error("Failed to generate image");
-  
-  return `data:image/jpeg;base64,${base64ImageBytes}`;
+export const loadWordImages = async (word: string): Promise<WordImageGallery> => {
+  const gallery = await loadGallery(word);
+  if (gallery.images.length > 0) return gallery;
+
+  const legacy = await getCached<string>('image', word);
+  if (!legacy) return gallery;
+  const updated = await keepImage(word, legacy, 'random');
+  await deleteCached('image', word);
+  return updated;
 };
 
 /**
- * Generates speech audio for the given text.
+ * Draws a new picture of the word and adds it to the word's gallery, which is returned.
+ * The style comes from `preferences`, or a different one each time for 'random'.
  */
-export const generateSpeech = async (text: string): Promise<string> => {
-  const ai = getClient();
-
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: {
-          prebuiltVoiceConfig: { voiceName: 'Kore' },
-        },
-      },
-    },
-  });
-
-  const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-  if (!base64Audio) throw new Error("No audio data returned");
-  
+export const generateWordImage = async (
+  word: string,
+  definition: string,
+  preferences: ImagePreferences = { style: 'random', promptSuffix: '' },
+  options?: RequestOptions
+): Promise<WordImageGallery> => {
+  const styles = Object.keys(IMAGE_STYLE_PROMPTS) as Exclude<ImageStyle, 'random'>[];
+  const style = preferences.style !== 'random' && IMAGE_STYLE_PROMPTS[preferences.style]
+    ? preferences.style
+    : styles[Math.floor(Math.random() * styles.length)];
+
+  // Quotes and line breaks would let a Wordbook entry break out of the sentence it is quoted in
+  const subject = normalizeQuery(word).replace(/"/g, '');
+  const meaning = normalizeQuery(definition, 200).replace(/"/g, '');
+  const suffix = normalizeQuery(preferences.promptSuffix, 200);
+  const prompt = `A high-quality, artistic illustration representing the concept of "${subject}" (${meaning}). Style: ${IMAGE_STYLE_PROMPTS[style]}. Aesthetic, clean composition.${suffix ? ` ${suffix}` : ''}`;
+
+  const dataUrl = await runRequest('image', signal => getAiProvider().image.drawImage(prompt, signal), options);
+  return keepImage(word, dataUrl, style);
+};
+
+/**
+ * Generates speech audio for the given text, in the provider's default voice unless one is given.
+ */
+export const generateSpeech = async (text: string, voice: string = '', options?: RequestOptions): Promise<string> => {
+  const speech = getAiProvider().speech;
+  const resolvedVoice = speech.voices.includes(voice) ? voice : speech.defaultVoice;
+  const cacheKey = scopedKey('speech', `${resolvedVoice}:${text}`);
+
+  const cached = await getCached<string>('speech', cacheKey);
+  if (cached) return cached;
+
+  const base64Audio = await runRequest('speech', signal => speech.speak(text, resolvedVoice, signal), options);
+  await putCached('speech', cacheKey, base64Audio);
   return base64Audio;
-};
\ No newline at end of file
+};
+
+export const getSpeechVoices = (): { voices: string[]; defaultVoice: string } => {
+  const { voices, defaultVoice } = getAiProvider().speech;
+  return { voices, defaultVoice };
+};
+
+/**
+ * Scores a recording (WAV bytes) of the learner saying `text`. Never cached: every attempt is new.
+ */
+export const assessPronunciation = async (
+  wav: Uint8Array,
+  text: string,
+  reading: string,
+  options?: RequestOptions
+): Promise<PronunciationAssessment> => {
+  const base64Wav = encodeBase64(wav);
+  const raw = await withRepairRetry(() =>
+    runRequest('pronunciation', signal => getAiProvider().pronunciation.assess(base64Wav, text, reading, signal), options)
+  );
+  return normalizePronunciationAssessment(raw);
+};
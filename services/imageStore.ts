@@ -0,0 +1,161 @@
+/**
+ * Pictures drawn for words, kept in IndexedDB until the user deletes them.
+ * Unlike the response cache (cacheService.ts), nothing here is evicted or cleared with the cache:
+ * each word keeps a small gallery and the user picks a favorite.
+ */
+import { ImageStyle, WordImage, WordImageGallery } from "../types";
+import { complete, normalizeCacheKey, promisify } from "./cacheService";
+import { imagesToDrop } from "../utils/imageUtils";
+
+interface PinRecord {
+  word: string;
+  imageId: string;
+}
+
+const DB_NAME = 'lyb_images';
+const DB_VERSION = 1;
+const IMAGES = 'images';
+const PINS = 'pins';
+
+// Drawing another picture past this drops the oldest one that isn't pinned
+export const MAX_IMAGES_PER_WORD = 6;
+
+// Longest side of the thumbnails shown in Wordbook rows
+const THUMBNAIL_SIZE = 160;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(IMAGES, { keyPath: 'id' }).createIndex('word', 'word');
+      request.result.createObjectStore(PINS, { keyPath: 'word' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+/**
+ * Words are stored normalized, so 猫 and a padded or full-width variant share a gallery.
+ */
+export const imageKey = (word: string): string => normalizeCacheKey(word);
+
+const createThumbnail = (dataUrl: string): Promise<string> =>
+  new Promise(resolve => {
+    const img = new Image();
+    img.onload = () => {
+      try {
+        const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+        canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+        canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+        resolve(canvas.toDataURL('image/jpeg', 0.8));
+      } catch {
+        resolve(dataUrl);
+      }
+    };
+    img.onerror = () => resolve(dataUrl);
+    img.src = dataUrl;
+  });
+
+const readGallery = async (tx: IDBTransaction, word: string): Promise<WordImageGallery> => {
+  const images = await promisify(tx.objectStore(IMAGES).index('word').getAll(imageKey(word))) as WordImage[];
+  const pin = await promisify<PinRecord | undefined>(tx.objectStore(PINS).get(imageKey(word)));
+  return {
+    word,
+    images: images.sort((a, b) => b.createdAt - a.createdAt),
+    pinnedId: pin && images.some(image => image.id === pin.imageId) ? pin.imageId : null,
+  };
+};
+
+/**
+ * The pictures kept for a word; an empty gallery if there are none or IndexedDB is unavailable.
+ */
+export const loadGallery = async (word: string): Promise<WordImageGallery> => {
+  try {
+    const db = await openDb();
+    return await readGallery(db.transaction([IMAGES, PINS], 'readonly'), word);
+  } catch (e) {
+    console.warn("Image store read failed", e);
+    return { word, images: [], pinnedId: null };
+  }
+};
+
+/**
+ * Adds a picture to the word's gallery, dropping the oldest unpinned ones beyond MAX_IMAGES_PER_WORD.
+ * Throws if the picture couldn't be stored.
+ */
+export const saveWordImage = async (word: string, dataUrl: string, style: ImageStyle): Promise<WordImageGallery> => {
+  // Opened first so an unavailable store fails before any thumbnail is drawn
+  const db = await openDb();
+  const image: WordImage = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    word: imageKey(word),
+    dataUrl,
+    thumbnail: await createThumbnail(dataUrl),
+    style,
+    createdAt: Date.now(),
+  };
+
+  const tx = db.transaction([IMAGES, PINS], 'readwrite');
+  const store = tx.objectStore(IMAGES);
+  store.put(image);
+  const gallery = await readGallery(tx, word);
+  const dropped = imagesToDrop(gallery.images, gallery.pinnedId, MAX_IMAGES_PER_WORD);
+  dropped.forEach(id => store.delete(id));
+  await complete(tx);
+  return { ...gallery, images: gallery.images.filter(item => !dropped.includes(item.id)) };
+};
+
+/**
+ * Pins a picture as the word's favorite, or clears the pin with null.
+ */
+export const pinWordImage = async (word: string, imageId: string | null): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction(PINS, 'readwrite');
+  if (imageId) tx.objectStore(PINS).put({ word: imageKey(word), imageId } as PinRecord);
+  else tx.objectStore(PINS).delete(imageKey(word));
+  await complete(tx);
+};
+
+/**
+ * Deletes one picture; deleting the pinned one clears the pin.
+ */
+export const deleteWordImage = async (image: WordImage): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([IMAGES, PINS], 'readwrite');
+  tx.objectStore(IMAGES).delete(image.id);
+  const pin = await promisify<PinRecord | undefined>(tx.objectStore(PINS).get(image.word));
+  if (pin?.imageId === image.id) tx.objectStore(PINS).delete(image.word);
+  await complete(tx);
+};
+
+/**
+ * Thumbnails of every pinned picture by `imageKey`, for Wordbook rows.
+ */
+export const loadPinnedThumbnails = async (): Promise<Record<string, string>> => {
+  try {
+    const db = await openDb();
+    const tx = db.transaction([IMAGES, PINS], 'readonly');
+    const pins = await promisify(tx.objectStore(PINS).getAll()) as PinRecord[];
+    const thumbnails: Record<string, string> = {};
+    for (const pin of pins) {
+      const image = await promisify<WordImage | undefined>(tx.objectStore(IMAGES).get(pin.imageId));
+      if (image) thumbnails[pin.word] = image.thumbnail;
+    }
+    return thumbnails;
+  } catch (e) {
+    console.warn("Image store read failed", e);
+    return {};
+  }
+};
@@ -0,0 +1,116 @@
+import { CandidateResult, DailyStory, DictionaryResult, KanjiInfo, SentenceAnalysis, OcrSpan, PronunciationAssessment, StoryOptions, WordHistoryItem } from "../../types";
+
+/**
+ * Looks up a Japanese or Chinese word/phrase and returns a structured entry,
+ * with Chinese text in Traditional characters when `traditional` is set.
+ * findJapanese goes the other way: ranked Japanese equivalents of a Chinese word, plus its false friends.
+ * explainKanji breaks characters down (readings, meaning, radical, strokes), one entry per character.
+ * analyzeSentence glosses every token of a longer text and lists its grammar points.
+ */
+export interface DefinitionCapability {
+  define(query: string, traditional: boolean, signal?: AbortSignal): Promise<DictionaryResult>;
+  findJapanese(query: string, traditional: boolean, signal?: AbortSignal): Promise<CandidateResult>;
+  explainKanji(characters: string[], traditional: boolean, signal?: AbortSignal): Promise<KanjiInfo[]>;
+  analyzeSentence(text: string, traditional: boolean, signal?: AbortSignal): Promise<SentenceAnalysis>;
+}
+
+/**
+ * Finds every piece of Japanese/Chinese text in a base64 encoded JPEG, with its location.
+ */
+export interface OcrCapability {
+  detectText(base64Image: string, signal?: AbortSignal): Promise<OcrSpan[]>;
+}
+
+/**
+ * Writes a short story or dialogue that uses the given words.
+ */
+export interface StoryCapability {
+  writeStory(words: WordHistoryItem[], options: StoryOptions, traditional: boolean, signal?: AbortSignal): Promise<DailyStory>;
+}
+
+/**
+ * Renders a prompt into an image, returned as a data URL.
+ */
+export interface ImageCapability {
+  drawImage(prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Synthesizes speech, returned as base64 raw 16-bit PCM at 24kHz mono.
+ * `voice` must be one of `voices`; the configured default is used when it is omitted.
+ */
+export interface SpeechCapability {
+  voices: string[];
+  defaultVoice: string;
+  speak(text: string, voice?: string, signal?: AbortSignal): Promise<string>;
+}
+
+/**
+ * Listens to a learner's recording (base64 WAV) of `text` and grades it mora by mora.
+ */
+export interface PronunciationCapability {
+  assess(base64Wav: string, text: string, reading: string, signal?: AbortSignal): Promise<PronunciationAssessment>;
+}
+
+/**
+ * Every capability method takes an optional AbortSignal as its last argument;
+ * providers pass it on to their HTTP client so cancelled requests stop early.
+ */
+export interface AiProvider {
+  name: string;
+  models?: AiModelConfig; // Models in use, so cached answers from another model aren't reused; none for fixtures
+  definition: DefinitionCapability;
+  ocr: OcrCapability;
+  story: StoryCapability;
+  image: ImageCapability;
+  speech: SpeechCapability;
+  pronunciation: PronunciationCapability;
+}
+
+export type AiProviderKind = 'gemini' | 'openai' | 'fixture';
+
+export interface AiModelConfig {
+  text: string;
+  vision: string;
+  image: string;
+  speech: string;
+  voice: string;
+  audio: string; // Understands audio input, for pronunciation scoring
+}
+
+export interface AiProviderConfig {
+  provider: AiProviderKind;
+  apiKey?: string;
+  baseUrl?: string; // Only used by the OpenAI-compatible provider
+  models: Partial<AiModelConfig>;
+}
+
+/**
+ * Overlays configured model names on a provider's defaults, ignoring unset entries.
+ */
+export const resolveModels = (defaults: AiModelConfig, overrides: Partial<AiModelConfig>): AiModelConfig => {
+  const models = { ...defaults };
+  (Object.keys(overrides) as (keyof AiModelConfig)[]).forEach(key => {
+    const value = overrides[key];
+    if (value) models[key] = value;
+  });
+  return models;
+};
+
+/**
+ * Reads the provider configuration injected by Vite (see vite.config.ts).
+ * Unset variables arrive as empty strings, so `||` is used to fall back.
+ */
+export const readAiConfigFromEnv = (): AiProviderConfig => ({
+  provider: (process.env.AI_PROVIDER || 'gemini') as AiProviderKind,
+  apiKey: process.env.AI_API_KEY || process.env.API_KEY || undefined,
+  baseUrl: process.env.AI_BASE_URL || undefined,
+  models: {
+    text: process.env.AI_MODEL_TEXT || undefined,
+    vision: process.env.AI_MODEL_VISION || undefined,
+    image: process.env.AI_MODEL_IMAGE || undefined,
+    speech: process.env.AI_MODEL_SPEECH || undefined,
+    voice: process.env.AI_VOICE || undefined,
+    audio: process.env.AI_MODEL_AUDIO || undefined,
+  },
+});
@@ -0,0 +1,345 @@
+import { CandidateResult, DictionaryResult, KanjiInfo, OcrSpan, RubySegment } from "../../types";
+import { encodeBase64 } from "../../utils/audioUtils";
+import { splitMorae } from "../../utils/kanaUtils";
+import { normalizeDictionaryResult } from "../../utils/dictionaryUtils";
+import { AiProvider } from "./aiProvider";
+
+/**
+ * Builds ruby segments from a compact "text|kanji:reading|text" spec.
+ */
+const ruby = (spec: string): RubySegment[] =>
+  spec.split("|").map(part => {
+    const [text, reading] = part.split(":");
+    return reading ? { text, reading } : { text };
+  });
+
+/**
+ * Canned entries so the common demo words look realistic offline.
+ */
+const FIXTURE_ENTRIES: Partial<DictionaryResult>[] = [
+  {
+    word: "猫",
+    reading: "ねこ",
+    romaji: "neko",
+    jlpt_level: "N5",
+    usage_notes: "日常用语。口语中也常用「ネコ」片假名书写。",
+    senses: [
+      {
+        part_of_speech: "名詞",
+        definition_cn: "猫。一种常见的宠物。",
+        definition_jp: "ネコ科の小型の哺乳類。家畜として広く飼われる。",
+        example_jp: "うちの猫は毎朝五時に私の顔の上で目覚まし時計になる。",
+        example_cn: "我家的猫每天早上五点都会在我脸上当闹钟。",
+        example_segments: ruby("うちの|猫:ねこ|は|毎朝:まいあさ|五時:ごじ|に|私:わたし|の|顔:かお|の|上:うえ|で|目覚:めざ|まし|時計:どけい|になる。"),
+      },
+    ],
+    conjugations: [],
+    related: [
+      { word: "犬", reading: "いぬ", relation: "antonym", note: "狗。常与猫对举。" },
+      { word: "猫舌", reading: "ねこじた", relation: "collocation", note: "怕烫的人。" },
+      { word: "猫の手も借りたい", reading: "ねこのてもかりたい", relation: "phrase", note: "忙得不可开交。" },
+      { word: "猫をかぶる", reading: "ねこをかぶる", relation: "phrase", note: "装老实，假装温顺。" },
+    ],
+  },
+  {
+    word: "食べる",
+    reading: "たべる",
+    romaji: "taberu",
+    jlpt_level: "N5",
+    usage_notes: "最普通的“吃”。自谦语为「いただく」，尊敬语为「召し上がる」。",
+    senses: [
+      {
+        part_of_speech: "他動詞・一段",
+        definition_cn: "吃。",
+        definition_jp: "食物を口に入れ、かんで飲み込む。",
+        example_jp: "ダイエット中なのに、夢の中でケーキを十個食べた。",
+        example_cn: "明明在减肥，却在梦里吃了十个蛋糕。",
+        example_segments: ruby("ダイエット|中:ちゅう|なのに、|夢:ゆめ|の|中:なか|でケーキを|十個:じっこ|食:た|べた。"),
+      },
+      {
+        part_of_speech: "他動詞・一段",
+        definition_cn: "生活，谋生。",
+        definition_jp: "生計を立てる。",
+        example_jp: "猫の写真だけで食べていける時代が来た。",
+        example_cn: "光靠猫的照片就能谋生的时代来了。",
+        example_segments: ruby("猫:ねこ|の|写真:しゃしん|だけで|食:た|べていける|時代:じだい|が|来:き|た。"),
+      },
+    ],
+    conjugations: [
+      { form: "ます形", form_cn: "礼貌形", value: "食べます" },
+      { form: "て形", form_cn: "て形", value: "食べて" },
+      { form: "ない形", form_cn: "否定形", value: "食べない" },
+      { form: "た形", form_cn: "过去形", value: "食べた" },
+      { form: "可能形", form_cn: "可能形", value: "食べられる" },
+      { form: "受身形", form_cn: "被动形", value: "食べられる" },
+      { form: "使役形", form_cn: "使役形", value: "食べさせる" },
+      { form: "意向形", form_cn: "意志形", value: "食べよう" },
+      { form: "命令形", form_cn: "命令形", value: "食べろ" },
+      { form: "仮定形", form_cn: "假定形", value: "食べれば" },
+    ],
+    related: [
+      { word: "食う", reading: "くう", relation: "synonym", note: "男性口语，较粗俗。" },
+      { word: "召し上がる", reading: "めしあがる", relation: "synonym", note: "尊敬语，用于对方或长辈。" },
+      { word: "ご飯を食べる", reading: "ごはんをたべる", relation: "collocation", note: "吃饭。" },
+      { word: "お腹いっぱい食べる", reading: "おなかいっぱいたべる", relation: "collocation", note: "吃饱。" },
+    ],
+  },
+  {
+    word: "勉強",
+    reading: "べんきょう",
+    romaji: "benkyou",
+    jlpt_level: "N5",
+    usage_notes: "注意与中文“勉强”意思不同，是日中同形异义词。",
+    senses: [
+      {
+        part_of_speech: "名詞・サ変",
+        definition_cn: "学习，用功。",
+        definition_jp: "学問や技術を学ぶこと。",
+        example_jp: "勉強しようと机に座ったら、なぜか部屋の掃除が始まった。",
+        example_cn: "刚坐到书桌前准备学习，不知为何就开始打扫房间了。",
+        example_segments: ruby("勉強:べんきょう|しようと|机:つくえ|に|座:すわ|ったら、なぜか|部屋:へや|の|掃除:そうじ|が|始:はじ|まった。"),
+      },
+      {
+        part_of_speech: "名詞・サ変",
+        definition_cn: "（商家）让价，便宜卖。",
+        definition_jp: "商品を値引きして安く売ること。",
+        example_jp: "店主は「もう少し勉強しますよ」と言って、なぜか値段を上げた。",
+        example_cn: "店主说“再给您便宜点”，不知为何却涨了价。",
+        example_segments: ruby("店主:てんしゅ|は「もう|少:すこ|し|勉強:べんきょう|しますよ」と|言:い|って、なぜか|値段:ねだん|を|上:あ|げた。"),
+      },
+    ],
+    conjugations: [],
+    related: [
+      { word: "学ぶ", reading: "まなぶ", relation: "synonym", note: "偏书面，强调从别人或经验中学到。" },
+      { word: "学習", reading: "がくしゅう", relation: "synonym", note: "正式、书面的说法。" },
+      { word: "サボる", reading: "さぼる", relation: "antonym", note: "偷懒，逃课。" },
+      { word: "勉強になる", reading: "べんきょうになる", relation: "phrase", note: "长见识，受教了。" },
+    ],
+  },
+];
+
+/**
+ * Canned Chinese→Japanese answers for the usual false-friend demo words, keyed by the Chinese query.
+ */
+const FIXTURE_CANDIDATES: Record<string, Omit<CandidateResult, 'query'>> = {
+  "打算": {
+    candidates: [
+      { word: "つもり", reading: "つもり", meaning_cn: "打算，意图（接在动词后）", nuance: "最常用，表达自己的计划或想法。", tags: ["common", "spoken"] },
+      { word: "予定", reading: "よてい", meaning_cn: "预定，计划", nuance: "已经定下来的安排，语气比「つもり」更确定。", tags: ["common"] },
+      { word: "企てる", reading: "くわだてる", meaning_cn: "企图，策划", nuance: "书面语，常带有负面色彩。", tags: ["written"] },
+    ],
+    false_friends: [
+      { word: "打算", reading: "ださん", meaning_cn: "算计，盘算得失", warning: "日语的「打算」指只考虑自身利益的算计，含贬义，不能表示“计划”。" },
+    ],
+  },
+  "学习": {
+    candidates: [
+      { word: "勉強", reading: "べんきょう", meaning_cn: "学习，用功", nuance: "日常最常用的“学习”。", tags: ["common", "false_friend"] },
+      { word: "学ぶ", reading: "まなぶ", meaning_cn: "学习，学到", nuance: "偏书面，强调从别人或经验中学到东西。", tags: ["written"] },
+      { word: "学習", reading: "がくしゅう", meaning_cn: "学习", nuance: "正式、书面，多用于教育或机器学习等术语。", tags: ["formal", "written"] },
+    ],
+    false_friends: [
+      { word: "勉強", reading: "べんきょう", meaning_cn: "学习；（商家）让价", warning: "中文“勉强”是不情愿、凑合的意思，日语的「勉強」完全没有这层意思。" },
+    ],
+  },
+};
+
+const FIXTURE_KANJI: KanjiInfo[] = [
+  { character: "猫", onyomi: ["ビョウ"], kunyomi: ["ねこ"], meaning_cn: "猫。", radical: "犬", components: ["犭", "苗"], stroke_count: 11 },
+  { character: "食", onyomi: ["ショク", "ジキ"], kunyomi: ["た.べる", "く.う"], meaning_cn: "吃；食物。", radical: "食", components: ["人", "良"], stroke_count: 9 },
+  { character: "勉", onyomi: ["ベン"], kunyomi: [], meaning_cn: "努力，勤勉。", radical: "力", components: ["免", "力"], stroke_count: 10 },
+  { character: "強", onyomi: ["キョウ", "ゴウ"], kunyomi: ["つよ.い", "し.いる"], meaning_cn: "强；勉强，强迫。", radical: "弓", components: ["弓", "厶", "虫"], stroke_count: 11 },
+];
+
+const FIXTURE_OCR_SPANS: OcrSpan[] = [
+  { text: "勉強", box: { x: 0.1, y: 0.15, width: 0.3, height: 0.15 } },
+  { text: "食べる", box: { x: 0.55, y: 0.15, width: 0.35, height: 0.15 } },
+  { text: "猫", box: { x: 0.4, y: 0.6, width: 0.2, height: 0.2 } },
+];
+
+/**
+ * Small stable string hash (FNV-1a) used to derive colours and tones.
+ */
+const hashString = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+/**
+ * Deterministic provider for offline development and tests.
+ * The same input always produces the same output and no network is used.
+ */
+export const createFixtureProvider = (): AiProvider => ({
+  name: "fixture",
+
+  definition: {
+    async define(query) {
+      const trimmed = query.trim();
+      const known = FIXTURE_ENTRIES.find(entry => entry.word === trimmed || entry.reading === trimmed);
+      if (known) return normalizeDictionaryResult(known);
+
+      return normalizeDictionaryResult({
+        word: trimmed,
+        reading: trimmed,
+        romaji: trimmed,
+        senses: [{
+          part_of_speech: "名詞",
+          definition_cn: `「${trimmed}」的示例释义（离线模式）。`,
+          definition_jp: `「${trimmed}」の例示的な説明（オフラインモード）。`,
+          example_jp: `「${trimmed}」という言葉を、今日は三回も使ってしまった。`,
+          example_cn: `今天我竟然用了三次「${trimmed}」这个词。`,
+          example_segments: [
+            { text: `「${trimmed}」という` },
+            ...ruby("言葉:ことば|を、|今日:きょう|は|三回:さんかい|も|使:つか|ってしまった。"),
+          ],
+        }],
+      });
+    },
+
+    async findJapanese(query) {
+      const trimmed = query.trim();
+      const known = FIXTURE_CANDIDATES[trimmed];
+      if (known) return { query: trimmed, ...known };
+
+      return {
+        query: trimmed,
+        candidates: [{
+          word: trimmed,
+          reading: trimmed,
+          meaning_cn: `「${trimmed}」的示例译法（离线模式）。`,
+          nuance: "离线模式下只返回原词。",
+          tags: ["common"],
+        }],
+        false_friends: [],
+      };
+    },
+
+    async explainKanji(characters) {
+      return characters.map(character =>
+        FIXTURE_KANJI.find(entry => entry.character === character) ?? {
+          character,
+          onyomi: [],
+          kunyomi: [],
+          meaning_cn: `「${character}」的示例字义（离线模式）。`,
+          radical: character,
+          components: [character],
+          stroke_count: 0,
+        }
+      );
+    },
+
+    async analyzeSentence(text) {
+      // Kanji with their okurigana, katakana runs, hiragana runs, then single symbols: crude but repeatable
+      const tokens = (text.match(/[\u4E00-\u9FFF々]+[ぁ-ゖ]*|[ァ-ヺー]+|[ぁ-ゖ]+|[A-Za-z0-9]+|\S|\s+/g) ?? [])
+        .map(token => {
+          const isWord = /[\u4E00-\u9FFF々ぁ-ゖァ-ヺA-Za-z0-9]/.test(token);
+          return {
+            text: token,
+            reading: "",
+            base_form: isWord ? token : "",
+            part_of_speech: isWord ? "名詞" : "記号",
+            gloss_cn: isWord ? `「${token}」（离线模式）` : "",
+          };
+        });
+
+      return {
+        sentence: text,
+        translation_cn: `「${text}」的示例译文（离线模式）。`,
+        tokens,
+        grammar: [{ pattern: "〜は〜です", excerpt: text.slice(0, 6), explanation_cn: "离线模式下的示例语法说明。" }],
+      };
+    },
+  },
+
+  ocr: {
+    async detectText() {
+      return FIXTURE_OCR_SPANS.map(span => ({ ...span }));
+    },
+  },
+
+  story: {
+    async writeStory(words) {
+      const lines = words.map(w => ({
+        japanese: [
+          { text: `「${w.word}」と` },
+          { text: "言", reading: "い" },
+          { text: "った" },
+          { text: "瞬間", reading: "しゅんかん" },
+          { text: "、みんなが" },
+          { text: "笑", reading: "わら" },
+          { text: "った。" },
+        ],
+        chinese: `说出「${w.word}」（${w.definition}）的瞬间，大家都笑了。`,
+        words: [w.word],
+      }));
+      return { title: "笑いの一日", lines };
+    },
+  },
+
+  image: {
+    async drawImage(prompt) {
+      const hue = hashString(prompt) % 360;
+      const label = prompt.match(/"([^"]+)"/)?.[1] ?? prompt.slice(0, 12);
+      const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600" viewBox="0 0 800 600">` +
+        `<rect width="800" height="600" fill="hsl(${hue},70%,85%)"/>` +
+        `<circle cx="400" cy="300" r="180" fill="hsl(${(hue + 40) % 360},70%,70%)"/>` +
+        `<text x="400" y="330" font-size="96" text-anchor="middle" fill="#1e293b">${escapeXml(label)}</text>` +
+        `</svg>`;
+      return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+    },
+  },
+
+  speech: {
+    voices: ["Low", "High"],
+    defaultVoice: "Low",
+    async speak(text, voice = "Low") {
+      // A short tone per character, pitched from the text hash: audible but obviously synthetic
+      const sampleRate = 24000;
+      const samplesPerChar = Math.floor(sampleRate * 0.12);
+      const chars = Math.max(1, Math.min(text.length, 80));
+      const pcm = new Int16Array(samplesPerChar * chars);
+      const baseFreq = (220 + (hashString(text) % 220)) * (voice === "High" ? 2 : 1);
+
+      for (let c = 0; c < chars; c++) {
+        const freq = baseFreq * (1 + (text.charCodeAt(c % text.length) % 5) / 10);
+        for (let i = 0; i < samplesPerChar; i++) {
+          const envelope = Math.sin((Math.PI * i) / samplesPerChar);
+          pcm[c * samplesPerChar + i] = Math.round(Math.sin((2 * Math.PI * freq * i) / sampleRate) * envelope * 8000);
+        }
+      }
+
+      return encodeBase64(new Uint8Array(pcm.buffer));
+    },
+  },
+
+  pronunciation: {
+    async assess(base64Wav, text, reading) {
+      // Score from the recording itself so retries give different but repeatable results
+      const hash = hashString(base64Wav.slice(-256));
+      const score = 60 + (hash % 41);
+      const morae = splitMorae(reading || text);
+      const missed = score < 85 && morae.length > 0 ? hash % morae.length : -1;
+
+      return {
+        transcript: text,
+        score,
+        morae: morae.map((mora, i) => ({
+          mora,
+          heard: mora,
+          ok: i !== missed,
+          pitch: i === 0 ? "L" : "H",
+          note: i === missed ? "这个音拍稍短，请读满一拍（离线模式示例）。" : "",
+        })),
+        pitch_feedback: "第一拍低、之后升高的平板型读法基本正确（离线模式示例）。",
+        advice: "放慢速度，每个音拍保持相同的长度（离线模式示例）。",
+      };
+    },
+  },
+});
@@ -0,0 +1,279 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Type, Modality, Schema } from "@google/genai";
+import { CandidateResult, DailyStory, DictionaryResult, KanjiInfo, PronunciationAssessment, SentenceAnalysis } from "../../types";
+import { AiModelConfig, AiProvider, AiProviderConfig, resolveModels } from "./aiProvider";
+import { parseOcrSpans } from "../../utils/ocrUtils";
+import { SafetyBlockedError } from "../aiErrors";
+import { parseJsonResponse } from "../schemaValidation";
+import {
+  CANDIDATES_SCHEMA,
+  DEFINITION_SCHEMA,
+  KANJI_SCHEMA,
+  OCR_PROMPT,
+  OCR_SCHEMA,
+  PRONUNCIATION_SCHEMA,
+  SENTENCE_SCHEMA,
+  STORY_SCHEMA,
+  SchemaNode,
+  buildCandidatesPrompt,
+  buildDefinitionPrompt,
+  buildKanjiPrompt,
+  buildPronunciationPrompt,
+  buildSentencePrompt,
+  buildStoryPrompt,
+} from "../prompts";
+
+// A selection of the prebuilt TTS voices, all of which speak Japanese
+const VOICES = ["Kore", "Aoede", "Leda", "Zephyr", "Puck", "Charon", "Fenrir", "Orus"];
+
+const DEFAULT_MODELS: AiModelConfig = {
+  text: "gemini-2.5-flash",
+  vision: "gemini-2.5-flash",
+  image: "imagen-4.0-generate-001",
+  speech: "gemini-2.5-flash-preview-tts",
+  voice: "Kore",
+  audio: "gemini-2.5-flash",
+};
+
+/**
+ * Translates the shared schema into Gemini's response schema; every property is required.
+ */
+const toGeminiSchema = (node: SchemaNode): Schema => {
+  switch (node.type) {
+    case 'string':
+      return { type: Type.STRING, description: node.description, ...(node.enum ? { enum: node.enum } : {}) };
+    case 'integer':
+      return { type: Type.INTEGER, description: node.description };
+    case 'boolean':
+      return { type: Type.BOOLEAN, description: node.description };
+    case 'array':
+      return { type: Type.ARRAY, description: node.description, items: toGeminiSchema(node.items) };
+    case 'object':
+      return {
+        type: Type.OBJECT,
+        ...(node.description ? { description: node.description } : {}),
+        properties: Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toGeminiSchema(child)])),
+        required: Object.keys(node.properties),
+      };
+  }
+};
+
+const BLOCKED_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+/**
+ * Throws SafetyBlockedError if the prompt or the answer was stopped by Gemini's safety filters.
+ * Blocked responses otherwise just look empty.
+ */
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new SafetyBlockedError(`Prompt blocked: ${blockReason}`);
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason)) throw new SafetyBlockedError(`Answer blocked: ${finishReason}`);
+};
+
+/**
+ * Google Gemini / Imagen backend.
+ */
+export const createGeminiProvider = (config: AiProviderConfig): AiProvider => {
+  const models = resolveModels(DEFAULT_MODELS, config.models);
+  const getClient = () => new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    name: "gemini",
+    models,
+
+    definition: {
+      async define(query, traditional, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.text,
+          contents: buildDefinitionPrompt(query, traditional),
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(DEFINITION_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        return parseJsonResponse<DictionaryResult>(response.text, DEFINITION_SCHEMA);
+      },
+
+      async findJapanese(query, traditional, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.text,
+          contents: buildCandidatesPrompt(query, traditional),
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(CANDIDATES_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        return parseJsonResponse<CandidateResult>(response.text, CANDIDATES_SCHEMA);
+      },
+
+      async explainKanji(characters, traditional, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.text,
+          contents: buildKanjiPrompt(characters, traditional),
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(KANJI_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        return parseJsonResponse<{ kanji: KanjiInfo[] }>(response.text, KANJI_SCHEMA).kanji;
+      },
+
+      async analyzeSentence(text, traditional, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.text,
+          contents: buildSentencePrompt(text, traditional),
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(SENTENCE_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        return parseJsonResponse<SentenceAnalysis>(response.text, SENTENCE_SCHEMA);
+      },
+    },
+
+    ocr: {
+      async detectText(base64Image, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.vision,
+          contents: {
+            parts: [
+              { inlineData: { mimeType: "image/jpeg", data: base64Image } },
+              { text: OCR_PROMPT },
+            ],
+          },
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(OCR_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        if (!response.text) return [];
+        return parseOcrSpans(parseJsonResponse(response.text, OCR_SCHEMA));
+      },
+    },
+
+    story: {
+      async writeStory(words, options, traditional, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.text,
+          contents: buildStoryPrompt(words, options, traditional),
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(STORY_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        return parseJsonResponse<DailyStory>(response.text, STORY_SCHEMA);
+      },
+    },
+
+    image: {
+      async drawImage(prompt, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateImages({
+          model: models.image,
+          prompt,
+          config: {
+            numberOfImages: 1,
+            aspectRatio: '4:3',
+            outputMimeType: 'image/jpeg',
+            abortSignal: signal,
+          },
+        });
+
+        const generated = response.generatedImages?.[0];
+        if (generated?.raiFilteredReason) throw new SafetyBlockedError(generated.raiFilteredReason);
+        const base64ImageBytes = generated?.image?.imageBytes;
+        if (!base64ImageBytes) throw new Error("Failed to generate image");
+
+        return `data:image/jpeg;base64,${base64ImageBytes}`;
+      },
+    },
+
+    speech: {
+      voices: VOICES.includes(models.voice) ? VOICES : [models.voice, ...VOICES],
+      defaultVoice: models.voice,
+      async speak(text, voice = models.voice, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.speech,
+          contents: [{ parts: [{ text }] }],
+          config: {
+            abortSignal: signal,
+            responseModalities: [Modality.AUDIO],
+            speechConfig: {
+              voiceConfig: {
+                prebuiltVoiceConfig: { voiceName: voice },
+              },
+            },
+          },
+        });
+
+        checkBlocked(response);
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) throw new Error("No audio data returned");
+
+        return base64Audio;
+      },
+    },
+
+    pronunciation: {
+      async assess(base64Wav, text, reading, signal) {
+        const ai = getClient();
+
+        const response = await ai.models.generateContent({
+          model: models.audio,
+          contents: {
+            parts: [
+              { inlineData: { mimeType: "audio/wav", data: base64Wav } },
+              { text: buildPronunciationPrompt(text, reading) },
+            ],
+          },
+          config: {
+            abortSignal: signal,
+            responseMimeType: "application/json",
+            responseSchema: toGeminiSchema(PRONUNCIATION_SCHEMA),
+          },
+        });
+
+        checkBlocked(response);
+        return parseJsonResponse<PronunciationAssessment>(response.text, PRONUNCIATION_SCHEMA);
+      },
+    },
+  };
+};
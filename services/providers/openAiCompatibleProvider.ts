@@ -0,0 +1,194 @@
+import { CandidateResult, DailyStory, DictionaryResult, KanjiInfo, PronunciationAssessment, SentenceAnalysis } from "../../types";
+import { encodeBase64 } from "../../utils/audioUtils";
+import { AiModelConfig, AiProvider, AiProviderConfig, resolveModels } from "./aiProvider";
+import { parseOcrSpans } from "../../utils/ocrUtils";
+import { SafetyBlockedError } from "../aiErrors";
+import { parseJsonResponse } from "../schemaValidation";
+import {
+  CANDIDATES_SCHEMA,
+  DEFINITION_SCHEMA,
+  KANJI_SCHEMA,
+  OCR_PROMPT,
+  OCR_SCHEMA,
+  PRONUNCIATION_SCHEMA,
+  SENTENCE_SCHEMA,
+  STORY_SCHEMA,
+  buildCandidatesPrompt,
+  buildDefinitionPrompt,
+  buildKanjiPrompt,
+  buildPronunciationPrompt,
+  buildSentencePrompt,
+  buildStoryPrompt,
+  describeJsonShape,
+} from "../prompts";
+
+const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+const VOICES = ["alloy", "ash", "ballad", "coral", "echo", "fable", "nova", "onyx", "sage", "shimmer"];
+
+const DEFAULT_MODELS: AiModelConfig = {
+  text: "gpt-4o-mini",
+  vision: "gpt-4o-mini",
+  image: "gpt-image-1",
+  speech: "gpt-4o-mini-tts",
+  voice: "alloy",
+  audio: "gpt-4o-audio-preview",
+};
+
+type ChatContent = string | (
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } }
+  | { type: "input_audio"; input_audio: { data: string; format: "wav" } }
+)[];
+
+/**
+ * Talks to any server implementing the OpenAI REST API (OpenAI itself,
+ * or local servers such as Ollama, LM Studio, LocalAI or vLLM via AI_BASE_URL).
+ */
+export const createOpenAiCompatibleProvider = (config: AiProviderConfig): AiProvider => {
+  const models = resolveModels(DEFAULT_MODELS, config.models);
+  const baseUrl = (config.baseUrl || DEFAULT_BASE_URL).replace(/\/+$/, "");
+
+  const post = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      // OpenAI reports moderation refusals as a 400 with one of these codes
+      const code = (await response.json().catch(() => null))?.error?.code;
+      if (code === "content_policy_violation" || code === "content_filter") {
+        throw new SafetyBlockedError(`AI request to ${path} was blocked: ${code}`);
+      }
+      throw new Error(`AI request to ${path} failed with status ${response.status}`);
+    }
+    return response;
+  };
+
+  const chat = async (model: string, content: ChatContent, json: boolean = false, signal?: AbortSignal): Promise<string> => {
+    const response = await post("/chat/completions", {
+      model,
+      messages: [{ role: "user", content }],
+      ...(json ? { response_format: { type: "json_object" } } : {}),
+    }, signal);
+    const payload = await response.json();
+    const choice = payload.choices?.[0];
+    if (choice?.finish_reason === "content_filter") throw new SafetyBlockedError("Answer blocked by the content filter");
+    return choice?.message?.content ?? "";
+  };
+
+  return {
+    name: "openai",
+    models,
+
+    definition: {
+      async define(query, traditional, signal) {
+        const text = await chat(
+          models.text,
+          `${buildDefinitionPrompt(query, traditional)}\n\n${describeJsonShape(DEFINITION_SCHEMA)}`,
+          true,
+          signal
+        );
+        return parseJsonResponse<DictionaryResult>(text, DEFINITION_SCHEMA);
+      },
+
+      async findJapanese(query, traditional, signal) {
+        const text = await chat(
+          models.text,
+          `${buildCandidatesPrompt(query, traditional)}\n\n${describeJsonShape(CANDIDATES_SCHEMA)}`,
+          true,
+          signal
+        );
+        return parseJsonResponse<CandidateResult>(text, CANDIDATES_SCHEMA);
+      },
+
+      async explainKanji(characters, traditional, signal) {
+        const text = await chat(
+          models.text,
+          `${buildKanjiPrompt(characters, traditional)}\n\n${describeJsonShape(KANJI_SCHEMA)}`,
+          true,
+          signal
+        );
+        return parseJsonResponse<{ kanji: KanjiInfo[] }>(text, KANJI_SCHEMA).kanji;
+      },
+
+      async analyzeSentence(sentence, traditional, signal) {
+        const text = await chat(
+          models.text,
+          `${buildSentencePrompt(sentence, traditional)}\n\n${describeJsonShape(SENTENCE_SCHEMA)}`,
+          true,
+          signal
+        );
+        return parseJsonResponse<SentenceAnalysis>(text, SENTENCE_SCHEMA);
+      },
+    },
+
+    ocr: {
+      async detectText(base64Image, signal) {
+        const text = await chat(models.vision, [
+          { type: "image_url", image_url: { url: `data:image/jpeg;base64,${base64Image}` } },
+          { type: "text", text: `${OCR_PROMPT}\n\n${describeJsonShape(OCR_SCHEMA)}` },
+        ], true, signal);
+        if (!text) return [];
+        return parseOcrSpans(parseJsonResponse(text, OCR_SCHEMA));
+      },
+    },
+
+    story: {
+      async writeStory(words, options, traditional, signal) {
+        const text = await chat(models.text, `${buildStoryPrompt(words, options, traditional)}\n\n${describeJsonShape(STORY_SCHEMA)}`, true, signal);
+        return parseJsonResponse<DailyStory>(text, STORY_SCHEMA);
+      },
+    },
+
+    image: {
+      async drawImage(prompt, signal) {
+        const response = await post("/images/generations", {
+          model: models.image,
+          prompt,
+          n: 1,
+          size: "1024x1024",
+          response_format: "b64_json",
+        }, signal);
+        const payload = await response.json();
+        const base64ImageBytes = payload.data?.[0]?.b64_json;
+        if (!base64ImageBytes) throw new Error("Failed to generate image");
+
+        return `data:image/png;base64,${base64ImageBytes}`;
+      },
+    },
+
+    speech: {
+      voices: VOICES.includes(models.voice) ? VOICES : [models.voice, ...VOICES],
+      defaultVoice: models.voice,
+      async speak(text, voice = models.voice, signal) {
+        // "pcm" is raw 16-bit little-endian at 24kHz, the same format Gemini TTS returns
+        const response = await post("/audio/speech", {
+          model: models.speech,
+          voice,
+          input: text,
+          response_format: "pcm",
+        }, signal);
+        const bytes = new Uint8Array(await response.arrayBuffer());
+        if (bytes.length === 0) throw new Error("No audio data returned");
+
+        return encodeBase64(bytes);
+      },
+    },
+
+    pronunciation: {
+      async assess(base64Wav, text, reading, signal) {
+        const result = await chat(models.audio, [
+          { type: "input_audio", input_audio: { data: base64Wav, format: "wav" } },
+          { type: "text", text: `${buildPronunciationPrompt(text, reading)}\n\n${describeJsonShape(PRONUNCIATION_SCHEMA)}` },
+        ], true, signal);
+        return parseJsonResponse<PronunciationAssessment>(result, PRONUNCIATION_SCHEMA);
+      },
+    },
+  };
+};
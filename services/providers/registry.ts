@@ -0,0 +1,34 @@
+import { AiProvider, AiProviderConfig, readAiConfigFromEnv } from "./aiProvider";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleProvider";
+import { createFixtureProvider } from "./fixtureProvider";
+
+export const createAiProvider = (config: AiProviderConfig): AiProvider => {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAiCompatibleProvider(config);
+    case 'fixture':
+      return createFixtureProvider();
+    case 'gemini':
+      return createGeminiProvider(config);
+    default:
+      throw new Error(`Unknown AI provider: ${config.provider}`);
+  }
+};
+
+let activeProvider: AiProvider | null = null;
+
+/**
+ * Returns the configured provider, creating it from the environment on first use.
+ */
+export const getAiProvider = (): AiProvider => {
+  if (!activeProvider) activeProvider = createAiProvider(readAiConfigFromEnv());
+  return activeProvider;
+};
+
+/**
+ * Swaps the active provider, e.g. to the fixture provider in tests.
+ */
+export const setAiProvider = (provider: AiProvider): void => {
+  activeProvider = provider;
+};
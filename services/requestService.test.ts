@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MalformedResponseError, NetworkError, QuotaExceededError, UsageLimitError } from './aiErrors';
+import { cancelChannel, getUsage, isAbortError, runRequest, setUsageLimits } from './requestService';
+
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status ${status}`), { status });
+
+const never = () => new Promise<string>(() => {});
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  setUsageLimits({});
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('runRequest', () => {
+  it('retries rate limits and server errors with backoff', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(httpError(429))
+      .mockRejectedValueOnce(httpError(503))
+      .mockResolvedValue('ok');
+
+    const result = runRequest('definition', task);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+
+    // The first retry waits between 500ms and 1s, the second between 1s and 2s
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up on a rate limit after three retries as QuotaExceededError', async () => {
+    const task = vi.fn().mockRejectedValue(httpError(429));
+
+    const result = expect(runRequest('definition', task)).rejects.toBeInstanceOf(QuotaExceededError);
+    await vi.runAllTimersAsync();
+    await result;
+    expect(task).toHaveBeenCalledTimes(4);
+  });
+
+  it('reports a dead connection as NetworkError', async () => {
+    const task = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+
+    const result = expect(runRequest('definition', task)).rejects.toBeInstanceOf(NetworkError);
+    await vi.runAllTimersAsync();
+    await result;
+  });
+
+  it('does not retry errors that would fail again', async () => {
+    const task = vi.fn()
+      .mockRejectedValueOnce(new MalformedResponseError(['bad JSON']))
+      .mockRejectedValueOnce(httpError(400));
+
+    await expect(runRequest('definition', task)).rejects.toBeInstanceOf(MalformedResponseError);
+    await expect(runRequest('definition', task)).rejects.toThrow('status 400');
+    expect(task).toHaveBeenCalledTimes(2);
+  });
+
+  it('cancels a running request through its signal or a newer one on the same channel', async () => {
+    const controller = new AbortController();
+    const bySignal = runRequest('definition', never, { signal: controller.signal });
+    await vi.advanceTimersByTimeAsync(0);
+    controller.abort();
+    await expect(bySignal).rejects.toSatisfy(isAbortError);
+
+    const first = runRequest('definition', never, { channel: 'search' });
+    await vi.advanceTimersByTimeAsync(0);
+    const second = runRequest('definition', async () => 'second', { channel: 'search' });
+    await expect(first).rejects.toSatisfy(isAbortError);
+    await expect(second).resolves.toBe('second');
+  });
+
+  it('rejects a request cancelled before it started running', async () => {
+    const first = runRequest('definition', never, { channel: 'search' });
+    const second = runRequest('definition', async () => 'second', { channel: 'search' });
+    await expect(first).rejects.toSatisfy(isAbortError);
+    await expect(second).resolves.toBe('second');
+
+    const third = runRequest('definition', never, { channel: 'search' });
+    cancelChannel('search');
+    await expect(third).rejects.toSatisfy(isAbortError);
+  });
+
+  it('never sends or counts a request whose signal is already aborted', async () => {
+    const before = getUsage().counts.ocr ?? 0;
+    const task = vi.fn();
+
+    await expect(runRequest('ocr', task, { signal: AbortSignal.abort() })).rejects.toSatisfy(isAbortError);
+    expect(task).not.toHaveBeenCalled();
+    expect(getUsage().counts.ocr ?? 0).toBe(before);
+  });
+
+  it('counts requests per capability and stops at the daily cap', async () => {
+    const before = getUsage().counts.image ?? 0;
+    await runRequest('image', async () => 'picture');
+    expect(getUsage().counts.image).toBe(before + 1);
+
+    setUsageLimits({ image: before + 1 });
+    const task = vi.fn();
+    await expect(runRequest('image', task)).rejects.toBeInstanceOf(UsageLimitError);
+    expect(task).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,205 @@
+import { AiCapability, UsageLimits } from "../types";
+import { AiError, NetworkError, QuotaExceededError, UsageLimitError } from "./aiErrors";
+import { readJson, STORAGE_KEYS, writeJson } from "./storageService";
+
+/**
+ * Every AI call goes through runRequest, which adds:
+ * - cancellation: a newer request on the same channel aborts the older one
+ * - retries with exponential backoff and jitter for rate limits (429) and server errors (5xx)
+ * - a limit on how many requests run at once
+ * - per-day usage counters per capability, with optional caps
+ */
+
+export const AI_CAPABILITIES: AiCapability[] = ['definition', 'ocr', 'story', 'image', 'speech', 'pronunciation'];
+
+export interface UsageStats {
+  day: string; // Local date, YYYY-MM-DD
+  counts: Partial<Record<AiCapability, number>>;
+}
+
+const MAX_CONCURRENT = 3;
+const MAX_RETRIES = 3;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 15000;
+
+let limits: UsageLimits = {};
+let usage: UsageStats = readJson<UsageStats>(STORAGE_KEYS.usage, { day: '', counts: {} });
+const listeners = new Set<() => void>();
+
+let active = 0;
+const waiting: (() => void)[] = [];
+const channels = new Map<string, AbortController>();
+
+const today = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+// --- Usage ---
+
+/**
+ * Today's counters; yesterday's are dropped on the first read after midnight.
+ */
+export const getUsage = (): UsageStats => {
+  if (usage.day !== today()) usage = { day: today(), counts: {} };
+  return usage;
+};
+
+export const subscribeUsage = (listener: () => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const setUsageLimits = (next: UsageLimits) => {
+  limits = next;
+};
+
+const countRequest = (capability: AiCapability) => {
+  const current = getUsage();
+  usage = { ...current, counts: { ...current.counts, [capability]: (current.counts[capability] ?? 0) + 1 } };
+  writeJson(STORAGE_KEYS.usage, usage);
+  listeners.forEach(listener => listener());
+};
+
+// --- Helpers ---
+
+export const isAbortError = (err: unknown): boolean =>
+  err instanceof DOMException ? err.name === 'AbortError' : (err as Error)?.name === 'AbortError';
+
+const abortError = () => new DOMException('The request was cancelled', 'AbortError');
+
+/**
+ * HTTP status carried by provider errors: Gemini's ApiError has `status`,
+ * the OpenAI-compatible provider puts it in the message.
+ */
+const statusOf = (err: unknown): number | null => {
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+  const match = (err as Error)?.message?.match(/status (\d{3})/);
+  return match ? Number(match[1]) : null;
+};
+
+const isTransient = (err: unknown): boolean => {
+  if (isAbortError(err) || err instanceof AiError) return false;
+  const status = statusOf(err);
+  if (status !== null) return status === 429 || status >= 500;
+  // fetch rejects with a TypeError when the network is down
+  return err instanceof TypeError;
+};
+
+// Gives up on a transient error as the matching AiError, so the UI can explain it
+const toFinalError = (err: unknown): unknown => {
+  if (!isTransient(err)) return err;
+  if (statusOf(err) === 429) return new QuotaExceededError((err as Error).message);
+  if (err instanceof TypeError) return new NetworkError(err.message);
+  return err;
+};
+
+const sleep = (ms: number, signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+const acquireSlot = (signal: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (active < MAX_CONCURRENT) {
+    active++;
+    resolve();
+    return;
+  }
+  const grant = () => {
+    signal.removeEventListener('abort', onAbort);
+    active++;
+    resolve();
+  };
+  const onAbort = () => {
+    const index = waiting.indexOf(grant);
+    if (index !== -1) waiting.splice(index, 1);
+    reject(abortError());
+  };
+  waiting.push(grant);
+  signal.addEventListener('abort', onAbort, { once: true });
+});
+
+const releaseSlot = () => {
+  active--;
+  waiting.shift()?.();
+};
+
+// Not every provider call honours the signal, so the result is also raced against it
+const raceAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => new Promise((resolve, reject) => {
+  const onAbort = () => reject(abortError());
+  signal.addEventListener('abort', onAbort, { once: true });
+  promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+});
+
+// --- Requests ---
+
+export interface RequestOptions {
+  // Starting a request on a channel cancels the one already running there (e.g. the previous search)
+  channel?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs one AI call with cancellation, retries, concurrency and usage limits.
+ * Rejects with an AbortError when cancelled, with UsageLimitError when today's cap is reached,
+ * and with QuotaExceededError or NetworkError when retries run out on a rate limit or a dead connection.
+ */
+export const runRequest = async <T>(
+  capability: AiCapability,
+  task: (signal: AbortSignal) => Promise<T>,
+  options: RequestOptions = {}
+): Promise<T> => {
+  const controller = new AbortController();
+  const { signal } = controller;
+  if (options.signal) {
+    if (options.signal.aborted) controller.abort();
+    else options.signal.addEventListener('abort', () => controller.abort(), { once: true });
+  }
+  if (options.channel) {
+    channels.get(options.channel)?.abort();
+    channels.set(options.channel, controller);
+  }
+
+  try {
+    for (let attempt = 0; ; attempt++) {
+      const limit = limits[capability];
+      if (limit && (getUsage().counts[capability] ?? 0) >= limit) throw new UsageLimitError(capability, limit);
+
+      await acquireSlot(signal);
+      try {
+        // Cancelled before the call went out (the slot may have been free at once): don't send or count it
+        if (signal.aborted) throw abortError();
+        countRequest(capability);
+        return await raceAbort(task(signal), signal);
+      } catch (err) {
+        if (signal.aborted) throw abortError();
+        if (attempt >= MAX_RETRIES || !isTransient(err)) throw toFinalError(err);
+        console.warn(`${capability} request failed, retrying (${attempt + 1}/${MAX_RETRIES})`, err);
+      } finally {
+        releaseSlot();
+      }
+
+      // Half the exponential delay plus a random share of the rest, so parallel requests don't retry in lockstep
+      const ceiling = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+      await sleep(ceiling / 2 + Math.random() * (ceiling / 2), signal);
+    }
+  } finally {
+    if (options.channel && channels.get(options.channel) === controller) channels.delete(options.channel);
+  }
+};
+
+/**
+ * Cancels whatever is running on a channel.
+ */
+export const cancelChannel = (channel: string) => {
+  channels.get(channel)?.abort();
+  channels.delete(channel);
+};
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { SchemaNode } from './prompts';
+import { MalformedResponseError } from './aiErrors';
+import { parseJsonResponse, validateSchema } from './schemaValidation';
+
+const SCHEMA: SchemaNode = {
+  type: 'object',
+  properties: {
+    word: { type: 'string', description: 'word' },
+    level: { type: 'string', description: 'level', enum: ['N5', 'N4'] },
+    score: { type: 'integer', description: 'score' },
+    is_word: { type: 'boolean', description: 'is word' },
+    tags: { type: 'array', description: 'tags', items: { type: 'string', description: 'tag' } },
+  },
+};
+
+const valid = { word: '猫', level: 'N5', score: 3, is_word: true, tags: ['animal'] };
+
+describe('validateSchema', () => {
+  it('accepts a value that fits, ignoring extra properties', () => {
+    expect(validateSchema({ ...valid, extra: 1 }, SCHEMA)).toEqual([]);
+  });
+
+  it('reports each problem with its path', () => {
+    const { score: _score, ...withoutScore } = valid;
+    expect(validateSchema({ ...withoutScore, level: 'N1', tags: ['ok', 2] }, SCHEMA)).toEqual([
+      'response.level should be one of "N5", "N4"',
+      'response.score is missing',
+      'response.tags[1] should be a string',
+    ]);
+  });
+
+  it('rejects a non-object root', () => {
+    expect(validateSchema([valid], SCHEMA)).toEqual(['response should be an object']);
+  });
+});
+
+describe('parseJsonResponse', () => {
+  it('strips code fences and prose around the JSON', () => {
+    const text = `Here you go:\n\`\`\`json\n${JSON.stringify(valid)}\n\`\`\``;
+    expect(parseJsonResponse(text, SCHEMA)).toEqual(valid);
+  });
+
+  it('throws MalformedResponseError for empty, unparseable or invalid answers', () => {
+    expect(() => parseJsonResponse('', SCHEMA)).toThrow(MalformedResponseError);
+    expect(() => parseJsonResponse('{ not json', SCHEMA)).toThrow(MalformedResponseError);
+    expect(() => parseJsonResponse(JSON.stringify({ ...valid, score: 'high' }), SCHEMA)).toThrow(/response.score should be a number/);
+  });
+});
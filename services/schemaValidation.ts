@@ -0,0 +1,52 @@
+import { SchemaNode } from "./prompts";
+import { MalformedResponseError } from "./aiErrors";
+
+/**
+ * Checks a parsed model answer against the shared response schema.
+ * Like the Gemini schema, every property is required; extra properties are ignored.
+ * Returns one message per problem, empty if the value fits.
+ */
+export const validateSchema = (value: unknown, schema: SchemaNode, path: string = 'response'): string[] => {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} should be a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path} should be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`];
+      return [];
+    case 'integer':
+      // Models sometimes write 87.0 or 87.5 for an integer; normalizers round where it matters
+      return typeof value === 'number' && Number.isFinite(value) ? [] : [`${path} should be a number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} should be true or false`];
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} should be an array`];
+      return value.flatMap((item, i) => validateSchema(item, schema.items, `${path}[${i}]`));
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return [`${path} should be an object`];
+      const record = value as Record<string, unknown>;
+      return Object.entries(schema.properties).flatMap(([key, child]) =>
+        key in record ? validateSchema(record[key], child, `${path}.${key}`) : [`${path}.${key} is missing`]
+      );
+    }
+  }
+};
+
+/**
+ * Parses a model's JSON answer and validates it, throwing MalformedResponseError if either fails.
+ * Code fences and prose around the object are stripped first, since prompted (not schema-constrained) models add them.
+ */
+export const parseJsonResponse = <T>(text: string | undefined, schema: SchemaNode): T => {
+  if (!text?.trim()) throw new MalformedResponseError(['the response is empty']);
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  let value: unknown;
+  try {
+    value = JSON.parse(start !== -1 && end > start ? text.slice(start, end + 1) : text);
+  } catch {
+    throw new MalformedResponseError(['the response is not valid JSON']);
+  }
+
+  const issues = validateSchema(value, schema);
+  if (issues.length > 0) throw new MalformedResponseError(issues);
+  return value as T;
+};
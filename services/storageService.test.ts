@@ -0,0 +1,78 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FuriganaMode } from '../types';
+import {
+  STORAGE_KEYS,
+  STORAGE_VERSION,
+  listRecoveredBlobs,
+  loadHistory,
+  loadSettings,
+  migrateHistoryItems,
+  migrateStorage,
+  readJson,
+  readRecoveredBlob,
+} from './storageService';
+
+beforeEach(() => {
+  localStorage.clear();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('migrateHistoryItems', () => {
+  it('repairs fields, drops items without a word and renames repeated ids', () => {
+    const items = migrateHistoryItems([
+      { id: 1, word: '猫', timestamp: 'soon' },
+      { word: '' },
+      'junk',
+      { id: '1', word: '犬', reading: 'いぬ', timestamp: 5 },
+    ]);
+
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ id: '1', word: '猫', reading: '', definition: '', timestamp: 0 });
+    expect(items[1]).toMatchObject({ word: '犬', reading: 'いぬ', timestamp: 5 });
+    expect(items[1].id).not.toBe('1');
+  });
+});
+
+describe('readJson', () => {
+  it('moves an unreadable value aside and returns the fallback', () => {
+    localStorage.setItem(STORAGE_KEYS.stories, '{ not json');
+
+    expect(readJson(STORAGE_KEYS.stories, [])).toEqual([]);
+    expect(localStorage.getItem(STORAGE_KEYS.stories)).toBeNull();
+    const [blob] = listRecoveredBlobs();
+    expect(blob.key).toBe(STORAGE_KEYS.stories);
+    expect(readRecoveredBlob(blob)).toBe('{ not json');
+  });
+});
+
+describe('migrateStorage', () => {
+  it('upgrades unversioned storage, keeping the original history if any item is dropped', () => {
+    const original = JSON.stringify([{ id: 'a', word: '猫' }, { id: 'b' }]);
+    localStorage.setItem(STORAGE_KEYS.history, original);
+    localStorage.setItem('lyb_furigana', FuriganaMode.HIDE);
+
+    migrateStorage();
+
+    expect(localStorage.getItem(STORAGE_KEYS.schema)).toBe(String(STORAGE_VERSION));
+    expect(loadHistory().map(item => item.word)).toEqual(['猫']);
+    expect(loadSettings().furiganaMode).toBe(FuriganaMode.HIDE);
+    expect(localStorage.getItem('lyb_furigana')).toBeNull();
+
+    const blobs = listRecoveredBlobs();
+    expect(blobs.map(blob => blob.key)).toEqual([STORAGE_KEYS.history]);
+    expect(readRecoveredBlob(blobs[0])).toBe(original);
+  });
+
+  it('sets nothing aside when every item is kept', () => {
+    localStorage.setItem(STORAGE_KEYS.history, JSON.stringify([{ id: 'a', word: '猫' }]));
+
+    migrateStorage();
+
+    expect(loadHistory()).toHaveLength(1);
+    expect(listRecoveredBlobs()).toEqual([]);
+  });
+});
@@ -0,0 +1,229 @@
+import { AppSettings, FuriganaMode, SavedStory, WordHistoryItem } from "../types";
+import { PracticeHistory } from "../utils/pronunciationUtils";
+import { detectLocale } from "../i18n";
+
+/**
+ * Versioned local storage. Every read goes through here so that:
+ * - data written by older versions of the app is migrated once on startup
+ * - a value that cannot be parsed is moved aside instead of being overwritten by the next save
+ *
+ * Version history:
+ *   1. Unversioned: `lyb_history` array, `lyb_furigana` string, `lyb_user` mock profile
+ *   2. `lyb_schema` holds the version, settings live in `lyb_settings`, history items are validated
+ */
+
+export const STORAGE_VERSION = 2;
+
+export const STORAGE_KEYS = {
+  schema: 'lyb_schema',
+  history: 'lyb_history',
+  settings: 'lyb_settings',
+  session: 'lyb_session',
+  sync: 'lyb_sync',
+  practice: 'lyb_practice',
+  stories: 'lyb_stories',
+  usage: 'lyb_usage',
+} as const;
+
+// Damaged values are kept under `${CORRUPT_PREFIX}${key}:${timestamp}` until the user dismisses them
+const CORRUPT_PREFIX = 'lyb_corrupt:';
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  locale: detectLocale(),
+  traditionalChinese: false,
+  furiganaMode: FuriganaMode.SHOW,
+  voice: '',
+  playbackRate: 1,
+  usageLimits: {},
+  imageStyle: 'random',
+  imagePromptSuffix: '',
+};
+
+export interface RecoveredBlob {
+  storageKey: string;
+  key: string;
+  savedAt: number;
+}
+
+/**
+ * Moves an unreadable value aside so the next write can't destroy it.
+ */
+const quarantine = (key: string, raw: string) => {
+  const storageKey = `${CORRUPT_PREFIX}${key}:${Date.now()}`;
+  try {
+    localStorage.setItem(storageKey, raw);
+  } catch (e) {
+    console.error(`Failed to keep a copy of corrupt "${key}"`, e);
+  }
+  localStorage.removeItem(key);
+  console.error(`Stored "${key}" could not be read and was moved to "${storageKey}"`);
+};
+
+/**
+ * Reads and parses a JSON value. Unparseable or invalid values are quarantined and the fallback is returned.
+ */
+export const readJson = <T>(key: string, fallback: T, validate: (value: unknown) => value is T = (_v): _v is T => true): T => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return fallback;
+  try {
+    const value: unknown = JSON.parse(raw);
+    if (validate(value)) return value;
+  } catch {
+    // Fall through to quarantine
+  }
+  quarantine(key, raw);
+  return fallback;
+};
+
+export const writeJson = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (e) {
+    // Usually the storage quota; the in-memory state is still intact
+    console.error(`Failed to save "${key}"`, e);
+  }
+};
+
+export const removeKey = (key: string) => localStorage.removeItem(key);
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Repairs one history item, or returns null if it is beyond repair (no word).
+ */
+const migrateHistoryItem = (raw: unknown, index: number): WordHistoryItem | null => {
+  if (!isObject(raw) || typeof raw.word !== 'string' || !raw.word.trim()) return null;
+  const timestamp = Number(raw.timestamp);
+  const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+  return {
+    ...(raw as unknown as WordHistoryItem),
+    id: raw.id !== undefined && raw.id !== null ? String(raw.id) : `migrated-${index}-${raw.word}`,
+    reading: text(raw.reading),
+    definition: text(raw.definition),
+    definition_jp: text(raw.definition_jp),
+    example_jp: text(raw.example_jp),
+    example_cn: text(raw.example_cn),
+    timestamp: Number.isFinite(timestamp) ? timestamp : 0,
+  };
+};
+
+/**
+ * Brings history items from any storage or backup version up to the current one.
+ * Items without a word are dropped; an item whose id repeats an earlier one gets a new id.
+ */
+export const migrateHistoryItems = (raw: unknown[]): WordHistoryItem[] => {
+  const seen = new Set<string>();
+  return raw.flatMap((entry, i) => {
+    const item = migrateHistoryItem(entry, i);
+    if (!item) return [];
+    const unique = seen.has(item.id) ? { ...item, id: crypto.randomUUID() } : item;
+    seen.add(unique.id);
+    return [unique];
+  });
+};
+
+const isHistoryArray = (value: unknown): value is unknown[] => Array.isArray(value);
+
+/**
+ * Reads and repairs the stored history. If any item had to be dropped, the original value
+ * is moved aside and the repaired list saved in its place.
+ */
+const readHistory = (): WordHistoryItem[] => {
+  const raw = localStorage.getItem(STORAGE_KEYS.history);
+  const stored = readJson<unknown[]>(STORAGE_KEYS.history, [], isHistoryArray);
+  const history = migrateHistoryItems(stored);
+  if (raw !== null && history.length < stored.length) {
+    quarantine(STORAGE_KEYS.history, raw);
+    writeJson(STORAGE_KEYS.history, history);
+  }
+  return history;
+};
+
+// --- Migrations ---
+
+/**
+ * MIGRATIONS[n] upgrades storage from version n to n + 1.
+ */
+const MIGRATIONS: Record<number, () => void> = {
+  1: () => {
+    writeJson(STORAGE_KEYS.history, readHistory());
+
+    const furigana = localStorage.getItem('lyb_furigana') as FuriganaMode | null;
+    writeJson(STORAGE_KEYS.settings, {
+      ...DEFAULT_SETTINGS,
+      ...(furigana && Object.values(FuriganaMode).includes(furigana) ? { furiganaMode: furigana } : {}),
+    });
+    localStorage.removeItem('lyb_furigana');
+    // The old login was a mock; real sessions live in lyb_session
+    localStorage.removeItem('lyb_user');
+  },
+};
+
+/**
+ * Runs pending migrations. Call once before anything reads storage.
+ */
+export const migrateStorage = () => {
+  const stored = Number(localStorage.getItem(STORAGE_KEYS.schema));
+  const isFresh = !stored && localStorage.getItem(STORAGE_KEYS.history) === null && localStorage.getItem('lyb_furigana') === null;
+  let version = stored || (isFresh ? STORAGE_VERSION : 1);
+
+  if (version > STORAGE_VERSION) {
+    // Written by a newer build; reading is still attempted but nothing is downgraded
+    console.warn(`Storage version ${version} is newer than this app (${STORAGE_VERSION})`);
+    return;
+  }
+
+  while (version < STORAGE_VERSION) {
+    try {
+      MIGRATIONS[version]();
+    } catch (e) {
+      console.error(`Storage migration from version ${version} failed`, e);
+    }
+    version++;
+  }
+  localStorage.setItem(STORAGE_KEYS.schema, String(STORAGE_VERSION));
+};
+
+// --- Typed accessors ---
+
+export const loadHistory = (): WordHistoryItem[] => readHistory();
+
+export const saveHistory = (history: WordHistoryItem[]) => writeJson(STORAGE_KEYS.history, history);
+
+export const loadSettings = (): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  ...readJson<Partial<AppSettings>>(STORAGE_KEYS.settings, {}, isObject),
+});
+
+export const saveSettings = (settings: AppSettings) => writeJson(STORAGE_KEYS.settings, settings);
+
+export const loadPracticeHistory = (): PracticeHistory =>
+  readJson<PracticeHistory>(STORAGE_KEYS.practice, {}, isObject as (value: unknown) => value is PracticeHistory);
+
+export const savePracticeHistory = (history: PracticeHistory) => writeJson(STORAGE_KEYS.practice, history);
+
+export const loadStories = (): SavedStory[] =>
+  readJson<SavedStory[]>(STORAGE_KEYS.stories, [], Array.isArray as (value: unknown) => value is SavedStory[]);
+
+export const saveStories = (stories: SavedStory[]) => writeJson(STORAGE_KEYS.stories, stories);
+
+// --- Recovery ---
+
+export const listRecoveredBlobs = (): RecoveredBlob[] => {
+  const blobs: RecoveredBlob[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+    if (!storageKey?.startsWith(CORRUPT_PREFIX)) continue;
+    const [key, savedAt] = storageKey.slice(CORRUPT_PREFIX.length).split(':');
+    blobs.push({ storageKey, key, savedAt: Number(savedAt) });
+  }
+  return blobs.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const readRecoveredBlob = (blob: RecoveredBlob): string => localStorage.getItem(blob.storageKey) ?? '';
+
+export const discardRecoveredBlob = (blob: RecoveredBlob) => localStorage.removeItem(blob.storageKey);
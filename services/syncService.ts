@@ -0,0 +1,148 @@
+import { UserProfile, WordHistoryItem } from "../types";
+import {
+  EMPTY_SYNC_META,
+  SyncChange,
+  SyncMeta,
+  SyncRecord,
+  applyAcceptedChanges,
+  applyRemoteRecords,
+  collectLocalChanges,
+} from "../utils/syncUtils";
+import { STORAGE_KEYS, readJson, removeKey, writeJson } from "./storageService";
+import { translate } from "../i18n";
+
+/**
+ * Client for the Wordbook sync server (see server/sync-server.mjs).
+ * Sign-in is passwordless: the server sends a one-time code to the email address
+ * and exchanges it for a bearer token.
+ */
+
+export interface SyncSession {
+  serverUrl: string;
+  token: string;
+  user: UserProfile;
+}
+
+export interface SyncOutcome {
+  history: WordHistoryItem[];
+  meta: SyncMeta;
+  pulled: number;
+  pushed: number;
+  conflicts: number;
+}
+
+export class SyncAuthError extends Error {}
+
+// Conflicting pushes are merged and retried; more rounds than this means another device is busy writing
+const MAX_PUSH_ROUNDS = 3;
+
+export const DEFAULT_SYNC_SERVER_URL = process.env.SYNC_SERVER_URL || 'http://localhost:8787';
+
+const requestJson = async <T>(serverUrl: string, path: string, init: RequestInit = {}, token?: string): Promise<T> => {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  const response = await fetch(`${serverUrl.replace(/\/+$/, '')}${path}`, { ...init, headers });
+  if (response.status === 401) throw new SyncAuthError(translate('login.sessionExpired'));
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new Error(body?.error || `Sync request to ${path} failed with status ${response.status}`);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+};
+
+// --- Session ---
+
+export const loadSession = (): SyncSession | null => readJson<SyncSession | null>(STORAGE_KEYS.session, null);
+
+export const saveSession = (session: SyncSession | null) => {
+  if (session) writeJson(STORAGE_KEYS.session, session);
+  else removeKey(STORAGE_KEYS.session);
+};
+
+export const loadSyncMeta = (): SyncMeta => ({ ...EMPTY_SYNC_META, ...readJson<Partial<SyncMeta>>(STORAGE_KEYS.sync, {}) });
+
+export const saveSyncMeta = (meta: SyncMeta | null) => {
+  if (meta) writeJson(STORAGE_KEYS.sync, meta);
+  else removeKey(STORAGE_KEYS.sync);
+};
+
+// --- Auth ---
+
+/**
+ * Asks the server to send a one-time login code to the email address.
+ */
+export const requestLoginCode = async (serverUrl: string, email: string): Promise<void> => {
+  await requestJson<void>(serverUrl, '/auth/start', { method: 'POST', body: JSON.stringify({ email }) });
+};
+
+/**
+ * Exchanges the emailed code for a session.
+ */
+export const verifyLoginCode = async (serverUrl: string, email: string, code: string): Promise<SyncSession> => {
+  const { token, user } = await requestJson<{ token: string; user: { name: string; email: string } }>(
+    serverUrl,
+    '/auth/verify',
+    { method: 'POST', body: JSON.stringify({ email, code }) }
+  );
+  return {
+    serverUrl,
+    token,
+    user: {
+      ...user,
+      photoURL: `https://ui-avatars.com/api/?name=${encodeURIComponent(user.name)}&background=f59e0b&color=fff`,
+    },
+  };
+};
+
+/**
+ * Revokes the token on the server. Failures are ignored: the local session is dropped either way.
+ */
+export const logout = async (session: SyncSession): Promise<void> => {
+  try {
+    await requestJson<void>(session.serverUrl, '/auth/logout', { method: 'POST' }, session.token);
+  } catch (e) {
+    console.warn("Logout request failed", e);
+  }
+};
+
+// --- Sync ---
+
+/**
+ * One incremental sync: pull records newer than our cursor, reconcile them with local edits,
+ * then push what is left. Conflicts reported by the push are merged and pushed again.
+ */
+export const syncWordbook = async (session: SyncSession, history: WordHistoryItem[], meta: SyncMeta): Promise<SyncOutcome> => {
+  const { serverUrl, token } = session;
+
+  const pull = await requestJson<{ changes: SyncRecord[]; cursor: number }>(serverUrl, `/sync?since=${meta.cursor}`, {}, token);
+  let result = applyRemoteRecords(history, meta, pull.changes);
+  const pulled = result.applied;
+  let conflicts = result.conflicts;
+  let pushed = 0;
+
+  for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+    const changes: SyncChange[] = collectLocalChanges(result.history, result.meta);
+    if (changes.length === 0) break;
+
+    const push = await requestJson<{ accepted: { id: string; rev: number }[]; conflicts: SyncRecord[] }>(
+      serverUrl,
+      '/sync',
+      { method: 'POST', body: JSON.stringify({ changes }) },
+      token
+    );
+    pushed += push.accepted.length;
+    const meta = applyAcceptedChanges(result.history, result.meta, push.accepted);
+    result = applyRemoteRecords(result.history, meta, push.conflicts);
+    conflicts += result.conflicts;
+  }
+
+  return {
+    history: result.history,
+    // Our own pushes come back on the next pull; they match local content and are no-ops
+    meta: { ...result.meta, cursor: pull.cursor, lastSyncedAt: Date.now() },
+    pulled,
+    pushed,
+    conflicts,
+  };
+};
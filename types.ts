@@ -1,11 +1,52 @@
+// A run of Japanese text with its kana reading, for furigana (<ruby>) rendering
+export interface RubySegment {
+  text: string;
+  reading?: string; // Only set for tokens containing kanji
+}
+
+export interface DictionarySense {
+  part_of_speech: string; // e.g. "自動詞・五段", "名詞"
+  definition_cn: string;
+  definition_jp: string;
+  example_jp: string;
+  example_cn: string;
+  example_segments: RubySegment[]; // example_jp split into tokens with readings
+}
+
+export interface ConjugationForm {
+  form: string; // Japanese name of the form, e.g. "て形"
+  form_cn: string; // Chinese label, e.g. "连用形（て）"
+  value: string; // The conjugated word
+}
+
+export type JlptLevel = 'N5' | 'N4' | 'N3' | 'N2' | 'N1' | '';
+
+export type RelationType = 'synonym' | 'antonym' | 'collocation' | 'phrase';
+
+export interface RelatedWord {
+  word: string; // Written as it would be looked up
+  reading: string;
+  relation: RelationType;
+  note: string; // In Chinese: the nuance difference for synonyms, the meaning otherwise
+}
+
 export interface DictionaryResult {
   word: string;
   reading: string; // Kana
   romaji: string;
+
+  // Primary sense, mirrored from senses[0] for code that only needs one meaning
   definition_cn: string;
   definition_jp: string;
   example_jp: string;
   example_cn: string;
+  example_segments: RubySegment[];
+
+  senses: DictionarySense[];
+  jlpt_level: JlptLevel; // Empty when the word is not on the JLPT lists
+  usage_notes: string; // Register, nuance and usage notes
+  conjugations: ConjugationForm[]; // Empty for words that don't inflect
+  related: RelatedWord[]; // Empty for entries cached before related words were looked up
 }
 
 export interface WordHistoryItem {
@@ -17,17 +58,41 @@ export interface WordHistoryItem {
   example_jp: string;
   example_cn: string;
   timestamp: number;
+  part_of_speech?: string;
+  jlpt_level?: JlptLevel;
+  example_segments?: RubySegment[];
+
+  // Organisation
+  tags?: string[];
+  folder?: string;
+
+  // Related words from the lookup, linking entries in the Wordbook graph
+  related?: Pick<RelatedWord, 'word' | 'relation'>[];
+
+  // Spaced Repetition (absent until the first review)
+  dueDate?: number; // Epoch ms when the card is next due
+  interval?: number; // Days until the next review
+  ease?: number; // SM-2 ease factor
+  repetitions?: number; // Consecutive successful reviews
+  lapses?: number; // Times the card was forgotten
+  lastReviewed?: number;
+
+  // Quiz results (absent until first quizzed)
+  quizStats?: QuizStats;
+
+  // Sync
+  updatedAt?: number; // Epoch ms of the last local edit, used to settle sync conflicts
 }
 
 export interface DictionaryState {
   data: DictionaryResult | null;
-  imageUrl: string | null;
+  images: WordImageGallery | null; // Pictures drawn for the word on screen
+  candidates: CandidateResult | null; // Chinese→Japanese search; stays open while a candidate's entry is shown
+  analysis: SentenceAnalysis | null; // Analyze mode; stays open while a token's entry is shown
   
   // Loading States
   isLoadingText: boolean;
   isLoadingImage: boolean;
-  isLoadingAudioWord: boolean;
-  isLoadingAudioSentence: boolean;
   isAnalyzingImage: boolean; // For OCR
   isGeneratingStory: boolean;
 
@@ -35,7 +100,110 @@ export interface DictionaryState {
   
   // New Features
   history: WordHistoryItem[];
-  dailyStory: string | null;
+  dailyStory: SavedStory | null;
+}
+
+export enum StoryLength {
+  SHORT = 'SHORT',
+  MEDIUM = 'MEDIUM',
+  LONG = 'LONG'
+}
+
+export enum StoryGenre {
+  SLICE_OF_LIFE = 'SLICE_OF_LIFE',
+  COMEDY = 'COMEDY',
+  DIALOGUE = 'DIALOGUE',
+  MYSTERY = 'MYSTERY',
+  FANTASY = 'FANTASY',
+  ROMANCE = 'ROMANCE'
+}
+
+export interface StoryOptions {
+  level: JlptLevel; // Empty to match the level of the chosen words
+  length: StoryLength;
+  genre: StoryGenre;
+}
+
+export interface StoryLine {
+  japanese: RubySegment[];
+  chinese: string;
+  words: string[]; // Target words used in this line, as saved in the Wordbook
+}
+
+export interface DailyStory {
+  title: string;
+  lines: StoryLine[];
+}
+
+/**
+ * A generated story kept in the archive. Linked to its words by their text,
+ * so the link survives a word being deleted and saved again.
+ */
+export interface SavedStory extends DailyStory {
+  id: string;
+  createdAt: number;
+  options: StoryOptions;
+  words: string[];
+}
+
+export enum FuriganaMode {
+  SHOW = 'SHOW',
+  HIDE = 'HIDE',
+  UNKNOWN_ONLY = 'UNKNOWN_ONLY' // Hide readings for kanji already in the Wordbook
+}
+
+/**
+ * User preferences persisted in local storage and included in backups.
+ */
+export type AiCapability = 'definition' | 'ocr' | 'story' | 'image' | 'speech' | 'pronunciation';
+
+// Requests allowed per capability per day; zero or missing means unlimited
+export type UsageLimits = Partial<Record<AiCapability, number>>;
+
+// UI languages with a message catalog in i18n/
+export type Locale = 'zh-CN' | 'zh-TW' | 'ja' | 'en';
+
+export interface AppSettings {
+  locale: Locale;
+  traditionalChinese: boolean; // Definitions and translations in Traditional instead of Simplified Chinese
+  furiganaMode: FuriganaMode;
+  voice: string; // TTS voice; empty for the provider's default
+  playbackRate: number;
+  usageLimits: UsageLimits;
+  imageStyle: ImageStyle;
+  imagePromptSuffix: string; // Appended to every picture prompt, e.g. "in pencil, black and white"
+}
+
+// Art styles for word pictures; 'random' picks a different one each time
+export type ImageStyle = 'random' | 'watercolor' | 'anime' | 'pastel' | 'ukiyoe' | 'ghibli';
+
+export interface WordImage {
+  id: string;
+  word: string; // Normalized, see imageKey in services/imageStore.ts
+  dataUrl: string;
+  thumbnail: string; // Small JPEG for Wordbook rows; the full picture if it couldn't be shrunk
+  style: ImageStyle;
+  createdAt: number;
+}
+
+// All pictures kept for one word, newest first
+export interface WordImageGallery {
+  word: string;
+  images: WordImage[];
+  pinnedId: string | null; // The favorite, shown in the Wordbook and exports
+}
+
+// Fractions (0-1) of the image's width and height
+export interface BoundingBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrSpan {
+  text: string;
+  box: BoundingBox | null; // Null when the model couldn't locate the text
 }
 
 export interface UserProfile {
@@ -46,10 +214,124 @@ export interface UserProfile {
 
 export enum ViewMode {
   SEARCH = 'SEARCH',
-  WORDBOOK = 'WORDBOOK'
+  WORDBOOK = 'WORDBOOK',
+  REVIEW = 'REVIEW',
+  QUIZ = 'QUIZ'
+}
+
+export enum ReviewGrade {
+  AGAIN = 'AGAIN',
+  HARD = 'HARD',
+  GOOD = 'GOOD',
+  EASY = 'EASY'
+}
+
+export enum WordbookSort {
+  NEWEST = 'NEWEST',
+  OLDEST = 'OLDEST',
+  ALPHABETICAL = 'ALPHABETICAL',
+  KANA = 'KANA' // Gojūon order of the reading
+}
+
+export interface WordbookFilter {
+  query: string;
+  sort: WordbookSort;
+  tag: string | null;
+  folder: string | null; // UNFILED_FOLDER selects entries without a folder
 }
 
 export enum SearchMode {
-  JP_TO_CN = 'JP_TO_CN',
-  CN_TO_JP = 'CN_TO_JP' // Implicitly handled by AI
-}
\ No newline at end of file
+  JP_TO_CN = 'JP_TO_CN', // Look up a Japanese (or Chinese) word and open its entry
+  CN_TO_JP = 'CN_TO_JP', // Find Japanese equivalents of a Chinese word to choose from
+  ANALYZE = 'ANALYZE' // Break a pasted sentence or paragraph into glossed words and grammar points
+}
+
+export interface SentenceToken {
+  text: string; // Exactly as written in the sentence
+  reading: string; // Hiragana, only for tokens containing kanji
+  base_form: string; // Dictionary form to look up; empty for punctuation and symbols
+  part_of_speech: string;
+  gloss_cn: string; // Short meaning in context
+}
+
+export interface GrammarPoint {
+  pattern: string; // e.g. 〜てしまう
+  excerpt: string; // Where it appears in the sentence
+  explanation_cn: string;
+}
+
+export interface SentenceAnalysis {
+  sentence: string;
+  translation_cn: string;
+  tokens: SentenceToken[]; // Consecutive, joining back to the sentence
+  grammar: GrammarPoint[];
+}
+
+export type CandidateTag = 'common' | 'formal' | 'casual' | 'written' | 'spoken' | 'literary' | 'false_friend';
+
+export interface JapaneseCandidate {
+  word: string;
+  reading: string;
+  meaning_cn: string; // Which sense of the Chinese query this word covers
+  nuance: string; // How it differs from the other candidates, in Chinese
+  tags: CandidateTag[]; // 'false_friend' when the kanji look like the query but the meaning drifts
+}
+
+export interface FalseFriend {
+  word: string; // Written with the same (or near-identical) kanji as the query
+  reading: string;
+  meaning_cn: string; // What it actually means in Japanese
+  warning: string; // How it differs from the Chinese word, in Chinese
+}
+
+export interface KanjiInfo {
+  character: string;
+  onyomi: string[]; // Katakana
+  kunyomi: string[]; // Hiragana, with okurigana after a dot (た.べる)
+  meaning_cn: string;
+  radical: string; // The dictionary (Kangxi) radical
+  components: string[]; // Visible parts, e.g. 犭 and 苗 for 猫
+  stroke_count: number;
+}
+
+export interface CandidateResult {
+  query: string;
+  candidates: JapaneseCandidate[]; // Ranked, most natural equivalent first
+  false_friends: FalseFriend[];
+}
+
+export enum QuizMode {
+  MEANING = 'MEANING', // Pick the definition
+  READING = 'READING', // Type the reading (romaji is converted to kana)
+  CLOZE = 'CLOZE' // Pick the word missing from its example sentence
+}
+
+export interface QuizStats {
+  correct: number;
+  wrong: number;
+  streak: number; // Correct answers in a row since the last mistake
+  lastQuizzed: number;
+}
+
+export interface MoraFeedback {
+  mora: string; // Expected mora in kana
+  heard: string; // What the model heard instead, or the same mora
+  ok: boolean;
+  pitch: 'H' | 'L' | ''; // Expected pitch (standard Tokyo accent)
+  note: string; // Short correction in Chinese, empty when ok
+}
+
+export interface PronunciationAssessment {
+  transcript: string; // What the model heard, in Japanese
+  score: number; // 0-100
+  morae: MoraFeedback[];
+  pitch_feedback: string;
+  advice: string;
+}
+
+export interface PracticeAttempt {
+  text: string; // The word or sentence practised
+  timestamp: number;
+  score: number;
+  transcript: string;
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { WordHistoryItem } from '../types';
+import { filterByDateRange } from './ankiExport';
+
+const entry = (id: string, timestamp: number): WordHistoryItem => ({
+  id,
+  word: id,
+  reading: '',
+  definition: '',
+  definition_jp: '',
+  example_jp: '',
+  example_cn: '',
+  timestamp,
+});
+
+describe('filterByDateRange', () => {
+  const history = [entry('a', 100), entry('b', 200), entry('c', 300)];
+
+  it('keeps entries added within the range, both ends included', () => {
+    expect(filterByDateRange(history, 200, 300).map(item => item.id)).toEqual(['b', 'c']);
+  });
+
+  it('leaves either end open when it is not given', () => {
+    expect(filterByDateRange(history, undefined, 200).map(item => item.id)).toEqual(['a', 'b']);
+    expect(filterByDateRange(history, 201).map(item => item.id)).toEqual(['c']);
+    expect(filterByDateRange(history)).toEqual(history);
+  });
+});
@@ -0,0 +1,280 @@
+import { strToU8, zipSync } from "fflate";
+import type { Database } from "sql.js";
+import { WordHistoryItem } from "../types";
+import { ImagePreferences, generateSpeech, generateWordImage, loadWordImages } from "../services/geminiService";
+import { preferredImage } from "./imageUtils";
+import { decodeBase64, pcmToWav } from "./audioUtils";
+
+export interface AnkiExportOptions {
+  deckName: string;
+  includeAudio: boolean;
+  includeImages: boolean;
+  voice?: string; // The voice picked in settings; speech is cached per voice, so this also reuses cached audio
+  imagePreferences?: ImagePreferences; // For words that have no picture yet
+  onProgress?: (done: number, total: number) => void;
+}
+
+interface MediaFile {
+  name: string;
+  data: Uint8Array;
+}
+
+// Stable ids so re-importing the deck updates the same note type and deck instead of duplicating them
+const MODEL_ID = 1733900000000;
+const DECK_ID = 1733900000001;
+
+const FIELDS = [
+  "Word",
+  "Reading",
+  "DefinitionCN",
+  "DefinitionJP",
+  "ExampleJP",
+  "ExampleCN",
+  "Image",
+  "WordAudio",
+  "ExampleAudio",
+];
+
+const FRONT_TEMPLATE = `<div class="word">{{Word}}</div>
+<div class="reading">{{Reading}}</div>
+{{WordAudio}}`;
+
+const BACK_TEMPLATE = `{{FrontSide}}
+<hr id="answer">
+<div class="definition">{{DefinitionCN}}</div>
+<div class="definition-jp">{{DefinitionJP}}</div>
+<div class="example">{{ExampleJP}} {{ExampleAudio}}</div>
+<div class="example-cn">{{ExampleCN}}</div>
+<div class="image">{{Image}}</div>`;
+
+const CARD_CSS = `.card { font-family: "Noto Sans JP", sans-serif; font-size: 20px; text-align: center; color: #1e293b; background: #fffbeb; }
+.word { font-size: 48px; font-weight: bold; }
+.reading { color: #d97706; font-size: 24px; }
+.definition { font-size: 22px; margin-top: 12px; }
+.definition-jp { color: #64748b; font-size: 16px; }
+.example { margin-top: 16px; font-size: 20px; }
+.example-cn { color: #64748b; font-style: italic; font-size: 16px; }
+.image img { max-width: 100%; border-radius: 16px; margin-top: 16px; }`;
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+/**
+ * Filters history items to those added within [from, to] (inclusive, epoch ms).
+ */
+export const filterByDateRange = (history: WordHistoryItem[], from?: number, to?: number): WordHistoryItem[] =>
+  history.filter(item => (from === undefined || item.timestamp >= from) && (to === undefined || item.timestamp <= to));
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+const imageExtension = (dataUrl: string): string => {
+  const mime = dataUrl.match(/^data:([^;,]+)/)?.[1] ?? "image/jpeg";
+  if (mime === "image/png") return "png";
+  if (mime === "image/svg+xml") return "svg";
+  if (mime === "image/webp") return "webp";
+  return "jpg";
+};
+
+const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const [header, payload] = dataUrl.split(",", 2);
+  return header.includes(";base64") ? decodeBase64(payload) : strToU8(decodeURIComponent(payload));
+};
+
+/**
+ * Anki's checksum: the first 8 hex digits of the SHA-1 of the sort field, as an integer.
+ */
+const fieldChecksum = async (text: string): Promise<number> => {
+  const digest = await crypto.subtle.digest("SHA-1", strToU8(text));
+  const hex = Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, "0")).join("");
+  return parseInt(hex.slice(0, 8), 16);
+};
+
+/**
+ * Anki guids are short base91 strings. Deriving it from the entry id keeps re-exports idempotent
+ * while separate senses of one word stay separate notes.
+ */
+const noteGuid = async (item: WordHistoryItem): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-1", strToU8(`lyb:${item.id}`)));
+  const alphabet = "abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!#$%&()*+,-./:;<=>?@[]^_`{|}~";
+  return Array.from(digest.slice(0, 10)).map(b => alphabet[b % alphabet.length]).join("");
+};
+
+const buildCollectionJson = (deckName: string, now: number) => {
+  const nowSec = Math.floor(now / 1000);
+
+  const model = {
+    id: MODEL_ID,
+    name: "小黄书 Vocabulary",
+    type: 0,
+    mod: nowSec,
+    usn: -1,
+    sortf: 0,
+    did: DECK_ID,
+    tmpls: [{ name: "Recognition", ord: 0, qfmt: FRONT_TEMPLATE, afmt: BACK_TEMPLATE, did: null, bqfmt: "", bafmt: "" }],
+    flds: FIELDS.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: "Arial", size: 20, media: [] })),
+    css: CARD_CSS,
+    latexPre: "\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n",
+    latexPost: "\\end{document}",
+    tags: [],
+    vers: [],
+    req: [[0, "any", [0]]],
+  };
+
+  const deck = (id: number, name: string) => ({
+    id, name, mod: nowSec, usn: -1, desc: "", dyn: 0, collapsed: false, conf: 1, extendNew: 10, extendRev: 50,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0],
+  });
+
+  const dconf = {
+    1: {
+      id: 1, name: "Default", mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+      new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+      lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 },
+      rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 100 },
+    },
+  };
+
+  const conf = {
+    nextPos: 1, estTimes: true, activeDecks: [1], sortType: "noteFld", timeLim: 0, sortBackwards: false,
+    addToCur: true, curDeck: 1, newBury: true, newSpread: 0, dueCounts: true, curModel: MODEL_ID, collapseTime: 1200,
+  };
+
+  return {
+    models: JSON.stringify({ [MODEL_ID]: model }),
+    decks: JSON.stringify({ 1: deck(1, "Default"), [DECK_ID]: deck(DECK_ID, deckName) }),
+    dconf: JSON.stringify(dconf),
+    conf: JSON.stringify(conf),
+  };
+};
+
+const loadSqlJs = async () => {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import("sql.js"),
+    import("sql.js/dist/sql-wasm-browser.wasm?url"),
+  ]);
+  return initSqlJs({ locateFile: () => wasmUrl });
+};
+
+/**
+ * Builds an Anki package (.apkg) containing one note per item, with TTS audio
+ * (wrapped as WAV) and the generated illustration bundled as media.
+ * Media is taken from the offline cache when available and generated otherwise.
+ */
+export const buildAnkiPackage = async (items: WordHistoryItem[], options: AnkiExportOptions): Promise<Blob> => {
+  const SQL = await loadSqlJs();
+  const db: Database = new SQL.Database();
+  const now = Date.now();
+  const media: MediaFile[] = [];
+
+  try {
+    db.run(SCHEMA);
+    const collection = buildCollectionJson(options.deckName, now);
+    db.run(
+      "INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, '{}')",
+      [Math.floor(now / 1000), now, now, collection.conf, collection.models, collection.decks, collection.dconf]
+    );
+
+    for (let index = 0; index < items.length; index++) {
+      const item = items[index];
+      const id = now + index;
+      let wordAudio = "";
+      let exampleAudio = "";
+      let image = "";
+
+      if (options.includeAudio) {
+        try {
+          const name = `lyb_${id}_word.wav`;
+          media.push({ name, data: pcmToWav(decodeBase64(await generateSpeech(item.word, options.voice))) });
+          wordAudio = `[sound:${name}]`;
+          if (item.example_jp) {
+            const exampleName = `lyb_${id}_example.wav`;
+            media.push({ name: exampleName, data: pcmToWav(decodeBase64(await generateSpeech(item.example_jp, options.voice))) });
+            exampleAudio = `[sound:${exampleName}]`;
+          }
+        } catch (e) {
+          console.warn(`Skipping audio for ${item.word}`, e);
+        }
+      }
+
+      if (options.includeImages) {
+        try {
+          // The pinned picture if there is one, so the deck shows the same picture as the Wordbook
+          let gallery = await loadWordImages(item.word);
+          if (gallery.images.length === 0) gallery = await generateWordImage(item.word, item.definition, options.imagePreferences);
+          const dataUrl = preferredImage(gallery)!.dataUrl;
+          const name = `lyb_${id}.${imageExtension(dataUrl)}`;
+          media.push({ name, data: dataUrlToBytes(dataUrl) });
+          image = `<img src="${name}">`;
+        } catch (e) {
+          console.warn(`Skipping image for ${item.word}`, e);
+        }
+      }
+
+      const fields = [
+        escapeHtml(item.word),
+        escapeHtml(item.reading),
+        escapeHtml(item.definition),
+        escapeHtml(item.definition_jp),
+        escapeHtml(item.example_jp),
+        escapeHtml(item.example_cn),
+        image,
+        wordAudio,
+        exampleAudio,
+      ];
+
+      db.run("INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, '')", [
+        id, await noteGuid(item), MODEL_ID, Math.floor(now / 1000), " 小黄书 ",
+        fields.join("\x1f"), item.word, await fieldChecksum(item.word),
+      ]);
+      db.run("INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, '')", [
+        id, id, DECK_ID, Math.floor(now / 1000), index + 1,
+      ]);
+
+      options.onProgress?.(index + 1, items.length);
+    }
+
+    // The package maps numbered zip entries back to their media file names
+    const files: Record<string, Uint8Array> = { "collection.anki2": db.export() };
+    const mediaIndex: Record<string, string> = {};
+    media.forEach((file, i) => {
+      files[String(i)] = file.data;
+      mediaIndex[String(i)] = file.name;
+    });
+    files["media"] = strToU8(JSON.stringify(mediaIndex));
+
+    return new Blob([zipSync(files)], { type: "application/octet-stream" });
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Builds the package and triggers a browser download.
+ */
+export const exportHistoryToAnki = async (items: WordHistoryItem[], options: AnkiExportOptions): Promise<void> => {
+  if (items.length === 0) return;
+
+  const blob = await buildAnkiPackage(items, options);
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", `little_yellow_book_${new Date().toISOString().slice(0, 10)}.apkg`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -11,6 +11,17 @@ export function decodeBase64(base64: string): Uint8Array {
   return bytes;
 }
 
+/**
+ * Encodes bytes as a base64 string (the inverse of decodeBase64).
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let binaryString = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binaryString += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binaryString);
+}
+
 /**
  * Decodes raw PCM data into an AudioBuffer.
  */
@@ -36,11 +47,82 @@ export async function decodeAudioData(
 }
 
 /**
- * Plays an AudioBuffer using the provided context.
+ * Wraps raw 16-bit PCM (as returned by the TTS models) in a WAV container.
+ */
+export function pcmToWav(pcm: Uint8Array, sampleRate: number = 24000, numChannels: number = 1): Uint8Array {
+  const bytesPerSample = 2;
+  const wav = new Uint8Array(44 + pcm.length);
+  const view = new DataView(wav.buffer);
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // PCM chunk size
+  view.setUint16(20, 1, true); // Audio format: PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * numChannels * bytesPerSample, true);
+  view.setUint16(32, numChannels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+  writeString(36, 'data');
+  view.setUint32(40, pcm.length, true);
+  wav.set(pcm, 44);
+
+  return wav;
+}
+
+/**
+ * Encodes any AudioBuffer (any sample rate or channel count) as a 16-bit WAV file.
+ */
+export function encodeWav(buffer: AudioBuffer): Uint8Array {
+  const { numberOfChannels, length } = buffer;
+  const pcm = new Int16Array(length * numberOfChannels);
+  for (let channel = 0; channel < numberOfChannels; channel++) {
+    const channelData = buffer.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      // Interleaved, as WAV expects
+      pcm[i * numberOfChannels + channel] = Math.max(-32768, Math.min(32767, Math.round(channelData[i] * 32767)));
+    }
+  }
+  return pcmToWav(new Uint8Array(pcm.buffer), buffer.sampleRate, numberOfChannels);
+}
+
+export function downloadWav(wav: Uint8Array, fileName: string): void {
+  const url = URL.createObjectURL(new Blob([wav], { type: 'audio/wav' }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", fileName);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Converts a MediaRecorder clip (webm/ogg/mp4) into 16-bit mono WAV, which every AI backend accepts.
  */
-export function playBuffer(buffer: AudioBuffer, ctx: AudioContext): void {
-  const source = ctx.createBufferSource();
-  source.buffer = buffer;
-  source.connect(ctx.destination);
-  source.start();
-}
\ No newline at end of file
+export async function recordingToWav(recording: Blob, sampleRate: number = 16000): Promise<Uint8Array> {
+  const decodeCtx = new AudioContext();
+  try {
+    const decoded = await decodeCtx.decodeAudioData(await recording.arrayBuffer());
+    // Rendering through an offline context downmixes and resamples in one step
+    const offline = new OfflineAudioContext(1, Math.ceil(decoded.duration * sampleRate), sampleRate);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const rendered = (await offline.startRendering()).getChannelData(0);
+
+    const pcm = new Int16Array(rendered.length);
+    for (let i = 0; i < rendered.length; i++) {
+      pcm[i] = Math.max(-32768, Math.min(32767, Math.round(rendered[i] * 32767)));
+    }
+    return pcmToWav(new Uint8Array(pcm.buffer), sampleRate);
+  } finally {
+    decodeCtx.close();
+  }
+}
@@ -0,0 +1,79 @@
+import { AppSettings, SavedStory, UserProfile, WordHistoryItem } from "../types";
+import { DEFAULT_SETTINGS, STORAGE_VERSION, migrateHistoryItems } from "../services/storageService";
+import { translate } from "../i18n";
+
+export const BACKUP_FORMAT = 'little-yellow-book/backup';
+
+/**
+ * Everything needed to move to a new device. The login token is deliberately left out:
+ * restoring pre-fills the login screen instead.
+ */
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number; // Storage version the backup was written with
+  exportedAt: number;
+  profile: { user: UserProfile; serverUrl: string } | null;
+  settings: AppSettings;
+  history: WordHistoryItem[];
+  stories: SavedStory[];
+}
+
+export const createBackupFile = (
+  history: WordHistoryItem[],
+  settings: AppSettings,
+  profile: BackupFile['profile'],
+  stories: SavedStory[]
+): BackupFile => ({
+  format: BACKUP_FORMAT,
+  version: STORAGE_VERSION,
+  exportedAt: Date.now(),
+  profile,
+  settings,
+  history,
+  stories,
+});
+
+/**
+ * Downloads a full backup of profile, settings, Wordbook and story archive.
+ */
+export const downloadBackup = (backup: BackupFile) => {
+  const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", `little_yellow_book_backup_${new Date(backup.exportedAt).toISOString().slice(0, 10)}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Parses and upgrades a backup file. Throws with a user-facing message if it can't be used.
+ */
+export const parseBackupFile = (text: string): BackupFile => {
+  let raw: Partial<BackupFile>;
+  try {
+    raw = JSON.parse(text.replace(/^\uFEFF/, ''));
+  } catch {
+    throw new Error(translate('backup.invalid'));
+  }
+  if (raw?.format !== BACKUP_FORMAT || !Array.isArray(raw.history)) {
+    throw new Error(translate('backup.wrongFormat'));
+  }
+  if (Number(raw.version) > STORAGE_VERSION) {
+    throw new Error(translate('backup.tooNew'));
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: STORAGE_VERSION,
+    exportedAt: Number(raw.exportedAt) || Date.now(),
+    profile: raw.profile?.user ? raw.profile : null,
+    settings: { ...DEFAULT_SETTINGS, ...raw.settings },
+    history: migrateHistoryItems(raw.history),
+    // Older backups predate the story archive
+    stories: Array.isArray(raw.stories) ? raw.stories : [],
+  };
+};
@@ -1,8 +1,9 @@
 import { WordHistoryItem } from "../types";
 
-export const exportHistoryToCSV = (history: WordHistoryItem[]) => {
-  if (history.length === 0) return;
-
+/**
+ * The Wordbook as CSV, in the column order the importer (importUtils.ts) expects.
+ */
+export const historyToCSV = (history: WordHistoryItem[]): string => {
   // Define CSV Headers
   const headers = [
     "Word",
@@ -11,7 +12,8 @@ export const exportHistoryToCSV = (history: WordHistoryItem[]) => {
     "Definition (JP)",
     "Example (JP)",
     "Example (CN)",
-    "Date Added"
+    "Date Added",
+    "Part of Speech"
   ];
 
   // Convert data to CSV rows
@@ -23,15 +25,21 @@ export const exportHistoryToCSV = (history: WordHistoryItem[]) => {
       `"${item.definition_jp.replace(/"/g, '""')}"`,
       `"${item.example_jp.replace(/"/g, '""')}"`,
       `"${item.example_cn.replace(/"/g, '""')}"`,
-      `"${new Date(item.timestamp).toLocaleDateString()}"`
+      // ISO rather than the locale's format, so importing the file reads the dates back
+      `"${new Date(item.timestamp).toISOString().slice(0, 10)}"`,
+      `"${(item.part_of_speech ?? '').replace(/"/g, '""')}"`
     ].join(",");
   });
 
   // Combine headers and rows
-  const csvContent = [headers.join(","), ...rows].join("\n");
+  return [headers.join(","), ...rows].join("\n");
+};
+
+export const exportHistoryToCSV = (history: WordHistoryItem[]) => {
+  if (history.length === 0) return;
 
   // Create a Blob
-  const blob = new Blob([`\uFEFF${csvContent}`], { type: 'text/csv;charset=utf-8;' }); // \uFEFF for Excel BOM support
+  const blob = new Blob([`\uFEFF${historyToCSV(history)}`], { type: 'text/csv;charset=utf-8;' }); // \uFEFF for Excel BOM support
   const url = URL.createObjectURL(blob);
 
   // Create a temporary link to trigger download
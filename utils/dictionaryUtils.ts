@@ -0,0 +1,143 @@
+import { CandidateResult, CandidateTag, DictionaryResult, DictionarySense, RelatedWord, RelationType, WordHistoryItem } from "../types";
+import { normalizeSegments } from "./furiganaUtils";
+
+// Longer input is a pasted paragraph rather than a word or phrase to look up
+const MAX_QUERY_LENGTH = 50;
+
+// Control, zero-width and bidi characters, which can hide text from the user but not from the model
+const INVISIBLE_CHARS = /[\u0000-\u001f\u007f-\u009f\u200b-\u200f\u2028-\u202e\u2060-\u206f\ufeff]/g;
+
+/**
+ * Cleans up user or OCR text before it is sent to the model or used as a cache key:
+ * NFKC (full-width letters and half-width kana become standard), no invisible characters,
+ * single spaces and at most `maxLength` characters.
+ */
+export const normalizeQuery = (query: string, maxLength: number = MAX_QUERY_LENGTH): string =>
+  query.normalize('NFKC').replace(/\s+/g, ' ').replace(INVISIBLE_CHARS, '').trim().slice(0, maxLength).trim();
+
+const RELATION_TYPES: RelationType[] = ['synonym', 'antonym', 'collocation', 'phrase'];
+
+/**
+ * Keeps related words with a known relation, once each, and never the word itself.
+ */
+const normalizeRelated = (related: Partial<RelatedWord>[] | undefined, word: string): RelatedWord[] => {
+  const seen = new Set<string>([word]);
+  return (related ?? []).flatMap(item => {
+    const relatedWord = item.word?.trim() ?? '';
+    if (!relatedWord || seen.has(relatedWord) || !RELATION_TYPES.includes(item.relation as RelationType)) return [];
+    seen.add(relatedWord);
+    return [{ word: relatedWord, reading: item.reading ?? '', relation: item.relation as RelationType, note: item.note ?? '' }];
+  });
+};
+
+/**
+ * Fills in fields that older cached entries (single-sense) or sloppy model output lack,
+ * and mirrors the primary sense onto the top-level definition/example fields.
+ */
+export const normalizeDictionaryResult = (raw: Partial<DictionaryResult>): DictionaryResult => {
+  const rawSenses: Partial<DictionarySense>[] = raw.senses?.length
+    ? raw.senses
+    : [{
+        definition_cn: raw.definition_cn,
+        definition_jp: raw.definition_jp,
+        example_jp: raw.example_jp,
+        example_cn: raw.example_cn,
+        example_segments: raw.example_segments,
+      }];
+
+  const senses: DictionarySense[] = rawSenses.map(sense => ({
+    part_of_speech: sense.part_of_speech ?? '',
+    definition_cn: sense.definition_cn ?? '',
+    definition_jp: sense.definition_jp ?? '',
+    example_jp: sense.example_jp ?? '',
+    example_cn: sense.example_cn ?? '',
+    example_segments: normalizeSegments(sense.example_segments, sense.example_jp ?? ''),
+  }));
+  const primary = senses[0];
+
+  return {
+    word: raw.word ?? '',
+    reading: raw.reading ?? '',
+    romaji: raw.romaji ?? '',
+    definition_cn: primary.definition_cn,
+    definition_jp: primary.definition_jp,
+    example_jp: primary.example_jp,
+    example_cn: primary.example_cn,
+    example_segments: primary.example_segments,
+    senses,
+    jlpt_level: raw.jlpt_level ?? '',
+    usage_notes: raw.usage_notes ?? '',
+    conjugations: raw.conjugations ?? [],
+    related: normalizeRelated(raw.related, raw.word ?? ''),
+  };
+};
+
+const CANDIDATE_TAGS: CandidateTag[] = ['common', 'formal', 'casual', 'written', 'spoken', 'literary', 'false_friend'];
+
+/**
+ * Drops candidates without a word, repeated words and unknown tags, keeping the model's ranking.
+ * A candidate spelled like one of the false friends is tagged false_friend even if the model forgot to.
+ */
+export const normalizeCandidateResult = (raw: Partial<CandidateResult>, query: string): CandidateResult => {
+  const falseFriends = (raw.false_friends ?? [])
+    .filter(friend => friend.word?.trim())
+    .map(friend => ({
+      word: friend.word.trim(),
+      reading: friend.reading ?? '',
+      meaning_cn: friend.meaning_cn ?? '',
+      warning: friend.warning ?? '',
+    }));
+  const falseFriendWords = new Set(falseFriends.map(friend => friend.word));
+
+  const seen = new Set<string>();
+  const candidates = (raw.candidates ?? [])
+    .filter(candidate => {
+      const word = candidate.word?.trim();
+      if (!word || seen.has(word)) return false;
+      seen.add(word);
+      return true;
+    })
+    .map(candidate => {
+      const word = candidate.word.trim();
+      const tags = CANDIDATE_TAGS.filter(tag => (candidate.tags ?? []).includes(tag));
+      if (falseFriendWords.has(word) && !tags.includes('false_friend')) tags.push('false_friend');
+      return {
+        word,
+        reading: candidate.reading ?? '',
+        meaning_cn: candidate.meaning_cn ?? '',
+        nuance: candidate.nuance ?? '',
+        tags,
+      };
+    });
+
+  return { query, candidates, false_friends: falseFriends };
+};
+
+/**
+ * Builds a Wordbook entry for one sense of a result.
+ */
+export const createHistoryItem = (result: DictionaryResult, senseIndex: number = 0): WordHistoryItem => {
+  const sense = result.senses[senseIndex] ?? result.senses[0];
+  return {
+    id: crypto.randomUUID(),
+    word: result.word,
+    reading: result.reading,
+    definition: sense.definition_cn,
+    definition_jp: sense.definition_jp,
+    example_jp: sense.example_jp,
+    example_cn: sense.example_cn,
+    timestamp: Date.now(),
+    part_of_speech: sense.part_of_speech || undefined,
+    jlpt_level: result.jlpt_level || undefined,
+    example_segments: sense.example_segments,
+    related: result.related.length > 0 ? result.related.map(({ word, relation }) => ({ word, relation })) : undefined,
+  };
+};
+
+/**
+ * True if this sense of the result is already in the Wordbook.
+ */
+export const isSenseSaved = (history: WordHistoryItem[], result: DictionaryResult, senseIndex: number): boolean => {
+  const sense = result.senses[senseIndex];
+  return !!sense && history.some(item => item.word === result.word && item.definition === sense.definition_cn);
+};
@@ -0,0 +1,34 @@
+/**
+ * Helpers for deciding when a live camera frame is worth sending to OCR.
+ * Frames are compared through a tiny grayscale thumbnail, which is cheap enough to take several times a second.
+ */
+
+export const SIGNATURE_WIDTH = 32;
+export const SIGNATURE_HEIGHT = 24;
+
+/**
+ * Reduces RGBA pixels (from a SIGNATURE_WIDTH × SIGNATURE_HEIGHT canvas) to one luma byte per pixel.
+ */
+export const frameSignature = (rgba: Uint8ClampedArray): Uint8Array => {
+  const signature = new Uint8Array(rgba.length / 4);
+  for (let i = 0; i < signature.length; i++) {
+    const p = i * 4;
+    signature[i] = (rgba[p] * 299 + rgba[p + 1] * 587 + rgba[p + 2] * 114) / 1000;
+  }
+  return signature;
+};
+
+/**
+ * Mean absolute difference between two signatures, from 0 (identical) to 1.
+ */
+export const frameDifference = (a: Uint8Array, b: Uint8Array): number => {
+  if (a.length !== b.length || a.length === 0) return 1;
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / (a.length * 255);
+};
+
+/**
+ * Key for recognized text so the same label seen from a slightly different angle isn't offered twice.
+ */
+export const scanKey = (text: string): string => text.normalize('NFKC').replace(/\s+/g, '');
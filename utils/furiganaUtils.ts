@@ -0,0 +1,61 @@
+import { RubySegment, WordHistoryItem } from "../types";
+
+// CJK ideographs plus the iteration mark and kanji-like counters (々〆ヵヶ)
+const KANJI_REGEX = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF々〆ヵヶ]/;
+const KANJI_GLOBAL_REGEX = /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF々〆ヵヶ]/g;
+
+export const containsKanji = (text: string): boolean => KANJI_REGEX.test(text);
+
+export const segmentsToText = (segments: RubySegment[]): string =>
+  segments.map(segment => segment.text).join('');
+
+/**
+ * Reads segments out in kana, keeping tokens that have no reading (kana, punctuation) as written.
+ */
+export const segmentsToReading = (segments: RubySegment[]): string =>
+  segments.map(segment => segment.reading || segment.text).join('');
+
+/**
+ * Cleans up model-provided segments: readings are dropped where they add nothing
+ * (kana-only tokens, reading identical to the text). If the tokens don't add up
+ * to the original text, the plain text is returned as a single segment.
+ */
+export const normalizeSegments = (segments: RubySegment[] | undefined, text?: string): RubySegment[] => {
+  const cleaned = (segments ?? [])
+    .filter(segment => segment && typeof segment.text === 'string' && segment.text !== '')
+    .map(segment => {
+      const reading = segment.reading?.trim();
+      return reading && reading !== segment.text && containsKanji(segment.text)
+        ? { text: segment.text, reading }
+        : { text: segment.text };
+    });
+
+  if (text === undefined) return cleaned;
+  if (cleaned.length === 0 || segmentsToText(cleaned) !== text) return text ? [{ text }] : [];
+  return cleaned;
+};
+
+/**
+ * Every kanji character that appears in a saved word, for "hide furigana for known kanji".
+ */
+export const collectKnownKanji = (history: WordHistoryItem[]): Set<string> => {
+  const known = new Set<string>();
+  history.forEach(item => {
+    (item.word.match(KANJI_GLOBAL_REGEX) ?? []).forEach(ch => known.add(ch));
+  });
+  return known;
+};
+
+/**
+ * The distinct kanji in a word, in order of appearance. Iteration marks (々) and small ヶ aren't characters to study.
+ */
+export const extractKanji = (text: string): string[] =>
+  [...new Set((text.match(KANJI_GLOBAL_REGEX) ?? []).filter(ch => !'々〆ヵヶ'.includes(ch)))];
+
+/**
+ * True when every kanji in the token is already known, so its reading can be hidden.
+ */
+export const isKnownToken = (text: string, knownKanji: Set<string>): boolean => {
+  const kanji = text.match(KANJI_GLOBAL_REGEX);
+  return !!kanji && kanji.every(ch => knownKanji.has(ch));
+};
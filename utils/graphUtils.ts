@@ -0,0 +1,176 @@
+import { RelationType, WordHistoryItem } from "../types";
+import { extractKanji } from "./furiganaUtils";
+
+export type GraphEdgeKind = RelationType | 'kanji';
+
+export interface GraphEdge {
+  source: string; // Words, not entry ids: senses of one word share a node
+  target: string;
+  kind: GraphEdgeKind;
+  label: string; // The shared kanji for 'kanji' edges, otherwise empty
+}
+
+export interface WordGraph {
+  nodes: WordHistoryItem[]; // The newest entry of each word
+  edges: GraphEdge[];
+}
+
+// Minimum distance between word centres, in layout units, measured with x halved
+const MIN_LABEL_GAP = 32;
+
+export interface GraphPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * Connects Wordbook words that the dictionary listed as related, or that share a kanji.
+ * At most one edge per pair of words; a dictionary relation wins over shared kanji.
+ */
+export const buildWordGraph = (items: WordHistoryItem[]): WordGraph => {
+  const byWord = new Map<string, WordHistoryItem>();
+  items.forEach(item => {
+    if (!byWord.has(item.word)) byWord.set(item.word, item);
+  });
+  const nodes = [...byWord.values()];
+
+  const edges = new Map<string, GraphEdge>();
+  const pairKey = (a: string, b: string) => (a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`);
+
+  items.forEach(item => {
+    (item.related ?? []).forEach(({ word, relation }) => {
+      if (word === item.word || !byWord.has(word)) return;
+      const key = pairKey(item.word, word);
+      if (!edges.has(key)) edges.set(key, { source: item.word, target: word, kind: relation, label: '' });
+    });
+  });
+
+  const wordsByKanji = new Map<string, string[]>();
+  nodes.forEach(node => {
+    extractKanji(node.word).forEach(kanji => wordsByKanji.set(kanji, [...(wordsByKanji.get(kanji) ?? []), node.word]));
+  });
+  wordsByKanji.forEach((words, kanji) => {
+    for (let i = 0; i < words.length; i++) {
+      for (let j = i + 1; j < words.length; j++) {
+        const key = pairKey(words[i], words[j]);
+        const existing = edges.get(key);
+        if (!existing) edges.set(key, { source: words[i], target: words[j], kind: 'kanji', label: kanji });
+        else if (existing.kind === 'kanji') existing.label += kanji;
+      }
+    }
+  });
+
+  return { nodes, edges: [...edges.values()] };
+};
+
+/**
+ * Force-directed layout (Fruchterman–Reingold), then scaled to fill a width × height box.
+ * Starts from a circle rather than random positions, so the same graph always looks the same.
+ */
+export const layoutWordGraph = (
+  graph: WordGraph,
+  width: number,
+  height: number,
+  iterations: number = 300
+): Map<string, GraphPoint> => {
+  const words = graph.nodes.map(node => node.word);
+  const positions = new Map<string, GraphPoint>();
+  const count = words.length;
+  if (count === 0) return positions;
+
+  const margin = 40;
+  const cx = width / 2;
+  const cy = height / 2;
+  if (count === 1) return new Map([[words[0], { x: cx, y: cy }]]);
+  words.forEach((word, i) => {
+    const angle = (2 * Math.PI * i) / count;
+    positions.set(word, { x: cx + (width / 3) * Math.cos(angle), y: cy + (height / 3) * Math.sin(angle) });
+  });
+
+  const k = Math.sqrt((width * height) / count) * 0.4; // Ideal edge length
+  let temperature = width / 10;
+
+  for (let step = 0; step < iterations; step++) {
+    const shift = new Map<string, GraphPoint>(words.map(word => [word, { x: 0, y: 0 }]));
+
+    for (let i = 0; i < count; i++) {
+      for (let j = i + 1; j < count; j++) {
+        const a = positions.get(words[i])!;
+        const b = positions.get(words[j])!;
+        const dx = a.x - b.x || 0.01;
+        const dy = a.y - b.y || 0.01;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        const force = (k * k) / distance;
+        const sa = shift.get(words[i])!;
+        const sb = shift.get(words[j])!;
+        sa.x += (dx / distance) * force; sa.y += (dy / distance) * force;
+        sb.x -= (dx / distance) * force; sb.y -= (dy / distance) * force;
+      }
+    }
+
+    graph.edges.forEach(edge => {
+      const a = positions.get(edge.source)!;
+      const b = positions.get(edge.target)!;
+      const dx = a.x - b.x;
+      const dy = a.y - b.y;
+      const distance = Math.sqrt(dx * dx + dy * dy) || 0.01;
+      // Shared kanji pull more gently, so words sharing a common kanji don't pile on top of each other
+      const force = ((distance * distance) / k) * (edge.kind === 'kanji' ? 0.3 : 1);
+      const sa = shift.get(edge.source)!;
+      const sb = shift.get(edge.target)!;
+      sa.x -= (dx / distance) * force; sa.y -= (dy / distance) * force;
+      sb.x += (dx / distance) * force; sb.y += (dy / distance) * force;
+    });
+
+    // Pull to the centre keeps unconnected words from drifting off on their own
+    words.forEach(word => {
+      const p = positions.get(word)!;
+      const s = shift.get(word)!;
+      s.x += (cx - p.x) * 0.1;
+      s.y += (cy - p.y) * 0.1;
+      const length = Math.sqrt(s.x * s.x + s.y * s.y) || 1;
+      const move = Math.min(length, temperature);
+      p.x += (s.x / length) * move;
+      p.y += (s.y / length) * move;
+    });
+
+    temperature *= 0.98;
+  }
+
+  const points = [...positions.values()];
+  const minX = Math.min(...points.map(p => p.x));
+  const minY = Math.min(...points.map(p => p.y));
+  const scaleX = (width - 2 * margin) / (Math.max(...points.map(p => p.x)) - minX || 1);
+  const scaleY = (height - 2 * margin) / (Math.max(...points.map(p => p.y)) - minY || 1);
+  points.forEach(p => {
+    p.x = margin + (p.x - minX) * scaleX;
+    p.y = margin + (p.y - minY) * scaleY;
+  });
+
+  // Tight clusters (many words sharing a kanji) still overlap once scaled; nudge labels apart
+  for (let step = 0; step < 50; step++) {
+    let moved = false;
+    for (let i = 0; i < points.length; i++) {
+      for (let j = i + 1; j < points.length; j++) {
+        const a = points[i];
+        const b = points[j];
+        const dx = (b.x - a.x) / 2; // Labels are about twice as wide as they are tall
+        const dy = b.y - a.y;
+        const distance = Math.sqrt(dx * dx + dy * dy);
+        if (distance >= MIN_LABEL_GAP) continue;
+        moved = true;
+        const push = (MIN_LABEL_GAP - distance) / 2;
+        const ux = distance ? dx / distance : 1;
+        const uy = distance ? dy / distance : 0;
+        a.x -= ux * push * 2; a.y -= uy * push;
+        b.x += ux * push * 2; b.y += uy * push;
+      }
+    }
+    points.forEach(p => {
+      p.x = Math.min(width - margin, Math.max(margin, p.x));
+      p.y = Math.min(height - margin, Math.max(margin, p.y));
+    });
+    if (!moved) break;
+  }
+  return positions;
+};
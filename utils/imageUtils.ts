@@ -0,0 +1,18 @@
+import { WordImage, WordImageGallery } from "../types";
+
+/**
+ * The picture to show for a word: the pinned one, otherwise the newest.
+ */
+export const preferredImage = (gallery: WordImageGallery | null): WordImage | null =>
+  gallery?.images.find(image => image.id === gallery.pinnedId) ?? gallery?.images[0] ?? null;
+
+/**
+ * Ids of the pictures beyond `max`, oldest first; the pinned picture is always kept.
+ */
+export const imagesToDrop = (images: WordImage[], pinnedId: string | null, max: number): string[] => {
+  const unpinned = [...images]
+    .filter(image => image.id !== pinnedId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+  const excess = images.length - max;
+  return excess > 0 ? unpinned.slice(0, excess).map(image => image.id) : [];
+};
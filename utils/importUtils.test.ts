@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { WordHistoryItem } from '../types';
+import { historyToCSV } from './csvUtils';
+import { applyImport, buildImportItems, parseDelimited, parseImportFile, suggestMapping } from './importUtils';
+
+const entry = (overrides: Partial<WordHistoryItem>): WordHistoryItem => ({
+  id: overrides.word ?? 'id',
+  word: '',
+  reading: '',
+  definition: '',
+  definition_jp: '',
+  example_jp: '',
+  example_cn: '',
+  timestamp: 1000,
+  ...overrides,
+});
+
+describe('parseDelimited', () => {
+  it('follows RFC 4180 quoting', () => {
+    const text = '\uFEFFword,note\n"猫","says ""nya"", often"\n犬,"two\nlines"\n';
+    expect(parseDelimited(text)).toEqual([
+      ['word', 'note'],
+      ['猫', 'says "nya", often'],
+      ['犬', 'two\nlines'],
+    ]);
+  });
+});
+
+describe('parseImportFile', () => {
+  it('maps the columns of the app\'s own CSV export by header', () => {
+    const csv = [
+      'Word,Reading,Definition (CN),Definition (JP),Example (JP),Example (CN),Date Added,Part of Speech',
+      '猫,ねこ,猫,ネコ科の動物,猫がいる。,有只猫。,2025-01-15,名詞',
+    ].join('\n');
+    const parsed = parseImportFile('wordbook.csv', csv);
+    const mapping = suggestMapping(parsed);
+
+    expect(parsed.format).toBe('csv');
+    expect(mapping).toEqual(['word', 'reading', 'definition', 'definition_jp', 'example_jp', 'example_cn', 'timestamp', 'part_of_speech']);
+    expect(buildImportItems(parsed, mapping)).toEqual([{
+      word: '猫',
+      reading: 'ねこ',
+      definition: '猫',
+      definition_jp: 'ネコ科の動物',
+      example_jp: '猫がいる。',
+      example_cn: '有只猫。',
+      timestamp: Date.parse('2025-01-15'),
+      part_of_speech: '名詞',
+    }]);
+  });
+
+  it('reads back the dates the app exported', () => {
+    const csv = historyToCSV([entry({ word: '猫', timestamp: Date.parse('2025-01-15T09:30:00Z') })]);
+    const parsed = parseImportFile('wordbook.csv', csv);
+
+    expect(buildImportItems(parsed, suggestMapping(parsed))[0].timestamp).toBe(Date.parse('2025-01-15'));
+  });
+
+  it('reads Anki plain-text exports without their markup', () => {
+    const text = '#separator:tab\n#html:true\n食べる\t<b>たべる</b>\t吃<br>[sound:taberu.mp3]\n';
+    const parsed = parseImportFile('deck.txt', text);
+
+    expect(parsed.format).toBe('anki');
+    expect(parsed.headers).toBeNull();
+    expect(buildImportItems(parsed, suggestMapping(parsed))).toEqual([{ word: '食べる', reading: 'たべる', definition: '吃' }]);
+  });
+
+  it('repairs JSON rows and drops the ones without a word', () => {
+    const json = JSON.stringify({ history: [{ id: 7, word: '猫', reading: 'ねこ' }, { reading: 'いぬ' }, 'junk'] });
+    const parsed = parseImportFile('backup.json', json);
+
+    expect(parsed.items).toHaveLength(1);
+    expect(parsed.items![0]).toMatchObject({ id: '7', word: '猫', reading: 'ねこ', definition: '', example_jp: '' });
+  });
+});
+
+describe('applyImport', () => {
+  const history = [
+    entry({ id: 'a', word: '食べる', reading: 'たべる', part_of_speech: '他動詞', definition: '吃', example_jp: '' }),
+  ];
+
+  it('adds new words and skips duplicates by default', () => {
+    const result = applyImport(history, [{ word: '食べる', definition: '吃饭' }, { word: '猫', reading: 'ねこ' }], 'skip');
+
+    expect(result).toMatchObject({ added: 1, updated: 0, skipped: 1 });
+    expect(result.history.map(item => item.word)).toEqual(['猫', '食べる']);
+    expect(result.history[1]).toBe(history[0]);
+  });
+
+  it('overwrites or merges duplicates and marks them as updated', () => {
+    const imported = [{ word: '食べる', reading: 'たべる', definition: '吃饭', example_jp: 'ご飯を食べる。' }];
+
+    const overwritten = applyImport(history, imported, 'overwrite').history[0];
+    expect(overwritten).toMatchObject({ id: 'a', definition: '吃饭', example_jp: 'ご飯を食べる。' });
+    expect(overwritten.updatedAt).toBeGreaterThan(0);
+
+    const merged = applyImport(history, imported, 'merge').history[0];
+    expect(merged).toMatchObject({ id: 'a', definition: '吃', example_jp: 'ご飯を食べる。' });
+    expect(merged.updatedAt).toBeGreaterThan(0);
+  });
+
+  it('keeps separate senses of a word apart', () => {
+    const result = applyImport(history, [{ word: '食べる', reading: 'たべる', part_of_speech: '名詞', definition: '食物' }], 'overwrite');
+
+    expect(result).toMatchObject({ added: 1, updated: 0 });
+    expect(result.history.map(item => item.definition)).toEqual(['食物', '吃']);
+  });
+
+  it('gives an added entry a new id if its id is already taken', () => {
+    const result = applyImport(history, [{ id: 'a', word: '猫' }], 'skip');
+
+    expect(result.history[0].word).toBe('猫');
+    expect(result.history[0].id).not.toBe('a');
+    expect(result.history[0].updatedAt).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,298 @@
+import { WordHistoryItem } from "../types";
+import type { MessageKey } from "../i18n";
+import { WORDBOOK_JSON_FORMAT } from "./jsonUtils";
+import { markUpdated } from "./syncUtils";
+import { migrateHistoryItems } from "../services/storageService";
+
+export type ImportField =
+  | 'word'
+  | 'reading'
+  | 'definition'
+  | 'definition_jp'
+  | 'example_jp'
+  | 'example_cn'
+  | 'timestamp'
+  | 'part_of_speech';
+
+export type ColumnMapping = (ImportField | null)[]; // One entry per column, null = ignore
+
+export type DuplicateStrategy = 'skip' | 'overwrite' | 'merge';
+
+export type ImportFormat = 'csv' | 'anki' | 'json';
+
+export interface ParsedImport {
+  format: ImportFormat;
+  headers: string[] | null; // Null when the file has no header row (e.g. Anki exports)
+  rows: string[][];
+  items: Partial<WordHistoryItem>[] | null; // Set for JSON, which needs no column mapping
+}
+
+export interface ImportResult {
+  history: WordHistoryItem[];
+  added: number;
+  updated: number;
+  skipped: number;
+}
+
+export const IMPORT_FIELDS: { field: ImportField; label: MessageKey }[] = [
+  { field: 'word', label: 'import.field.word' },
+  { field: 'reading', label: 'import.field.reading' },
+  { field: 'definition', label: 'import.field.definition' },
+  { field: 'definition_jp', label: 'import.field.definition_jp' },
+  { field: 'example_jp', label: 'import.field.example_jp' },
+  { field: 'example_cn', label: 'import.field.example_cn' },
+  { field: 'timestamp', label: 'import.field.timestamp' },
+  { field: 'part_of_speech', label: 'import.field.part_of_speech' },
+];
+
+const TEXT_FIELDS: Exclude<ImportField, 'timestamp'>[] = ['word', 'reading', 'definition', 'definition_jp', 'example_jp', 'example_cn', 'part_of_speech'];
+
+/**
+ * Parses delimited text per RFC 4180: quoted fields may contain the delimiter,
+ * line breaks and doubled quotes ("") as an escaped quote. A leading BOM is ignored.
+ */
+export const parseDelimited = (text: string, delimiter: string = ','): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+      continue;
+    }
+
+    if (ch === '"' && field === '') {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+/**
+ * Anki's "Notes in Plain Text" export: tab separated, optional `#key:value` header lines, HTML in fields.
+ */
+const parseAnkiText = (text: string): string[][] => {
+  const body = text
+    .replace(/^\uFEFF/, '')
+    .split(/\r?\n/)
+    .filter(line => !line.startsWith('#'))
+    .join('\n');
+  return parseDelimited(body, '\t').map(row => row.map(stripHtml));
+};
+
+const stripHtml = (value: string): string =>
+  value
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// Rows from other app versions go through the same repair as stored history; ones without a word are dropped
+const parseJson = (text: string): WordHistoryItem[] => {
+  const data = JSON.parse(text.replace(/^\uFEFF/, ''));
+  const list = Array.isArray(data) ? data : data?.format === WORDBOOK_JSON_FORMAT || Array.isArray(data?.history) ? data.history : null;
+  if (!Array.isArray(list)) throw new Error("Unrecognized JSON wordbook");
+  return migrateHistoryItems(list);
+};
+
+const looksLikeHeader = (row: string[]): boolean =>
+  row.some(cell => guessField(cell) !== null);
+
+const guessField = (header: string): ImportField | null => {
+  const h = header.trim().toLowerCase();
+  if (/^(word|単語|单词|expression|front)$/.test(h)) return 'word';
+  if (/^(reading|読み|读音|kana|furigana)$/.test(h)) return 'reading';
+  if (/definition.*\(jp\)|definition_jp|意味/.test(h)) return 'definition_jp';
+  if (/definition|meaning|释义|back/.test(h)) return 'definition';
+  if (/example.*\(jp\)|example_jp|例文/.test(h)) return 'example_jp';
+  if (/example.*\(cn\)|example_cn|例句/.test(h)) return 'example_cn';
+  if (/date|timestamp|added/.test(h)) return 'timestamp';
+  if (/part.of.speech|^pos$|品詞|词性/.test(h)) return 'part_of_speech';
+  return null;
+};
+
+/**
+ * Detects the format from the file name and content and parses it.
+ */
+export const parseImportFile = (fileName: string, text: string): ParsedImport => {
+  const name = fileName.toLowerCase();
+  const trimmed = text.replace(/^\uFEFF/, '').trimStart();
+
+  if (name.endsWith('.json') || trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return { format: 'json', headers: null, rows: [], items: parseJson(text) };
+  }
+
+  const isAnki = name.endsWith('.txt') || name.endsWith('.tsv') || trimmed.startsWith('#separator:tab')
+    || (!trimmed.split('\n')[0].includes(',') && trimmed.includes('\t'));
+  const rows = isAnki ? parseAnkiText(text) : parseDelimited(text, ',');
+  const hasHeader = rows.length > 0 && looksLikeHeader(rows[0]);
+
+  return {
+    format: isAnki ? 'anki' : 'csv',
+    headers: hasHeader ? rows[0] : null,
+    rows: hasHeader ? rows.slice(1) : rows,
+    items: null,
+  };
+};
+
+/**
+ * Suggests a mapping from header names, or positionally in the app's own column order.
+ */
+export const suggestMapping = (parsed: ParsedImport): ColumnMapping => {
+  const columnCount = Math.max(parsed.headers?.length ?? 0, ...parsed.rows.map(r => r.length), 0);
+  const used = new Set<ImportField>();
+
+  return Array.from({ length: columnCount }, (_, i) => {
+    const field = parsed.headers ? guessField(parsed.headers[i] ?? '') : IMPORT_FIELDS[i]?.field ?? null;
+    if (!field || used.has(field)) return null;
+    used.add(field);
+    return field;
+  });
+};
+
+const parseDate = (value: string): number | undefined => {
+  const numeric = Number(value);
+  if (value.trim() !== '' && Number.isFinite(numeric)) return numeric;
+  const parsed = Date.parse(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+/**
+ * Applies the column mapping to one row.
+ */
+export const rowToItem = (row: string[], mapping: ColumnMapping): Partial<WordHistoryItem> => {
+  const item: Partial<WordHistoryItem> = {};
+  mapping.forEach((field, i) => {
+    const value = row[i]?.trim() ?? '';
+    if (!field || value === '') return;
+    if (field === 'timestamp') item.timestamp = parseDate(value);
+    else item[field] = value;
+  });
+  return item;
+};
+
+/**
+ * Applies the column mapping and returns candidate entries (JSON imports pass through).
+ */
+export const buildImportItems = (parsed: ParsedImport, mapping: ColumnMapping): Partial<WordHistoryItem>[] => {
+  if (parsed.items) return parsed.items;
+  return parsed.rows.map(row => rowToItem(row, mapping)).filter(item => !!item.word);
+};
+
+/**
+ * Same word, reading and part of speech, so separate senses of a word stay separate.
+ * A reading or part of speech the import doesn't have matches any.
+ */
+const isSameEntry = (existing: WordHistoryItem, item: Partial<WordHistoryItem>): boolean =>
+  existing.word === item.word
+  && (!item.reading || existing.reading === item.reading)
+  && (!item.part_of_speech || (existing.part_of_speech ?? '') === item.part_of_speech);
+
+export const findDuplicate = (history: WordHistoryItem[], item: Partial<WordHistoryItem>): WordHistoryItem | undefined =>
+  history.find(existing => isSameEntry(existing, item));
+
+const toHistoryItem = (item: Partial<WordHistoryItem>, usedIds: Set<string>): WordHistoryItem => ({
+  ...item,
+  // Ids from another device's export are kept unless they clash with an entry here
+  id: item.id && !usedIds.has(item.id) ? item.id : crypto.randomUUID(),
+  word: item.word ?? '',
+  reading: item.reading ?? '',
+  definition: item.definition ?? '',
+  definition_jp: item.definition_jp ?? '',
+  example_jp: item.example_jp ?? '',
+  example_cn: item.example_cn ?? '',
+  timestamp: item.timestamp ?? Date.now(),
+});
+
+/**
+ * Merges imported entries into the existing history.
+ * - skip: existing entries win
+ * - overwrite: imported content replaces the existing entry (its id and review schedule are kept)
+ * - merge: imported values only fill fields that are empty in the existing entry
+ * Every added or changed entry is marked as updated, so sync doesn't revert it to the server copy.
+ */
+export const applyImport = (
+  history: WordHistoryItem[],
+  items: Partial<WordHistoryItem>[],
+  strategy: DuplicateStrategy
+): ImportResult => {
+  const next = [...history];
+  const added: WordHistoryItem[] = [];
+  const usedIds = new Set(history.map(item => item.id));
+  const now = Date.now();
+  let updated = 0;
+  let skipped = 0;
+
+  items.forEach(item => {
+    const existingIndex = next.findIndex(existing => isSameEntry(existing, item));
+    const addedIndex = added.findIndex(existing => isSameEntry(existing, item));
+
+    if (existingIndex === -1 && addedIndex === -1) {
+      const entry = markUpdated(toHistoryItem(item, usedIds), now);
+      usedIds.add(entry.id);
+      added.push(entry);
+      return;
+    }
+    if (strategy === 'skip') {
+      skipped++;
+      return;
+    }
+
+    const target = existingIndex !== -1 ? next : added;
+    const targetIndex = existingIndex !== -1 ? existingIndex : addedIndex;
+    const existing = target[targetIndex];
+
+    if (strategy === 'overwrite') {
+      const replacement: Partial<WordHistoryItem> = {};
+      TEXT_FIELDS.forEach(field => {
+        if (item[field]) replacement[field] = item[field];
+      });
+      target[targetIndex] = markUpdated({ ...existing, ...replacement }, now);
+    } else {
+      const merged = { ...existing };
+      TEXT_FIELDS.forEach(field => {
+        if (!merged[field] && item[field]) merged[field] = item[field] as string;
+      });
+      target[targetIndex] = markUpdated(merged, now);
+    }
+    if (existingIndex !== -1) updated++;
+  });
+
+  return { history: [...added, ...next], added: added.length, updated, skipped };
+};
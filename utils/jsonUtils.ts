@@ -0,0 +1,35 @@
+import { WordHistoryItem } from "../types";
+
+export const WORDBOOK_JSON_FORMAT = 'little-yellow-book/wordbook';
+
+export interface WordbookJsonFile {
+  format: typeof WORDBOOK_JSON_FORMAT;
+  version: 1;
+  exportedAt: number;
+  history: WordHistoryItem[];
+}
+
+/**
+ * Downloads the full wordbook (including review schedule) as JSON, for lossless re-import.
+ */
+export const exportHistoryToJSON = (history: WordHistoryItem[]) => {
+  if (history.length === 0) return;
+
+  const file: WordbookJsonFile = {
+    format: WORDBOOK_JSON_FORMAT,
+    version: 1,
+    exportedAt: Date.now(),
+    history,
+  };
+
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement("a");
+  link.href = url;
+  link.setAttribute("download", `little_yellow_book_wordbook_${new Date().toISOString().slice(0, 10)}.json`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { isReadingMatch, katakanaToHiragana, romajiToHiragana, splitMorae } from './kanaUtils';
+
+describe('romajiToHiragana', () => {
+  it('converts Hepburn and Kunrei spellings', () => {
+    expect(romajiToHiragana('shinbun')).toBe('しんぶん');
+    expect(romajiToHiragana('sinbun')).toBe('しんぶん');
+    expect(romajiToHiragana('tsukue')).toBe('つくえ');
+    expect(romajiToHiragana('kyou')).toBe('きょう');
+  });
+
+  it('turns doubled consonants into a small tsu', () => {
+    expect(romajiToHiragana('kitte')).toBe('きって');
+    expect(romajiToHiragana('matcha')).toBe('まっちゃ');
+  });
+
+  it('handles syllabic n', () => {
+    expect(romajiToHiragana("kon'ya")).toBe('こんや');
+    expect(romajiToHiragana('konnichiha')).toBe('こんにちは');
+    expect(romajiToHiragana('hon')).toBe('ほん');
+    expect(romajiToHiragana('honn')).toBe('ほん');
+  });
+
+  it('leaves kana, kanji and unknown characters alone', () => {
+    expect(romajiToHiragana('ねko')).toBe('ねこ');
+    expect(romajiToHiragana('猫!')).toBe('猫!');
+  });
+});
+
+describe('splitMorae', () => {
+  it('attaches small kana and counts っ, ん and ー on their own', () => {
+    expect(splitMorae('きょう')).toEqual(['きょ', 'う']);
+    expect(splitMorae('がっこう')).toEqual(['が', 'っ', 'こ', 'う']);
+    expect(splitMorae('コーヒー')).toEqual(['コ', 'ー', 'ヒ', 'ー']);
+    expect(splitMorae('ほん。')).toEqual(['ほ', 'ん']);
+  });
+});
+
+describe('isReadingMatch', () => {
+  it('accepts romaji, hiragana or katakana for the same reading', () => {
+    expect(katakanaToHiragana('ネコ')).toBe('ねこ');
+    expect(isReadingMatch('neko', 'ねこ')).toBe(true);
+    expect(isReadingMatch('ネコ', 'ねこ')).toBe(true);
+    expect(isReadingMatch(' taberu ', 'たべる')).toBe(true);
+  });
+
+  it('rejects wrong and empty answers', () => {
+    expect(isReadingMatch('inu', 'ねこ')).toBe(false);
+    expect(isReadingMatch('', '')).toBe(false);
+  });
+});
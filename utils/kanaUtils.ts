@@ -0,0 +1,133 @@
+/**
+ * Kana helpers for answering without a Japanese IME.
+ */
+
+// Hepburn and Kunrei spellings, plus x/l prefixes for small kana
+const ROMAJI_TABLE: Record<string, string> = {
+  a: 'あ', i: 'い', u: 'う', e: 'え', o: 'お',
+  ka: 'か', ki: 'き', ku: 'く', ke: 'け', ko: 'こ',
+  ga: 'が', gi: 'ぎ', gu: 'ぐ', ge: 'げ', go: 'ご',
+  sa: 'さ', shi: 'し', si: 'し', su: 'す', se: 'せ', so: 'そ',
+  za: 'ざ', ji: 'じ', zi: 'じ', zu: 'ず', ze: 'ぜ', zo: 'ぞ',
+  ta: 'た', chi: 'ち', ti: 'ち', tsu: 'つ', tu: 'つ', te: 'て', to: 'と',
+  da: 'だ', di: 'ぢ', du: 'づ', de: 'で', do: 'ど',
+  na: 'な', ni: 'に', nu: 'ぬ', ne: 'ね', no: 'の',
+  ha: 'は', hi: 'ひ', fu: 'ふ', hu: 'ふ', he: 'へ', ho: 'ほ',
+  ba: 'ば', bi: 'び', bu: 'ぶ', be: 'べ', bo: 'ぼ',
+  pa: 'ぱ', pi: 'ぴ', pu: 'ぷ', pe: 'ぺ', po: 'ぽ',
+  ma: 'ま', mi: 'み', mu: 'む', me: 'め', mo: 'も',
+  ya: 'や', yu: 'ゆ', yo: 'よ',
+  ra: 'ら', ri: 'り', ru: 'る', re: 'れ', ro: 'ろ',
+  wa: 'わ', wi: 'ゐ', we: 'ゑ', wo: 'を',
+  kya: 'きゃ', kyu: 'きゅ', kyo: 'きょ',
+  gya: 'ぎゃ', gyu: 'ぎゅ', gyo: 'ぎょ',
+  sha: 'しゃ', shu: 'しゅ', sho: 'しょ', she: 'しぇ', sya: 'しゃ', syu: 'しゅ', syo: 'しょ',
+  ja: 'じゃ', ju: 'じゅ', jo: 'じょ', je: 'じぇ', jya: 'じゃ', jyu: 'じゅ', jyo: 'じょ', zya: 'じゃ', zyu: 'じゅ', zyo: 'じょ',
+  cha: 'ちゃ', chu: 'ちゅ', cho: 'ちょ', che: 'ちぇ', tya: 'ちゃ', tyu: 'ちゅ', tyo: 'ちょ', cya: 'ちゃ', cyu: 'ちゅ', cyo: 'ちょ',
+  dya: 'ぢゃ', dyu: 'ぢゅ', dyo: 'ぢょ',
+  nya: 'にゃ', nyu: 'にゅ', nyo: 'にょ',
+  hya: 'ひゃ', hyu: 'ひゅ', hyo: 'ひょ',
+  bya: 'びゃ', byu: 'びゅ', byo: 'びょ',
+  pya: 'ぴゃ', pyu: 'ぴゅ', pyo: 'ぴょ',
+  mya: 'みゃ', myu: 'みゅ', myo: 'みょ',
+  rya: 'りゃ', ryu: 'りゅ', ryo: 'りょ',
+  fa: 'ふぁ', fi: 'ふぃ', fe: 'ふぇ', fo: 'ふぉ',
+  thi: 'てぃ', dhi: 'でぃ', va: 'ゔぁ', vi: 'ゔぃ', vu: 'ゔ', ve: 'ゔぇ', vo: 'ゔぉ',
+  xa: 'ぁ', xi: 'ぃ', xu: 'ぅ', xe: 'ぇ', xo: 'ぉ', xya: 'ゃ', xyu: 'ゅ', xyo: 'ょ', xtsu: 'っ', xtu: 'っ',
+  la: 'ぁ', li: 'ぃ', lu: 'ぅ', le: 'ぇ', lo: 'ぉ', lya: 'ゃ', lyu: 'ゅ', lyo: 'ょ', ltsu: 'っ', ltu: 'っ',
+  '-': 'ー',
+};
+
+const MAX_CHUNK = 4;
+const VOWELS = 'aeiouy';
+
+/**
+ * Converts romaji to hiragana, leaving anything else (kana, kanji, punctuation) untouched.
+ * Handles doubled consonants (kitte → きって) and syllabic n (kon'ya, konnichiha, hon).
+ */
+export const romajiToHiragana = (input: string): string => {
+  const text = input.toLowerCase();
+  let out = '';
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    const next = text[i + 1];
+
+    if (ch === 'n') {
+      if (next === "'") {
+        out += 'ん';
+        i += 2;
+        continue;
+      }
+      // "nn" before a vowel is ん plus the next syllable (konnichiha), otherwise a typed-out ん
+      if (next === 'n') {
+        out += 'ん';
+        const after = text[i + 2];
+        i += after !== undefined && VOWELS.includes(after) ? 1 : 2;
+        continue;
+      }
+      if (next === undefined || !VOWELS.includes(next)) {
+        out += 'ん';
+        i += 1;
+        continue;
+      }
+    }
+
+    // A doubled consonant becomes a small tsu
+    if (ch === next && /[bcdfghjkmpqrstvwxz]/.test(ch)) {
+      out += 'っ';
+      i += 1;
+      continue;
+    }
+    if (ch === 't' && next === 'c' && text[i + 2] === 'h') {
+      out += 'っ';
+      i += 1;
+      continue;
+    }
+
+    let matched = false;
+    for (let len = MAX_CHUNK; len > 0; len--) {
+      const kana = ROMAJI_TABLE[text.slice(i, i + len)];
+      if (kana) {
+        out += kana;
+        i += len;
+        matched = true;
+        break;
+      }
+    }
+    if (!matched) {
+      out += input[i];
+      i += 1;
+    }
+  }
+
+  return out;
+};
+
+/**
+ * Folds katakana to hiragana so either script is accepted.
+ */
+export const katakanaToHiragana = (text: string): string =>
+  text.replace(/[ァ-ヶ]/g, ch => String.fromCharCode(ch.charCodeAt(0) - 0x60));
+
+/**
+ * Splits kana into morae: small ゃゅょ and vowels attach to the previous kana, while っ, ん and ー count on their own.
+ */
+export const splitMorae = (kana: string): string[] =>
+  [...kana].reduce<string[]>((morae, ch) => {
+    if (/[ゃゅょぁぃぅぇぉャュョァィゥェォ]/.test(ch) && morae.length > 0) morae[morae.length - 1] += ch;
+    else if (ch.trim() && !/[、。！？!?,.「」]/.test(ch)) morae.push(ch);
+    return morae;
+  }, []);
+
+const normalizeReading = (text: string): string =>
+  katakanaToHiragana(romajiToHiragana(text.normalize('NFKC').trim())).replace(/[\s・.]/g, '');
+
+/**
+ * True if a typed answer (romaji, hiragana or katakana) spells the expected reading.
+ */
+export const isReadingMatch = (answer: string, reading: string): boolean => {
+  const normalized = normalizeReading(answer);
+  return normalized.length > 0 && normalized === normalizeReading(reading);
+};
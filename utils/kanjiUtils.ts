@@ -0,0 +1,29 @@
+import { KanjiInfo, WordHistoryItem } from "../types";
+
+const cleanList = (values: unknown): string[] =>
+  Array.isArray(values) ? [...new Set(values.map(value => String(value ?? '').trim()).filter(Boolean))] : [];
+
+/**
+ * Fills in missing fields and drops empty readings; `character` wins over whatever the model echoed back.
+ */
+export const normalizeKanjiInfo = (raw: Partial<KanjiInfo>, character: string): KanjiInfo => ({
+  character,
+  onyomi: cleanList(raw.onyomi),
+  kunyomi: cleanList(raw.kunyomi),
+  meaning_cn: raw.meaning_cn ?? '',
+  radical: raw.radical ?? '',
+  components: cleanList(raw.components),
+  stroke_count: Math.max(0, Math.round(Number(raw.stroke_count) || 0)),
+});
+
+/**
+ * Wordbook words (one entry per word, newest first) that contain the kanji, apart from `exceptWord`.
+ */
+export const wordsSharingKanji = (history: WordHistoryItem[], kanji: string, exceptWord: string): WordHistoryItem[] => {
+  const seen = new Set<string>([exceptWord]);
+  return history.filter(item => {
+    if (seen.has(item.word) || !item.word.includes(kanji)) return false;
+    seen.add(item.word);
+    return true;
+  });
+};
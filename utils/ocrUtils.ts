@@ -0,0 +1,44 @@
+import { BoundingBox, OcrSpan } from "../types";
+import { normalizeQuery } from "./dictionaryUtils";
+
+// A line of a page or sign; anything longer is a misread block
+const MAX_SPAN_LENGTH = 80;
+
+const JAPANESE_OR_CHINESE = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff々〆]/;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Converts a model box in [ymin, xmin, ymax, xmax] / 1000 form to image fractions.
+ */
+const toBoundingBox = (box2d: unknown): BoundingBox | null => {
+  if (!Array.isArray(box2d) || box2d.length !== 4 || !box2d.every(v => typeof v === 'number')) return null;
+  const [ymin, xmin, ymax, xmax] = (box2d as number[]).map(v => clamp01(v / 1000));
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: xmin, y: ymin, width: xmax - xmin, height: ymax - ymin };
+};
+
+/**
+ * Parses the OCR JSON response ({ spans: [{ text, box_2d }] }), dropping empty and duplicate spans
+ * and spans without any Japanese or Chinese characters.
+ */
+export const parseOcrSpans = (raw: unknown): OcrSpan[] => {
+  const spans = (raw as { spans?: unknown })?.spans;
+  if (!Array.isArray(spans)) return [];
+
+  const seen = new Set<string>();
+  return spans.flatMap((span: { text?: unknown; box_2d?: unknown }) => {
+    const text = typeof span?.text === 'string' ? normalizeQuery(span.text, MAX_SPAN_LENGTH) : '';
+    const box = toBoundingBox(span?.box_2d);
+    const key = `${text}@${box ? `${box.x.toFixed(2)},${box.y.toFixed(2)}` : ''}`;
+    if (!JAPANESE_OR_CHINESE.test(text) || seen.has(key)) return [];
+    seen.add(key);
+    return [{ text, box }];
+  });
+};
+
+/**
+ * True if the span's box overlaps the selection rectangle.
+ */
+export const intersects = (a: BoundingBox, b: BoundingBox): boolean =>
+  a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
@@ -0,0 +1,31 @@
+import { PracticeAttempt, PronunciationAssessment } from "../types";
+
+// Enough to see progress without letting one word grow the store forever
+const PRACTICE_HISTORY_LIMIT = 20;
+
+export type PracticeHistory = Record<string, PracticeAttempt[]>;
+
+/**
+ * Fills in missing fields and clamps the score, since models are loose with numbers and booleans.
+ */
+export const normalizePronunciationAssessment = (raw: Partial<PronunciationAssessment>): PronunciationAssessment => ({
+  transcript: raw.transcript ?? '',
+  score: Math.max(0, Math.min(100, Math.round(Number(raw.score) || 0))),
+  morae: (raw.morae ?? []).map(mora => ({
+    mora: mora.mora ?? '',
+    heard: mora.heard || mora.mora || '',
+    ok: mora.ok === true || String(mora.ok) === 'true',
+    pitch: mora.pitch === 'H' || mora.pitch === 'L' ? mora.pitch : '',
+    note: mora.note ?? '',
+  })),
+  pitch_feedback: raw.pitch_feedback ?? '',
+  advice: raw.advice ?? '',
+});
+
+/**
+ * Adds an attempt to a word's practice history, newest first.
+ */
+export const addPracticeAttempt = (history: PracticeHistory, word: string, attempt: PracticeAttempt): PracticeHistory => ({
+  ...history,
+  [word]: [attempt, ...(history[word] ?? [])].slice(0, PRACTICE_HISTORY_LIMIT),
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { QuizMode, WordHistoryItem } from '../types';
+import { buildQuiz, canAsk, checkAnswer, findClozeSpan, isWeakWord, recordQuizAnswer } from './quizUtils';
+
+const entry = (word: string, overrides: Partial<WordHistoryItem> = {}): WordHistoryItem => ({
+  id: word,
+  word,
+  reading: '',
+  definition: `meaning of ${word}`,
+  definition_jp: '',
+  example_jp: '',
+  example_cn: '',
+  timestamp: 0,
+  ...overrides,
+});
+
+const taberu = entry('食べる', { reading: 'たべる', part_of_speech: '動詞', example_jp: 'ケーキを十個食べた。' });
+const pool = [
+  taberu,
+  entry('飲む', { reading: 'のむ', part_of_speech: '動詞' }),
+  entry('見る', { reading: 'みる', part_of_speech: '動詞' }),
+  entry('書く', { reading: 'かく', part_of_speech: '動詞' }),
+  entry('猫', { reading: 'ねこ', part_of_speech: '名詞' }),
+  entry('すし', { reading: 'すし', part_of_speech: '名詞' }),
+];
+
+describe('findClozeSpan', () => {
+  it('blanks the word, including a conjugated ending', () => {
+    expect(findClozeSpan(taberu)).toEqual({ before: 'ケーキを十個', after: '。' });
+    expect(findClozeSpan(entry('猫', { example_jp: 'うちの猫は白い。' }))).toEqual({ before: 'うちの', after: 'は白い。' });
+  });
+
+  it('finds nothing when the sentence does not use the word', () => {
+    expect(findClozeSpan(entry('犬', { example_jp: 'うちの猫は白い。' }))).toBeNull();
+    expect(findClozeSpan(entry('犬'))).toBeNull();
+  });
+});
+
+describe('canAsk', () => {
+  it('only asks for readings of words written with kanji', () => {
+    expect(canAsk(taberu, QuizMode.READING, pool)).toBe(true);
+    expect(canAsk(pool[5], QuizMode.READING, pool)).toBe(false);
+  });
+
+  it('needs other entries to draw wrong options from', () => {
+    expect(canAsk(taberu, QuizMode.MEANING, [taberu])).toBe(false);
+    expect(canAsk(taberu, QuizMode.CLOZE, pool)).toBe(true);
+  });
+});
+
+describe('buildQuiz', () => {
+  it('offers four distinct options, preferring the same part of speech', () => {
+    const [question] = buildQuiz([taberu], pool, QuizMode.MEANING, 10, () => 0.5);
+
+    expect(question.answer).toBe('meaning of 食べる');
+    expect([...question.choices!].sort()).toEqual(['meaning of 書く', 'meaning of 見る', 'meaning of 食べる', 'meaning of 飲む']);
+  });
+
+  it('skips words the mode cannot ask about and stops at the count', () => {
+    expect(buildQuiz(pool, pool, QuizMode.CLOZE, 10)).toHaveLength(1);
+    expect(buildQuiz(pool, pool, QuizMode.READING, 3)).toHaveLength(3);
+  });
+
+  it('builds a cloze question around the example sentence', () => {
+    const [question] = buildQuiz([taberu], pool, QuizMode.CLOZE, 1);
+    expect(question).toMatchObject({ answer: '食べる', cloze: { before: 'ケーキを十個', after: '。' } });
+    expect(question.choices).toContain('食べる');
+  });
+});
+
+describe('answers', () => {
+  it('accepts romaji for reading questions', () => {
+    const [question] = buildQuiz([taberu], pool, QuizMode.READING, 1);
+    expect(checkAnswer(question, 'taberu')).toBe(true);
+    expect(checkAnswer(question, 'nomu')).toBe(false);
+  });
+
+  it('keeps a missed word weak until it is answered right twice in a row', () => {
+    const missed = recordQuizAnswer(taberu, false, 1);
+    expect(missed.quizStats).toEqual({ correct: 0, wrong: 1, streak: 0, lastQuizzed: 1 });
+    expect(isWeakWord(missed)).toBe(true);
+
+    const once = recordQuizAnswer(missed, true, 2);
+    expect(isWeakWord(once)).toBe(true);
+    expect(isWeakWord(recordQuizAnswer(once, true, 3))).toBe(false);
+    expect(isWeakWord(recordQuizAnswer(taberu, true))).toBe(false);
+  });
+});
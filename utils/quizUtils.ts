@@ -0,0 +1,160 @@
+import { QuizMode, WordHistoryItem } from "../types";
+import { containsKanji } from "./furiganaUtils";
+import { isReadingMatch } from "./kanaUtils";
+
+export interface QuizQuestion {
+  item: WordHistoryItem;
+  mode: QuizMode;
+  answer: string;
+  choices?: string[]; // Absent for typed questions
+  cloze?: { before: string; after: string }; // Example sentence around the blank
+}
+
+export interface QuizAnswer {
+  question: QuizQuestion;
+  given: string;
+  isCorrect: boolean;
+}
+
+const CHOICE_COUNT = 4;
+
+// A word stops being weak after this many correct answers in a row
+const WEAK_STREAK = 2;
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Picks wrong options from other entries, preferring the same part of speech so they are plausible.
+ */
+const pickDistractors = (
+  item: WordHistoryItem,
+  pool: WordHistoryItem[],
+  value: (entry: WordHistoryItem) => string,
+  random: () => number
+): string[] => {
+  const correct = value(item);
+  const seen = new Set([correct]);
+  const candidates = shuffle(pool.filter(entry => entry.id !== item.id), random)
+    .sort((a, b) => Number(b.part_of_speech === item.part_of_speech) - Number(a.part_of_speech === item.part_of_speech));
+
+  const distractors: string[] = [];
+  for (const entry of candidates) {
+    const option = value(entry);
+    if (!option || seen.has(option)) continue;
+    seen.add(option);
+    distractors.push(option);
+    if (distractors.length === CHOICE_COUNT - 1) break;
+  }
+  return distractors;
+};
+
+/**
+ * Locates the word in its example sentence. Conjugated verbs and adjectives are found
+ * through their kanji stem, and the blank extends over the inflected ending.
+ */
+export const findClozeSpan = (item: WordHistoryItem): { before: string; after: string } | null => {
+  const sentence = item.example_jp;
+  if (!sentence) return null;
+
+  const split = (start: number, length: number) => ({
+    before: sentence.slice(0, start),
+    after: sentence.slice(start + length),
+  });
+
+  // Words written in kana in the sentence; single kana readings would match almost anywhere
+  for (const form of [item.word, item.reading.length > 1 ? item.reading : '']) {
+    const index = form ? sentence.indexOf(form) : -1;
+    if (index !== -1) return split(index, form.length);
+  }
+
+  const stem = item.word.replace(/[ぁ-ゖ]+$/, '');
+  if (stem && stem !== item.word && containsKanji(stem)) {
+    const index = sentence.indexOf(stem);
+    if (index !== -1) {
+      const ending = sentence.slice(index + stem.length).match(/^[ぁ-ゖ]*/)![0];
+      return split(index, stem.length + ending.length);
+    }
+  }
+  return null;
+};
+
+/**
+ * True if the mode can ask about this item (and the pool has enough entries for options).
+ */
+export const canAsk = (item: WordHistoryItem, mode: QuizMode, pool: WordHistoryItem[]): boolean => {
+  switch (mode) {
+    case QuizMode.MEANING:
+      return !!item.definition && pool.length > 1;
+    case QuizMode.READING:
+      // Kana-only words would just be copied from the prompt
+      return !!item.reading && containsKanji(item.word);
+    case QuizMode.CLOZE:
+      return pool.length > 1 && !!findClozeSpan(item);
+  }
+};
+
+/**
+ * Builds a quiz over `items`, drawing multiple-choice distractors from the whole `pool`.
+ */
+export const buildQuiz = (
+  items: WordHistoryItem[],
+  pool: WordHistoryItem[],
+  mode: QuizMode,
+  count: number,
+  random: () => number = Math.random
+): QuizQuestion[] =>
+  shuffle(items.filter(item => canAsk(item, mode, pool)), random)
+    .slice(0, count)
+    .map(item => {
+      switch (mode) {
+        case QuizMode.MEANING:
+          return {
+            item,
+            mode,
+            answer: item.definition,
+            choices: shuffle([item.definition, ...pickDistractors(item, pool, entry => entry.definition, random)], random),
+          };
+        case QuizMode.READING:
+          return { item, mode, answer: item.reading };
+        case QuizMode.CLOZE:
+          return {
+            item,
+            mode,
+            answer: item.word,
+            choices: shuffle([item.word, ...pickDistractors(item, pool, entry => entry.word, random)], random),
+            cloze: findClozeSpan(item)!,
+          };
+      }
+    });
+
+export const checkAnswer = (question: QuizQuestion, given: string): boolean =>
+  question.mode === QuizMode.READING ? isReadingMatch(given, question.answer) : given === question.answer;
+
+/**
+ * Updates an item's quiz statistics after an answer.
+ */
+export const recordQuizAnswer = (item: WordHistoryItem, isCorrect: boolean, now: number = Date.now()): WordHistoryItem => {
+  const stats = item.quizStats ?? { correct: 0, wrong: 0, streak: 0, lastQuizzed: now };
+  return {
+    ...item,
+    quizStats: {
+      correct: stats.correct + (isCorrect ? 1 : 0),
+      wrong: stats.wrong + (isCorrect ? 0 : 1),
+      streak: isCorrect ? stats.streak + 1 : 0,
+      lastQuizzed: now,
+    },
+  };
+};
+
+/**
+ * Words missed in a quiz and not yet answered correctly WEAK_STREAK times in a row since.
+ */
+export const isWeakWord = (item: WordHistoryItem): boolean =>
+  !!item.quizStats && item.quizStats.wrong > 0 && item.quizStats.streak < WEAK_STREAK;
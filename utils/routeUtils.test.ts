@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ViewMode } from '../types';
+import { parseRoute, routeToPath } from './routeUtils';
+
+describe('parseRoute', () => {
+  it('reads views and looked-up words from the path', () => {
+    expect(parseRoute('/')).toEqual({ view: ViewMode.SEARCH, query: '' });
+    expect(parseRoute('/wordbook/')).toEqual({ view: ViewMode.WORDBOOK, query: '' });
+    expect(parseRoute('/review')).toEqual({ view: ViewMode.REVIEW, query: '' });
+    expect(parseRoute('/word/%E7%8C%AB')).toEqual({ view: ViewMode.SEARCH, query: '猫' });
+  });
+
+  it('falls back to the search view for unknown or malformed paths', () => {
+    expect(parseRoute('/nowhere')).toEqual({ view: ViewMode.SEARCH, query: '' });
+    expect(parseRoute('/word/%E7%8C')).toEqual({ view: ViewMode.SEARCH, query: '%E7%8C' });
+  });
+
+  it('takes shared text rather than a bare link', () => {
+    expect(parseRoute('/share', '?title=Article&text=%E7%8C%AB')).toEqual({ view: ViewMode.SEARCH, query: '猫' });
+    expect(parseRoute('/share', '?title=%E7%8A%AC&text=https%3A%2F%2Fexample.com')).toEqual({ view: ViewMode.SEARCH, query: '犬' });
+    expect(parseRoute('/share', '?url=https%3A%2F%2Fexample.com')).toEqual({ view: ViewMode.SEARCH, query: '' });
+  });
+});
+
+describe('routeToPath', () => {
+  it('round-trips through parseRoute', () => {
+    for (const route of [
+      { view: ViewMode.SEARCH, query: '' },
+      { view: ViewMode.SEARCH, query: '食べる 猫/犬' },
+      { view: ViewMode.WORDBOOK, query: '' },
+      { view: ViewMode.QUIZ, query: '' },
+    ]) {
+      expect(parseRoute(routeToPath(route))).toEqual(route);
+    }
+    expect(routeToPath({ view: ViewMode.SEARCH, query: '猫' })).toBe('/word/%E7%8C%AB');
+  });
+});
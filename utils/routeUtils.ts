@@ -0,0 +1,57 @@
+import { ViewMode } from "../types";
+
+/**
+ * What the address bar says: a view, plus the word being looked up on the search view.
+ */
+export interface Route {
+  view: ViewMode;
+  query: string; // Empty unless a word is being looked up
+}
+
+const VIEW_PATHS: Partial<Record<ViewMode, string>> = {
+  [ViewMode.WORDBOOK]: '/wordbook',
+  [ViewMode.REVIEW]: '/review',
+  [ViewMode.QUIZ]: '/quiz',
+};
+
+const WORD_PREFIX = '/word/';
+
+// The share target (see public/manifest.webmanifest) opens this with the shared title, text and url
+const SHARE_PATH = '/share';
+
+const safeDecode = (text: string): string => {
+  try {
+    return decodeURIComponent(text);
+  } catch {
+    return text;
+  }
+};
+
+/**
+ * Reads a route from `location.pathname` and `location.search`; anything unknown is the empty search view.
+ */
+export const parseRoute = (pathname: string, search: string = ''): Route => {
+  const path = pathname.replace(/\/+$/, '') || '/';
+
+  if (path.startsWith(WORD_PREFIX)) {
+    return { view: ViewMode.SEARCH, query: safeDecode(path.slice(WORD_PREFIX.length)).trim() };
+  }
+
+  if (path === SHARE_PATH) {
+    // Apps differ in which field carries the text; a bare link is no use to look up
+    const params = new URLSearchParams(search);
+    const shared = [params.get('text'), params.get('title')].find(value => value?.trim() && !/^https?:\/\//.test(value.trim()));
+    return { view: ViewMode.SEARCH, query: shared?.trim() ?? '' };
+  }
+
+  const view = (Object.keys(VIEW_PATHS) as ViewMode[]).find(mode => VIEW_PATHS[mode] === path);
+  return { view: view ?? ViewMode.SEARCH, query: '' };
+};
+
+/**
+ * The canonical path for a route, e.g. /word/%E7%8C%AB for a lookup of 猫.
+ */
+export const routeToPath = (route: Route): string => {
+  if (route.view === ViewMode.SEARCH) return route.query ? `${WORD_PREFIX}${encodeURIComponent(route.query)}` : '/';
+  return VIEW_PATHS[route.view] ?? '/';
+};
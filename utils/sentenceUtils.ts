@@ -0,0 +1,42 @@
+import { RubySegment, SentenceAnalysis, SentenceToken, WordHistoryItem } from "../types";
+import { containsKanji, normalizeSegments } from "./furiganaUtils";
+
+/**
+ * Fills in missing fields; readings are kept only on tokens with kanji, like ruby segments.
+ */
+export const normalizeSentenceAnalysis = (raw: Partial<SentenceAnalysis>, sentence: string): SentenceAnalysis => ({
+  sentence,
+  translation_cn: raw.translation_cn ?? '',
+  tokens: (raw.tokens ?? [])
+    .filter(token => token && typeof token.text === 'string' && token.text !== '')
+    .map((token: Partial<SentenceToken>) => ({
+      text: token.text!,
+      reading: containsKanji(token.text!) ? token.reading?.trim() ?? '' : '',
+      base_form: token.base_form?.trim() ?? '',
+      part_of_speech: token.part_of_speech ?? '',
+      gloss_cn: token.gloss_cn ?? '',
+    })),
+  grammar: (raw.grammar ?? [])
+    .filter(point => point?.pattern)
+    .map(point => ({
+      pattern: point.pattern,
+      excerpt: point.excerpt ?? '',
+      explanation_cn: point.explanation_cn ?? '',
+    })),
+});
+
+/**
+ * The analysed sentence as ruby segments, or plain text if the tokens don't add up to it.
+ */
+export const sentenceToSegments = (analysis: SentenceAnalysis): RubySegment[] =>
+  normalizeSegments(analysis.tokens.map(token => ({ text: token.text, reading: token.reading })), analysis.sentence);
+
+/**
+ * A Wordbook entry saved from the analyzer keeps the sentence it was found in as its example.
+ */
+export const withSourceSentence = (item: WordHistoryItem, analysis: SentenceAnalysis): WordHistoryItem => ({
+  ...item,
+  example_jp: analysis.sentence,
+  example_cn: analysis.translation_cn,
+  example_segments: sentenceToSegments(analysis),
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewGrade, WordHistoryItem } from '../types';
+import { countDueToday, getDueItems, isDue, previewInterval, scheduleReview } from './srsUtils';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date(2025, 0, 15, 12, 0).getTime();
+
+const item = (overrides: Partial<WordHistoryItem> = {}): WordHistoryItem => ({
+  id: '1',
+  word: '猫',
+  reading: 'ねこ',
+  definition: '猫',
+  definition_jp: '',
+  example_jp: '',
+  example_cn: '',
+  timestamp: NOW - DAY_MS,
+  ...overrides,
+});
+
+describe('scheduleReview', () => {
+  it('schedules "Good" answers at 1 day, 3 days, then interval × ease', () => {
+    const first = scheduleReview(item(), ReviewGrade.GOOD, NOW);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5, dueDate: NOW + DAY_MS, lastReviewed: NOW });
+
+    const second = scheduleReview(first, ReviewGrade.GOOD, NOW);
+    expect(second.interval).toBe(3);
+
+    const third = scheduleReview(second, ReviewGrade.GOOD, NOW);
+    expect(third.interval).toBe(8); // round(3 × 2.5)
+    expect(third.repetitions).toBe(3);
+  });
+
+  it('resets a forgotten card and brings it back in ten minutes', () => {
+    const learned = item({ interval: 20, repetitions: 4, ease: 2.5 });
+    const forgotten = scheduleReview(learned, ReviewGrade.AGAIN, NOW);
+    expect(forgotten).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, dueDate: NOW + 10 * 60 * 1000 });
+    expect(forgotten.ease).toBeCloseTo(2.3);
+  });
+
+  it('adjusts the ease for "Hard" and "Easy"', () => {
+    expect(scheduleReview(item(), ReviewGrade.HARD, NOW)).toMatchObject({ interval: 1 });
+    expect(scheduleReview(item(), ReviewGrade.HARD, NOW).ease).toBeCloseTo(2.35);
+    expect(scheduleReview(item(), ReviewGrade.EASY, NOW)).toMatchObject({ interval: 4 });
+    expect(scheduleReview(item(), ReviewGrade.EASY, NOW).ease).toBeCloseTo(2.65);
+  });
+
+  it('never lets the ease drop below 1.3', () => {
+    expect(scheduleReview(item({ ease: 1.35 }), ReviewGrade.AGAIN, NOW).ease).toBe(1.3);
+    expect(scheduleReview(item({ ease: 1.3 }), ReviewGrade.HARD, NOW).ease).toBe(1.3);
+  });
+});
+
+describe('due dates', () => {
+  it('treats a never-reviewed word as due from when it was saved', () => {
+    expect(isDue(item(), NOW)).toBe(true);
+    expect(isDue(item({ timestamp: NOW + 1 }), NOW)).toBe(false);
+  });
+
+  it('lists what is due by the end of today, most overdue first', () => {
+    const later = item({ id: 'later', dueDate: NOW + 60 * 60 * 1000 });
+    const overdue = item({ id: 'overdue', dueDate: NOW - DAY_MS });
+    const tomorrow = item({ id: 'tomorrow', dueDate: NOW + DAY_MS });
+
+    expect(getDueItems([later, tomorrow, overdue], NOW).map(i => i.id)).toEqual(['overdue', 'later']);
+    expect(countDueToday([later, tomorrow, overdue], NOW)).toBe(2);
+  });
+});
+
+describe('previewInterval', () => {
+  it('formats the next interval for each grade', () => {
+    expect(previewInterval(item(), ReviewGrade.AGAIN, NOW)).toBe('10m');
+    expect(previewInterval(item(), ReviewGrade.GOOD, NOW)).toBe('1d');
+    expect(previewInterval(item(), ReviewGrade.EASY, NOW)).toBe('4d');
+    expect(previewInterval(item({ interval: 100, repetitions: 5 }), ReviewGrade.GOOD, NOW)).toBe('8mo');
+  });
+});
@@ -0,0 +1,109 @@
+import { ReviewGrade, WordHistoryItem } from "../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+/**
+ * Returns the end of the local day containing `now`, used for "due today" counts.
+ */
+const endOfDay = (now: number): number => {
+  const date = new Date(now);
+  date.setHours(23, 59, 59, 999);
+  return date.getTime();
+};
+
+/**
+ * A word that has never been reviewed is due immediately.
+ */
+export const getDueDate = (item: WordHistoryItem): number => item.dueDate ?? item.timestamp;
+
+export const isDue = (item: WordHistoryItem, now: number = Date.now()): boolean =>
+  getDueDate(item) <= now;
+
+export const isDueToday = (item: WordHistoryItem, now: number = Date.now()): boolean =>
+  getDueDate(item) <= endOfDay(now);
+
+/**
+ * Returns the items due by the end of today, most overdue first.
+ */
+export const getDueItems = (history: WordHistoryItem[], now: number = Date.now()): WordHistoryItem[] =>
+  history
+    .filter(item => isDueToday(item, now))
+    .sort((a, b) => getDueDate(a) - getDueDate(b));
+
+export const countDueToday = (history: WordHistoryItem[], now: number = Date.now()): number =>
+  history.filter(item => isDueToday(item, now)).length;
+
+/**
+ * Applies a recall grade to an item using an SM-2 style schedule.
+ * "Again" resets the streak and brings the card back within the session;
+ * the other grades grow the interval by the (adjusted) ease factor.
+ */
+export const scheduleReview = (
+  item: WordHistoryItem,
+  grade: ReviewGrade,
+  now: number = Date.now()
+): WordHistoryItem => {
+  const ease = item.ease ?? DEFAULT_EASE;
+  const interval = item.interval ?? 0;
+  const repetitions = item.repetitions ?? 0;
+  const lapses = item.lapses ?? 0;
+
+  if (grade === ReviewGrade.AGAIN) {
+    return {
+      ...item,
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      repetitions: 0,
+      lapses: lapses + 1,
+      dueDate: now + RELEARN_DELAY_MS,
+      lastReviewed: now
+    };
+  }
+
+  let nextEase = ease;
+  let nextInterval: number;
+
+  switch (grade) {
+    case ReviewGrade.HARD:
+      nextEase = Math.max(MIN_EASE, ease - 0.15);
+      nextInterval = repetitions === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+      break;
+    case ReviewGrade.EASY:
+      nextEase = ease + 0.15;
+      nextInterval = repetitions === 0 ? 4 : Math.max(interval + 1, Math.round(interval * ease * 1.3));
+      break;
+    case ReviewGrade.GOOD:
+    default:
+      if (repetitions === 0) nextInterval = 1;
+      else if (repetitions === 1) nextInterval = 3;
+      else nextInterval = Math.max(interval + 1, Math.round(interval * ease));
+      break;
+  }
+
+  return {
+    ...item,
+    ease: nextEase,
+    interval: nextInterval,
+    repetitions: repetitions + 1,
+    lapses,
+    dueDate: now + nextInterval * DAY_MS,
+    lastReviewed: now
+  };
+};
+
+/**
+ * Human readable preview of the interval a grade would produce, e.g. "10m" or "3d".
+ */
+export const previewInterval = (item: WordHistoryItem, grade: ReviewGrade, now: number = Date.now()): string => {
+  const next = scheduleReview(item, grade, now);
+  const ms = (next.dueDate ?? now) - now;
+  if (ms < DAY_MS) return `${Math.round(ms / 60000)}m`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
@@ -0,0 +1,68 @@
+import { DailyStory, RubySegment, SavedStory, StoryLine, StoryOptions } from "../types";
+import { containsKanji, normalizeSegments, segmentsToText } from "./furiganaUtils";
+
+/**
+ * Finds where a word appears in a sentence. Conjugated verbs and adjectives are found through
+ * their kanji stem, extended over the inflected kana ending.
+ */
+const findWordSpan = (sentence: string, word: string): { start: number; end: number } | null => {
+  const index = sentence.indexOf(word);
+  if (index !== -1) return { start: index, end: index + word.length };
+
+  const stem = word.replace(/[ぁ-ゖ]+$/, '');
+  if (!stem || stem === word || !containsKanji(stem)) return null;
+  const stemIndex = sentence.indexOf(stem);
+  if (stemIndex === -1) return null;
+  const ending = sentence.slice(stemIndex + stem.length).match(/^[ぁ-ゖ]*/)![0];
+  return { start: stemIndex, end: stemIndex + stem.length + ending.length };
+};
+
+/**
+ * Cleans up a model-written story. Each line's word list is limited to the requested words,
+ * and words the model used but forgot to list are added.
+ */
+export const normalizeDailyStory = (raw: Partial<DailyStory>, targetWords: string[]): DailyStory => {
+  const lines = (raw.lines ?? []).flatMap((line: Partial<StoryLine>) => {
+    const japanese = normalizeSegments(line.japanese);
+    const text = segmentsToText(japanese);
+    if (!text.trim()) return [];
+    const listed = new Set(line.words ?? []);
+    return [{
+      japanese,
+      chinese: line.chinese ?? '',
+      words: targetWords.filter(word => listed.has(word) || findWordSpan(text, word)),
+    }];
+  });
+  return { title: raw.title?.trim() || '無題', lines };
+};
+
+/**
+ * Indices of the segments that make up one of the line's target words, for highlighting.
+ */
+export const findHighlightedSegments = (line: StoryLine): Set<number> => {
+  const text = segmentsToText(line.japanese);
+  const spans = line.words.flatMap(word => {
+    const span = findWordSpan(text, word);
+    return span ? [span] : [];
+  });
+
+  const highlighted = new Set<number>();
+  let offset = 0;
+  line.japanese.forEach((segment: RubySegment, index) => {
+    const end = offset + segment.text.length;
+    if (spans.some(span => span.start < end && offset < span.end)) highlighted.add(index);
+    offset = end;
+  });
+  return highlighted;
+};
+
+export const createSavedStory = (story: DailyStory, words: string[], options: StoryOptions): SavedStory => ({
+  ...story,
+  id: Date.now().toString(),
+  createdAt: Date.now(),
+  options,
+  words,
+});
+
+export const storiesForWord = (stories: SavedStory[], word: string): SavedStory[] =>
+  stories.filter(story => story.words.includes(word));
@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { WordHistoryItem } from '../types';
+import { EMPTY_SYNC_META, SyncMeta, applyAcceptedChanges, applyRemoteRecords, collectLocalChanges, hashItem, mergeItems } from './syncUtils';
+
+const entry = (id: string, overrides: Partial<WordHistoryItem> = {}): WordHistoryItem => ({
+  id,
+  word: `word-${id}`,
+  reading: '',
+  definition: `definition-${id}`,
+  definition_jp: '',
+  example_jp: '',
+  example_cn: '',
+  timestamp: 1000,
+  ...overrides,
+});
+
+// Meta as if every item had just been synced at revision 1
+const syncedMeta = (items: WordHistoryItem[]): SyncMeta => ({
+  ...EMPTY_SYNC_META,
+  base: Object.fromEntries(items.map(item => [item.id, { rev: 1, hash: hashItem(item) }])),
+});
+
+describe('hashItem', () => {
+  it('ignores key order and undefined values', () => {
+    const item = entry('a', { tags: ['x'] });
+    const reordered = { tags: ['x'], ...entry('a'), folder: undefined } as WordHistoryItem;
+    expect(hashItem(reordered)).toBe(hashItem(item));
+    expect(hashItem(entry('a', { definition: 'changed' }))).not.toBe(hashItem(item));
+  });
+});
+
+describe('collectLocalChanges', () => {
+  it('reports added, edited and deleted items since the last sync', () => {
+    const kept = entry('kept');
+    const edited = entry('edited');
+    const deleted = entry('deleted');
+    const meta = syncedMeta([kept, edited, deleted]);
+    const history = [entry('new'), kept, { ...edited, definition: 'changed', updatedAt: 2000 }];
+
+    const changes = collectLocalChanges(history, meta, 3000);
+    expect(changes.map(({ id, baseRev, deleted, updatedAt }) => ({ id, baseRev, deleted, updatedAt }))).toEqual([
+      { id: 'new', baseRev: 0, deleted: false, updatedAt: 1000 },
+      { id: 'edited', baseRev: 1, deleted: false, updatedAt: 2000 },
+      { id: 'deleted', baseRev: 1, deleted: true, updatedAt: 3000 },
+    ]);
+  });
+});
+
+describe('mergeItems', () => {
+  it('takes content from the newer edit, scheduling from the newer review and combines tags', () => {
+    const local = entry('a', { definition: 'local', updatedAt: 3000, lastReviewed: 1000, interval: 1, tags: ['mine'] });
+    const remote = entry('a', { definition: 'remote', updatedAt: 2000, lastReviewed: 2500, interval: 8, tags: ['theirs'] });
+
+    expect(mergeItems(local, remote)).toMatchObject({
+      definition: 'local',
+      interval: 8,
+      lastReviewed: 2500,
+      tags: ['theirs', 'mine'],
+      updatedAt: 3000,
+    });
+  });
+});
+
+describe('applyRemoteRecords', () => {
+  it('takes remote changes to items that were not edited here', () => {
+    const local = entry('a');
+    const remote = { ...local, definition: 'from server', updatedAt: 2000 };
+    const result = applyRemoteRecords([local], syncedMeta([local]), [
+      { id: 'a', rev: 2, updatedAt: 2000, deleted: false, item: remote },
+      { id: 'b', rev: 3, updatedAt: 2000, deleted: false, item: entry('b', { timestamp: 5000 }) },
+    ]);
+
+    expect(result.history.map(item => item.definition)).toEqual(['definition-b', 'from server']);
+    expect(result.meta.base.a.rev).toBe(2);
+    expect(result).toMatchObject({ applied: 2, conflicts: 0 });
+  });
+
+  it('merges concurrent edits and keeps the result as a pending change', () => {
+    const base = entry('a');
+    const meta = syncedMeta([base]);
+    const local = { ...base, definition: 'local', updatedAt: 3000 };
+    const remote = { ...base, definition: 'remote', updatedAt: 2000 };
+
+    const result = applyRemoteRecords([local], meta, [{ id: 'a', rev: 2, updatedAt: 2000, deleted: false, item: remote }]);
+    expect(result.history[0].definition).toBe('local');
+    expect(result.conflicts).toBe(1);
+    expect(collectLocalChanges(result.history, result.meta)).toMatchObject([{ id: 'a', baseRev: 2, deleted: false }]);
+  });
+
+  it('keeps a local edit over a remote deletion', () => {
+    const base = entry('a');
+    const local = { ...base, definition: 'edited', updatedAt: 3000 };
+
+    const result = applyRemoteRecords([local], syncedMeta([base]), [{ id: 'a', rev: 2, updatedAt: 2000, deleted: true }]);
+    expect(result.history).toEqual([local]);
+    expect(result.conflicts).toBe(1);
+  });
+
+  it('drops a local copy of a sense the server already has under another id', () => {
+    const local = entry('local', { word: '猫', definition: '猫' });
+    const remote = entry('remote', { word: '猫', definition: '猫' });
+
+    const result = applyRemoteRecords([local], EMPTY_SYNC_META, [{ id: 'remote', rev: 1, updatedAt: 1000, deleted: false, item: remote }]);
+    expect(result.history.map(item => item.id)).toEqual(['remote']);
+  });
+});
+
+describe('applyAcceptedChanges', () => {
+  it('records the server revisions so pushed items are no longer pending', () => {
+    const item = entry('a');
+    const meta = applyAcceptedChanges([item], EMPTY_SYNC_META, [{ id: 'a', rev: 4 }, { id: 'gone', rev: 5 }]);
+
+    expect(meta.base).toEqual({ a: { rev: 4, hash: hashItem(item) } });
+    expect(collectLocalChanges([item], meta)).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { WordHistoryItem } from "../types";
+
+/**
+ * Pure reconciliation logic for Wordbook sync. The network side lives in services/syncService.ts
+ * and the reference server in server/sync-server.mjs.
+ *
+ * The server keeps one record per item id with a revision number that increases on every write.
+ * Deletions are kept as tombstones (deleted records without an item) so other devices learn about them.
+ */
+
+/** A record as stored on the server. */
+export interface SyncRecord {
+  id: string;
+  rev: number;
+  updatedAt: number;
+  deleted: boolean;
+  item?: WordHistoryItem;
+}
+
+/** A local change pushed to the server, based on the revision we last saw. */
+export interface SyncChange {
+  id: string;
+  baseRev: number;
+  updatedAt: number;
+  deleted: boolean;
+  item?: WordHistoryItem;
+}
+
+/**
+ * What this device last agreed on with the server: the server cursor and,
+ * per item, the revision and a content hash used to spot local edits and deletions.
+ */
+export interface SyncMeta {
+  cursor: number;
+  base: Record<string, { rev: number; hash: number }>;
+  lastSyncedAt: number | null;
+}
+
+export const EMPTY_SYNC_META: SyncMeta = { cursor: 0, base: {}, lastSyncedAt: null };
+
+// Base hash for an item the server has deleted but this device decided to keep
+const TOMBSTONE_HASH = 0;
+
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort()
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+/**
+ * FNV-1a hash of the item content, independent of key order. Never returns TOMBSTONE_HASH.
+ */
+export const hashItem = (item: WordHistoryItem): number => {
+  const text = canonicalJson(item);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) || 1;
+};
+
+/**
+ * Stamps an item as edited now, so it wins conflicts against older edits on other devices.
+ */
+export const markUpdated = (item: WordHistoryItem, now: number = Date.now()): WordHistoryItem => ({ ...item, updatedAt: now });
+
+const editedAt = (item: WordHistoryItem): number => item.updatedAt ?? item.lastReviewed ?? item.timestamp;
+
+/**
+ * Everything edited, added or deleted locally since the last sync.
+ */
+export const collectLocalChanges = (history: WordHistoryItem[], meta: SyncMeta, now: number = Date.now()): SyncChange[] => {
+  const changes: SyncChange[] = [];
+  const localIds = new Set<string>();
+
+  for (const item of history) {
+    localIds.add(item.id);
+    const base = meta.base[item.id];
+    if (base && base.hash === hashItem(item)) continue;
+    changes.push({ id: item.id, baseRev: base?.rev ?? 0, updatedAt: editedAt(item), deleted: false, item });
+  }
+
+  for (const [id, base] of Object.entries(meta.base)) {
+    if (!localIds.has(id)) changes.push({ id, baseRev: base.rev, updatedAt: now, deleted: true });
+  }
+
+  return changes;
+};
+
+/**
+ * Merges two concurrent edits of the same item:
+ * the most recent edit wins for content, the most recent review wins for scheduling and tags are combined.
+ */
+export const mergeItems = (local: WordHistoryItem, remote: WordHistoryItem): WordHistoryItem => {
+  const content = editedAt(local) >= editedAt(remote) ? local : remote;
+  const schedule = (local.lastReviewed ?? 0) >= (remote.lastReviewed ?? 0) ? local : remote;
+  const tags = [...new Set([...(remote.tags ?? []), ...(local.tags ?? [])])];
+
+  return {
+    ...content,
+    dueDate: schedule.dueDate,
+    interval: schedule.interval,
+    ease: schedule.ease,
+    repetitions: schedule.repetitions,
+    lapses: schedule.lapses,
+    lastReviewed: schedule.lastReviewed,
+    tags: tags.length > 0 ? tags : undefined,
+    updatedAt: Math.max(editedAt(local), editedAt(remote)),
+  };
+};
+
+export interface ReconcileResult {
+  history: WordHistoryItem[];
+  meta: SyncMeta;
+  applied: number;
+  conflicts: number;
+}
+
+/**
+ * Applies server records to the local Wordbook.
+ * Records for items that were not edited locally are taken as-is. Otherwise the conflict is resolved
+ * here and the result stays a pending local change based on the server revision:
+ * - both edited: merged with mergeItems
+ * - edited on one side, deleted on the other: the edit wins, so nobody loses work
+ */
+export const applyRemoteRecords = (history: WordHistoryItem[], meta: SyncMeta, records: SyncRecord[]): ReconcileResult => {
+  const pending = new Map(collectLocalChanges(history, meta).map(change => [change.id, change]));
+  const items = new Map(history.map(item => [item.id, item]));
+  const base = { ...meta.base };
+  let applied = 0;
+  let conflicts = 0;
+
+  const takeRemote = (record: SyncRecord) => {
+    if (record.deleted || !record.item) {
+      items.delete(record.id);
+      delete base[record.id];
+    } else {
+      const hash = hashItem(record.item);
+      base[record.id] = { rev: record.rev, hash };
+      // Unchanged content (e.g. our own push coming back) keeps the local object
+      const current = items.get(record.id);
+      if (current && hashItem(current) === hash) return;
+      items.set(record.id, record.item);
+    }
+    applied++;
+  };
+
+  for (const record of records) {
+    const change = pending.get(record.id);
+    if (!change) {
+      takeRemote(record);
+      continue;
+    }
+    // Already seen before the local edit was made
+    if (record.rev <= change.baseRev) continue;
+
+    if (change.deleted && record.deleted) {
+      takeRemote(record);
+    } else if (change.deleted) {
+      takeRemote(record);
+      conflicts++;
+    } else if (record.deleted || !record.item) {
+      base[record.id] = { rev: record.rev, hash: TOMBSTONE_HASH };
+      conflicts++;
+    } else if (hashItem(record.item) === hashItem(change.item!)) {
+      // The same edit made on both sides
+      takeRemote(record);
+    } else {
+      items.set(record.id, mergeItems(change.item!, record.item));
+      base[record.id] = { rev: record.rev, hash: hashItem(record.item) };
+      conflicts++;
+    }
+  }
+
+  // The same sense saved on two devices before their first sync: keep the server copy
+  const remoteSenses = new Set(
+    records.filter(record => record.item && !record.deleted).map(record => `${record.item!.word}\n${record.item!.definition}`)
+  );
+  for (const [id, item] of items) {
+    if (!base[id] && remoteSenses.has(`${item.word}\n${item.definition}`)) {
+      items.delete(id);
+      applied++;
+    }
+  }
+
+  const order = history.map(item => item.id);
+  const known = new Set(order);
+  const added = [...items.values()].filter(item => !known.has(item.id)).sort((a, b) => b.timestamp - a.timestamp);
+
+  return {
+    history: [...added, ...order.flatMap(id => items.get(id) ?? [])],
+    meta: { ...meta, base },
+    applied,
+    conflicts,
+  };
+};
+
+/**
+ * Records the revisions the server assigned to our pushed changes.
+ */
+export const applyAcceptedChanges = (
+  history: WordHistoryItem[],
+  meta: SyncMeta,
+  accepted: { id: string; rev: number }[]
+): SyncMeta => {
+  const items = new Map(history.map(item => [item.id, item]));
+  const base = { ...meta.base };
+  for (const { id, rev } of accepted) {
+    const item = items.get(id);
+    if (item) base[id] = { rev, hash: hashItem(item) };
+    else delete base[id];
+  }
+  return { ...meta, base };
+};
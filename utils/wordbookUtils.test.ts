@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { WordbookSort, WordHistoryItem } from '../types';
+import { DEFAULT_WORDBOOK_FILTER, UNFILED_FOLDER, collectTags, filterHistory, normalizeForSearch, parseTags } from './wordbookUtils';
+
+const entry = (id: string, overrides: Partial<WordHistoryItem> = {}): WordHistoryItem => ({
+  id,
+  word: id,
+  reading: '',
+  definition: '',
+  definition_jp: '',
+  example_jp: '',
+  example_cn: '',
+  timestamp: 0,
+  ...overrides,
+});
+
+const history = [
+  entry('猫', { reading: 'ねこ', definition: 'cat', timestamp: 2, tags: ['animal'], folder: 'Home' }),
+  entry('犬', { reading: 'いぬ', definition: 'dog', timestamp: 3, tags: ['animal', 'N5'] }),
+  entry('会社', { reading: 'かいしゃ', definition: 'company', timestamp: 1, folder: 'Work' }),
+];
+
+const ids = (items: WordHistoryItem[]) => items.map(item => item.id);
+
+describe('normalizeForSearch', () => {
+  it('folds width, case and katakana', () => {
+    expect(normalizeForSearch('ネコ')).toBe('ねこ');
+    expect(normalizeForSearch('ﾈｺ')).toBe('ねこ');
+    expect(normalizeForSearch('ＣＡＴ')).toBe('cat');
+  });
+});
+
+describe('filterHistory', () => {
+  it('sorts newest first by default', () => {
+    expect(ids(filterHistory(history, DEFAULT_WORDBOOK_FILTER))).toEqual(['犬', '猫', '会社']);
+  });
+
+  it('sorts oldest first or by reading', () => {
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, sort: WordbookSort.OLDEST }))).toEqual(['会社', '猫', '犬']);
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, sort: WordbookSort.KANA }))).toEqual(['犬', '会社', '猫']);
+  });
+
+  it('matches every search term against any field, whatever the kana', () => {
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, query: 'ネコ' }))).toEqual(['猫']);
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, query: 'animal DOG' }))).toEqual(['犬']);
+  });
+
+  it('filters by tag and folder', () => {
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, tag: 'animal' }))).toEqual(['犬', '猫']);
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, folder: 'Work' }))).toEqual(['会社']);
+    expect(ids(filterHistory(history, { ...DEFAULT_WORDBOOK_FILTER, folder: UNFILED_FOLDER }))).toEqual(['犬']);
+  });
+});
+
+describe('tags', () => {
+  it('parses a separated list without duplicates or hashes', () => {
+    expect(parseTags('N3, work、#anime  work')).toEqual(['N3', 'work', 'anime']);
+  });
+
+  it('collects the tags in use', () => {
+    expect(collectTags(history)).toEqual(['N5', 'animal']);
+  });
+});
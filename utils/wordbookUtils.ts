@@ -0,0 +1,73 @@
+import { WordbookFilter, WordbookSort, WordHistoryItem } from "../types";
+import { katakanaToHiragana } from "./kanaUtils";
+
+export const UNFILED_FOLDER = '__unfiled__';
+
+export const DEFAULT_WORDBOOK_FILTER: WordbookFilter = {
+  query: '',
+  sort: WordbookSort.NEWEST,
+  tag: null,
+  folder: null,
+};
+
+/**
+ * Folds width, case and katakana/hiragana so "ネコ", "ねこ" and "ﾈｺ" all match.
+ */
+export const normalizeForSearch = (text: string): string =>
+  katakanaToHiragana(text.normalize('NFKC').toLowerCase());
+
+const searchableText = (item: WordHistoryItem): string =>
+  normalizeForSearch([
+    item.word,
+    item.reading,
+    item.definition,
+    item.definition_jp,
+    item.example_jp,
+    item.example_cn,
+    ...(item.tags ?? []),
+    item.folder ?? '',
+  ].join('\n'));
+
+const kanaCollator = new Intl.Collator('ja');
+const wordCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+const SORTERS: Record<WordbookSort, (a: WordHistoryItem, b: WordHistoryItem) => number> = {
+  [WordbookSort.NEWEST]: (a, b) => b.timestamp - a.timestamp,
+  [WordbookSort.OLDEST]: (a, b) => a.timestamp - b.timestamp,
+  [WordbookSort.ALPHABETICAL]: (a, b) => wordCollator.compare(a.word, b.word),
+  [WordbookSort.KANA]: (a, b) =>
+    kanaCollator.compare(normalizeForSearch(a.reading || a.word), normalizeForSearch(b.reading || b.word)),
+};
+
+/**
+ * Applies search, tag/folder filters and sorting. Every search term must match.
+ */
+export const filterHistory = (history: WordHistoryItem[], filter: WordbookFilter): WordHistoryItem[] => {
+  const terms = normalizeForSearch(filter.query).split(/\s+/).filter(Boolean);
+
+  return history
+    .filter(item => {
+      if (filter.tag && !(item.tags ?? []).includes(filter.tag)) return false;
+      if (filter.folder === UNFILED_FOLDER && item.folder) return false;
+      if (filter.folder && filter.folder !== UNFILED_FOLDER && item.folder !== filter.folder) return false;
+      if (terms.length === 0) return true;
+      const text = searchableText(item);
+      return terms.every(term => text.includes(term));
+    })
+    .sort(SORTERS[filter.sort]);
+};
+
+export const isFilterActive = (filter: WordbookFilter): boolean =>
+  !!filter.query.trim() || !!filter.tag || !!filter.folder;
+
+export const collectTags = (history: WordHistoryItem[]): string[] =>
+  Array.from(new Set(history.flatMap(item => item.tags ?? []))).sort();
+
+export const collectFolders = (history: WordHistoryItem[]): string[] =>
+  Array.from(new Set(history.flatMap(item => (item.folder ? [item.folder] : [])))).sort();
+
+/**
+ * Parses a comma/space separated tag list, e.g. "N3, work anime".
+ */
+export const parseTags = (input: string): string[] =>
+  Array.from(new Set(input.split(/[,，、\s]+/).map(tag => tag.trim().replace(/^#/, '')).filter(Boolean)));
@@ -1,7 +1,38 @@
+/// <reference types="vitest/config" />
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { createHash } from 'crypto';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Writes the built file list into dist/sw.js, so the service worker can precache the bundles on install
+const precacheBuildAssets = (): Plugin => {
+  let outDir = 'dist';
+  let assets: string[] = [];
+  return {
+    name: 'lyb-precache-build-assets',
+    apply: 'build',
+    configResolved(config) {
+      outDir = path.resolve(config.root, config.build.outDir);
+    },
+    generateBundle(_options, bundle) {
+      assets = Object.keys(bundle).filter(name => name.startsWith('assets/')).map(name => `/${name}`).sort();
+    },
+    writeBundle() {
+      const swPath = path.join(outDir, 'sw.js');
+      const source = fs.readFileSync(swPath, 'utf8');
+      const buildId = createHash('sha256').update(assets.join('\n')).digest('hex').slice(0, 12);
+      const output = source
+        .replace('const BUILD_ASSETS = [];', `const BUILD_ASSETS = ${JSON.stringify(assets)};`)
+        .replace("const BUILD_ID = 'dev';", `const BUILD_ID = '${buildId}';`);
+      if (!output.includes(buildId) || assets.some(asset => !output.includes(asset))) {
+        throw new Error('public/sw.js no longer has the BUILD_ASSETS and BUILD_ID placeholders');
+      }
+      fs.writeFileSync(swPath, output);
+    },
+  };
+};
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,15 +40,31 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), precacheBuildAssets()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // AI provider selection, see services/providers/aiProvider.ts
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+        'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY || ''),
+        'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL || ''),
+        'process.env.AI_MODEL_TEXT': JSON.stringify(env.AI_MODEL_TEXT || ''),
+        'process.env.AI_MODEL_VISION': JSON.stringify(env.AI_MODEL_VISION || ''),
+        'process.env.AI_MODEL_IMAGE': JSON.stringify(env.AI_MODEL_IMAGE || ''),
+        'process.env.AI_MODEL_SPEECH': JSON.stringify(env.AI_MODEL_SPEECH || ''),
+        'process.env.AI_VOICE': JSON.stringify(env.AI_VOICE || ''),
+        'process.env.AI_MODEL_AUDIO': JSON.stringify(env.AI_MODEL_AUDIO || ''),
+        // Wordbook sync server, see server/sync-server.mjs
+        'process.env.SYNC_SERVER_URL': JSON.stringify(env.SYNC_SERVER_URL || '')
       },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
         }
+      },
+      // The services run in the browser, so tests run in a browser-like environment
+      test: {
+        environment: 'jsdom',
       }
     };
 });